@@ -0,0 +1,49 @@
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface TwitchChannel {
+  channel: string;
+  primary: boolean;
+  joined: boolean;
+}
+
+interface ChannelSelectProps {
+  value: string;
+  onChange: (channel: string) => void;
+}
+
+export const ALL_CHANNELS = "all";
+
+/**
+ * Append ?channel= to an API path unless every channel is selected.
+ */
+export function withChannel(path: string, channel: string) {
+  return channel === ALL_CHANNELS ? path : `${path}?channel=${encodeURIComponent(channel)}`;
+}
+
+export function ChannelSelect({ value, onChange }: ChannelSelectProps) {
+  const { data: channels = [] } = useQuery<TwitchChannel[]>({
+    queryKey: ["/api/twitch/channels"],
+  });
+
+  // Nothing to choose between with a single channel
+  if (channels.length <= 1) {
+    return null;
+  }
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-48" data-testid="select-channel">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_CHANNELS}>All channels</SelectItem>
+        {channels.map((channel) => (
+          <SelectItem key={channel.channel} value={channel.channel}>
+            #{channel.channel}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -1,6 +1,33 @@
 import { useEffect, useRef, useState } from "react";
 import { queryClient } from "@/lib/queryClient";
 
+// Also matches channel-filtered keys such as "/api/analyses?channel=foo"
+function invalidatePath(path: string) {
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).split("?")[0] === path,
+  });
+}
+
+// Same cap the server keeps in memory
+const MAX_DACHISTREAM_LOGS = 100;
+
+// Buffer scores are recomputed server-side on every fetch; busy chat changes
+// the buffer on every message, so refetch at most this often
+const BUFFER_REFRESH_MS = 3000;
+let bufferRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+function refreshBufferSoon() {
+  if (bufferRefreshTimer) return;
+  bufferRefreshTimer = setTimeout(() => {
+    bufferRefreshTimer = null;
+    invalidatePath("/api/dachistream/buffer");
+  }, BUFFER_REFRESH_MS);
+}
+
+// Reconnect backoff after the socket drops, doubling up to the max
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
 export function useWebSocket() {
   const [isConnected, setIsConnected] = useState(false);
   const wsRef = useRef<WebSocket | null>(null);
@@ -10,57 +37,135 @@ export function useWebSocket() {
     const host = window.location.host;
     const wsUrl = `${protocol}//${host}/ws`;
     
-    console.log("Connecting to WebSocket:", wsUrl);
-    const ws = new WebSocket(wsUrl);
-    wsRef.current = ws;
+    let socket: WebSocket | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let retryDelay = MIN_RECONNECT_DELAY_MS;
+    let disposed = false;
 
-    ws.onopen = () => {
-      console.log("WebSocket connected");
-      setIsConnected(true);
-    };
+    const connect = () => {
+      retryTimer = null;
+      console.log("Connecting to WebSocket:", wsUrl);
+      const ws = new WebSocket(wsUrl);
+      wsRef.current = ws;
+      socket = ws;
+
+      ws.onopen = () => {
+        console.log("WebSocket connected");
+        setIsConnected(true);
+        retryDelay = MIN_RECONNECT_DELAY_MS;
+        // Pushed DachiStream state and logs only cover what happens from now on,
+        // and anything pushed while disconnected was missed
+        invalidatePath("/api/dachistream/status");
+        invalidatePath("/api/dachistream/logs");
+        invalidatePath("/api/dachistream/buffer");
+        invalidatePath("/api/dachistream/reviews");
+      };
 
-    ws.onmessage = (event) => {
-      try {
-        const { event: eventType, data } = JSON.parse(event.data);
+      ws.onmessage = (event) => {
+        try {
+          const { event: eventType, data } = JSON.parse(event.data);
         
-        switch (eventType) {
-          case "new_message":
-            queryClient.invalidateQueries({ queryKey: ["/api/messages"] });
-            queryClient.invalidateQueries({ queryKey: ["/api/analyses"] });
-            break;
-          case "command_response":
-            console.log("Command response:", data);
-            break;
-          case "twitch_connected":
-            console.log("Twitch connected:", data);
-            break;
-          case "twitch_disconnected":
-            console.log("Twitch disconnected:", data);
-            break;
-          case "auto_shoutout":
-            console.log("Auto shoutout:", data);
-            // Emit custom browser event for shoutout
-            window.dispatchEvent(new CustomEvent("vip_shoutout", { detail: data }));
-            break;
+          switch (eventType) {
+            case "new_message":
+              invalidatePath("/api/messages");
+              break;
+            case "analysis_ready":
+              invalidatePath("/api/analyses");
+              break;
+            case "dachistream_state": {
+              const previous = queryClient.getQueryData<{ bufferCount?: number; status?: string }>(["/api/dachistream/status"]);
+              queryClient.setQueryData(["/api/dachistream/status"], data);
+              // Buffer scores are only worth refetching when the buffer changed
+              if (previous?.bufferCount !== data?.bufferCount) {
+                refreshBufferSoon();
+              }
+              // Back to collecting means a cycle just finished and was stored
+              if (previous?.status && previous.status !== "collecting" && data?.status === "collecting") {
+                invalidatePath("/api/dachistream/cycles");
+              }
+              break;
+            }
+            case "dachistream_log":
+              queryClient.setQueryData<unknown[]>(["/api/dachistream/logs"], (logs = []) =>
+                [...logs, data].slice(-MAX_DACHISTREAM_LOGS)
+              );
+              // Replies are stored before they are logged
+              if (data?.type === "ai_response") {
+                invalidatePath("/api/dachistream/replies");
+              }
+              break;
+            case "reply_review":
+              invalidatePath("/api/dachistream/reviews");
+              // Approved replies flip to "sent" in the history
+              invalidatePath("/api/dachistream/replies");
+              break;
+            case "command_response":
+              console.log("Command response:", data);
+              break;
+            case "twitch_sub":
+            case "twitch_resub":
+            case "twitch_subgift":
+            case "twitch_submysterygift":
+            case "twitch_cheer":
+            case "twitch_giftupgrade":
+            case "twitch_follow":
+              console.log("Support event:", data);
+              window.dispatchEvent(new CustomEvent("support_event", { detail: data }));
+              break;
+            case "moderation_action":
+              queryClient.invalidateQueries({ queryKey: ["/api/moderation-actions"] });
+              break;
+            case "twitch_connected":
+              console.log("Twitch connected:", data);
+              queryClient.invalidateQueries({ queryKey: ["/api/twitch/channels"] });
+              break;
+            case "stream_session_started":
+            case "stream_session_updated":
+            case "stream_session_ended":
+              queryClient.invalidateQueries({ queryKey: ["/api/stream-sessions/current"] });
+              break;
+            case "twitch_channel_joined":
+            case "twitch_channel_left":
+              queryClient.invalidateQueries({ queryKey: ["/api/twitch/channels"] });
+              break;
+            case "twitch_disconnected":
+              console.log("Twitch disconnected:", data);
+              break;
+            case "auto_shoutout":
+              console.log("Auto shoutout:", data);
+              // Emit custom browser event for shoutout
+              window.dispatchEvent(new CustomEvent("vip_shoutout", { detail: data }));
+              break;
+          }
+        } catch (error) {
+          console.error("Error parsing WebSocket message:", error);
         }
-      } catch (error) {
-        console.error("Error parsing WebSocket message:", error);
-      }
-    };
+      };
 
-    ws.onerror = (error) => {
-      console.error("WebSocket error:", error);
-      setIsConnected(false);
-    };
+      ws.onerror = (error) => {
+        console.error("WebSocket error:", error);
+        setIsConnected(false);
+      };
+
+      ws.onclose = () => {
+        console.log("WebSocket disconnected");
+        setIsConnected(false);
+        if (disposed) return;
 
-    ws.onclose = () => {
-      console.log("WebSocket disconnected");
-      setIsConnected(false);
+        // The WebSocket is the only source of live updates, so keep retrying
+        console.log(`Reconnecting WebSocket in ${retryDelay / 1000}s`);
+        retryTimer = setTimeout(connect, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, MAX_RECONNECT_DELAY_MS);
+      };
     };
 
+    connect();
+
     return () => {
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.close();
+      disposed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      if (socket && (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING)) {
+        socket.close();
       }
     };
   }, []);
@@ -6,11 +6,23 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { AiCommand, InsertAiCommand, Settings, InsertSettings } from "@shared/schema";
+import type {
+  AiCommand,
+  InsertAiCommand,
+  Settings,
+  InsertSettings,
+  Persona,
+  InsertPersona,
+  PersonaEnergyModifiers,
+  PersonaExampleExchange,
+  PersonaScheduleWindow,
+} from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
-import { PlusIcon, TrashIcon, Sparkles } from "lucide-react";
+import { PlusIcon, TrashIcon, Sparkles, PencilIcon, Drama, XIcon } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { Badge } from "@/components/ui/badge";
 import {
   Dialog,
@@ -29,17 +41,522 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
+interface ActivePersona {
+  channel: string | null;
+  personaId: string | null;
+  persona: Pick<Persona, "name">;
+  reason: "category" | "schedule" | "default" | "fallback";
+}
+
+const PERSONA_REASON_LABELS: Record<ActivePersona["reason"], string> = {
+  category: "stream category",
+  schedule: "time schedule",
+  default: "default",
+  fallback: "fallback",
+};
+
+const ENERGY_LEVELS: (keyof PersonaEnergyModifiers)[] = ["High", "Balanced", "Low"];
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// List fields are edited as one entry per line
+interface PersonaForm {
+  name: string;
+  description: string;
+  systemPrompt: string;
+  energyModifiers: PersonaEnergyModifiers;
+  exampleExchanges: PersonaExampleExchange[];
+  catchphrases: string;
+  bannedPhrases: string;
+  scheduleCategories: string;
+  scheduleWindows: PersonaScheduleWindow[];
+  scheduleTimezone: string;
+  scheduleChannels: string;
+}
+
+function personaForm(persona?: Persona | null): PersonaForm {
+  return {
+    name: persona?.name || "",
+    description: persona?.description || "",
+    systemPrompt: persona?.systemPrompt || "",
+    energyModifiers: { ...(persona?.energyModifiers || {}) },
+    exampleExchanges: [...(persona?.exampleExchanges || [])],
+    catchphrases: (persona?.catchphrases || []).join("\n"),
+    bannedPhrases: (persona?.bannedPhrases || []).join("\n"),
+    scheduleCategories: (persona?.scheduleCategories || []).join("\n"),
+    scheduleWindows: [...(persona?.scheduleWindows || [])],
+    // New personas start in the browser's zone; existing ones without one use server time
+    scheduleTimezone: persona ? persona.scheduleTimezone || "" : Intl.DateTimeFormat().resolvedOptions().timeZone,
+    scheduleChannels: (persona?.scheduleChannels || []).join("\n"),
+  };
+}
+
+function lines(text: string): string[] {
+  return text.split("\n").map(line => line.trim()).filter(Boolean);
+}
+
+function describeWindow(window: PersonaScheduleWindow): string {
+  const days = window.days.length === 0 || window.days.length === 7
+    ? "Daily"
+    : [...window.days].sort().map(day => WEEKDAYS[day]).join(", ");
+  return `${days} ${window.start}-${window.end}`;
+}
+
+function PersonaDialog({
+  open,
+  persona,
+  onOpenChange,
+}: {
+  open: boolean;
+  persona: Persona | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<PersonaForm>(personaForm(persona));
+
+  useEffect(() => {
+    if (open) setForm(personaForm(persona));
+  }, [open, persona]);
+
+  const update = <K extends keyof PersonaForm>(key: K, value: PersonaForm[K]) =>
+    setForm(current => ({ ...current, [key]: value }));
+
+  const saveMutation = useMutation({
+    mutationFn: (data: InsertPersona) =>
+      persona
+        ? apiRequest("PATCH", `/api/personas/${persona.id}`, data)
+        : apiRequest("POST", "/api/personas", data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/personas"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/personas/active"] });
+      toast({
+        title: persona ? "Persona updated" : "Persona created",
+        description: `${form.name.trim()} is ready to use.`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save persona. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    if (!form.name.trim() || !form.systemPrompt.trim()) {
+      toast({
+        title: "Missing fields",
+        description: "A persona needs a name and a system prompt.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveMutation.mutate({
+      name: form.name,
+      description: form.description.trim() || null,
+      systemPrompt: form.systemPrompt,
+      energyModifiers: form.energyModifiers,
+      exampleExchanges: form.exampleExchanges,
+      catchphrases: lines(form.catchphrases),
+      bannedPhrases: lines(form.bannedPhrases),
+      scheduleCategories: lines(form.scheduleCategories),
+      scheduleWindows: form.scheduleWindows,
+      scheduleTimezone: form.scheduleTimezone.trim() || null,
+      scheduleChannels: lines(form.scheduleChannels),
+    });
+  };
+
+  const updateExchange = (index: number, change: Partial<PersonaExampleExchange>) =>
+    update("exampleExchanges", form.exampleExchanges.map((exchange, i) => (i === index ? { ...exchange, ...change } : exchange)));
+
+  const updateWindow = (index: number, change: Partial<PersonaScheduleWindow>) =>
+    update("scheduleWindows", form.scheduleWindows.map((window, i) => (i === index ? { ...window, ...change } : window)));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="dialog-persona">
+        <DialogHeader>
+          <DialogTitle>{persona ? `Edit ${persona.name}` : "Create Persona"}</DialogTitle>
+          <DialogDescription>
+            Define who DachiStream is when it replies in chat
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="persona-name">Name</Label>
+              <Input
+                id="persona-name"
+                value={form.name}
+                onChange={(e) => update("name", e.target.value)}
+                placeholder="Cozy Sunday"
+                data-testid="input-persona-name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="persona-description">Description</Label>
+              <Input
+                id="persona-description"
+                value={form.description}
+                onChange={(e) => update("description", e.target.value)}
+                placeholder="Soft-spoken and wholesome"
+                data-testid="input-persona-description"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="persona-system-prompt">System Prompt</Label>
+            <Textarea
+              id="persona-system-prompt"
+              value={form.systemPrompt}
+              onChange={(e) => update("systemPrompt", e.target.value)}
+              placeholder="You are DachiDachi, a cozy chat companion who..."
+              rows={4}
+              data-testid="input-persona-system-prompt"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Energy Modifiers</Label>
+            {ENERGY_LEVELS.map((level) => (
+              <div key={level} className="flex items-center gap-2">
+                <span className="w-20 text-sm text-muted-foreground">{level}</span>
+                <Input
+                  value={form.energyModifiers[level] || ""}
+                  onChange={(e) => update("energyModifiers", { ...form.energyModifiers, [level]: e.target.value })}
+                  placeholder={level === "High" ? "Extra hype, lots of exclamation" : level === "Low" ? "Short and calm" : "Optional"}
+                  data-testid={`input-persona-energy-${level.toLowerCase()}`}
+                />
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Added to the system prompt when DachiPool energy is set to that level
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Example Exchanges</Label>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => update("exampleExchanges", [...form.exampleExchanges, { user: "", reply: "" }])}
+                data-testid="button-add-persona-exchange"
+              >
+                <PlusIcon className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </div>
+            {form.exampleExchanges.map((exchange, index) => (
+              <div key={index} className="flex items-start gap-2" data-testid={`persona-exchange-${index}`}>
+                <div className="flex-1 space-y-1">
+                  <Input
+                    value={exchange.user}
+                    onChange={(e) => updateExchange(index, { user: e.target.value })}
+                    placeholder="Chat: what game is next?"
+                    data-testid={`input-persona-exchange-user-${index}`}
+                  />
+                  <Input
+                    value={exchange.reply}
+                    onChange={(e) => updateExchange(index, { reply: e.target.value })}
+                    placeholder="Reply: something spooky, grab a blanket"
+                    data-testid={`input-persona-exchange-reply-${index}`}
+                  />
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => update("exampleExchanges", form.exampleExchanges.filter((_, i) => i !== index))}
+                  data-testid={`button-remove-persona-exchange-${index}`}
+                >
+                  <XIcon className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="persona-catchphrases">Catchphrases</Label>
+              <Textarea
+                id="persona-catchphrases"
+                value={form.catchphrases}
+                onChange={(e) => update("catchphrases", e.target.value)}
+                placeholder={"One per line\nlet's gooo"}
+                rows={3}
+                data-testid="input-persona-catchphrases"
+              />
+            </div>
+            <div>
+              <Label htmlFor="persona-banned-phrases">Banned Phrases</Label>
+              <Textarea
+                id="persona-banned-phrases"
+                value={form.bannedPhrases}
+                onChange={(e) => update("bannedPhrases", e.target.value)}
+                placeholder={"One per line\nas an AI"}
+                rows={3}
+                data-testid="input-persona-banned-phrases"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Replies containing these are blocked by the safety filter
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-2 rounded-md border p-3">
+            <Label htmlFor="persona-categories">Schedule</Label>
+            <Textarea
+              id="persona-categories"
+              value={form.scheduleCategories}
+              onChange={(e) => update("scheduleCategories", e.target.value)}
+              placeholder={"Stream categories, one per line\nJust Chatting"}
+              rows={2}
+              data-testid="input-persona-categories"
+            />
+            <p className="text-xs text-muted-foreground">
+              Used whenever the live stream is in one of these categories
+            </p>
+            {form.scheduleWindows.map((window, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2" data-testid={`persona-window-${index}`}>
+                <ToggleGroup
+                  type="multiple"
+                  size="sm"
+                  value={window.days.map(String)}
+                  onValueChange={(days) => updateWindow(index, { days: days.map(Number) })}
+                >
+                  {WEEKDAYS.map((day, dayIndex) => (
+                    <ToggleGroupItem key={day} value={String(dayIndex)} data-testid={`toggle-persona-window-${index}-${day.toLowerCase()}`}>
+                      {day}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+                <Input
+                  type="time"
+                  className="w-28"
+                  value={window.start}
+                  onChange={(e) => updateWindow(index, { start: e.target.value })}
+                  data-testid={`input-persona-window-start-${index}`}
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <Input
+                  type="time"
+                  className="w-28"
+                  value={window.end}
+                  onChange={(e) => updateWindow(index, { end: e.target.value })}
+                  data-testid={`input-persona-window-end-${index}`}
+                />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => update("scheduleWindows", form.scheduleWindows.filter((_, i) => i !== index))}
+                  data-testid={`button-remove-persona-window-${index}`}
+                >
+                  <XIcon className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => update("scheduleWindows", [...form.scheduleWindows, { days: [], start: "18:00", end: "22:00" }])}
+              data-testid="button-add-persona-window"
+            >
+              <PlusIcon className="h-4 w-4 mr-1" />
+              Add Time Window
+            </Button>
+            <div className="grid md:grid-cols-2 gap-4 pt-2">
+              <div>
+                <Label htmlFor="persona-timezone">Time Zone</Label>
+                <Input
+                  id="persona-timezone"
+                  value={form.scheduleTimezone}
+                  onChange={(e) => update("scheduleTimezone", e.target.value)}
+                  placeholder="Server time"
+                  data-testid="input-persona-timezone"
+                />
+              </div>
+              <div>
+                <Label htmlFor="persona-channels">Channels</Label>
+                <Textarea
+                  id="persona-channels"
+                  value={form.scheduleChannels}
+                  onChange={(e) => update("scheduleChannels", e.target.value)}
+                  placeholder={"One per line, empty for all"}
+                  rows={2}
+                  data-testid="input-persona-channels"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Times use the IANA zone above, e.g. America/New_York. No days selected means every day. Stream category takes priority over time windows, and the schedule only applies in the listed channels.
+            </p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-persona">
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-persona">
+            {saveMutation.isPending ? "Saving..." : persona ? "Save Persona" : "Create Persona"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function PersonaManager({ defaultPersonaId }: { defaultPersonaId: string | null }) {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Persona | null>(null);
+
+  const { data: personas = [], isLoading } = useQuery<Persona[]>({
+    queryKey: ["/api/personas"],
+  });
+
+  const { data: active } = useQuery<ActivePersona>({
+    queryKey: ["/api/personas/active"],
+    refetchInterval: 60000, // Time windows switch without any other trigger
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/personas/${id}`, undefined),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/personas"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/personas/active"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({
+        title: "Persona deleted",
+        description: "The persona has been removed.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete persona.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openEditor = (persona: Persona | null) => {
+    setEditing(persona);
+    setDialogOpen(true);
+  };
+
+  return (
+    <Card data-testid="card-personas">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-2">
+              <Drama className="h-5 w-5 text-primary" />
+              <CardTitle className="text-lg font-semibold">Personas</CardTitle>
+            </div>
+            <CardDescription className="mt-1.5">
+              {active
+                ? `Replying as ${active.persona.name} (${PERSONA_REASON_LABELS[active.reason]})`
+                : "Bot personalities DachiStream can reply as"}
+            </CardDescription>
+          </div>
+          <Button onClick={() => openEditor(null)} data-testid="button-create-persona">
+            <PlusIcon className="h-4 w-4 mr-2" />
+            New Persona
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-16 bg-muted animate-pulse rounded-md" />
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {personas.map((persona) => (
+              <div
+                key={persona.id}
+                className="flex items-center justify-between p-4 rounded-md bg-card border border-card-border hover-elevate"
+                data-testid={`persona-${persona.id}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-3 flex-wrap">
+                    <span className="font-medium" data-testid={`persona-name-${persona.id}`}>{persona.name}</span>
+                    {persona.id === defaultPersonaId && <Badge variant="secondary">Default</Badge>}
+                    {persona.id === active?.personaId && <Badge data-testid={`persona-active-${persona.id}`}>Active now</Badge>}
+                    {(persona.scheduleCategories || []).map((category) => (
+                      <Badge key={category} variant="outline">{category}</Badge>
+                    ))}
+                    {(persona.scheduleWindows || []).map((window, index) => (
+                      <span key={index} className="text-xs text-muted-foreground">
+                        {describeWindow(window)}{persona.scheduleTimezone ? ` ${persona.scheduleTimezone}` : ""}
+                      </span>
+                    ))}
+                    {(persona.scheduleChannels || []).map((channel) => (
+                      <Badge key={channel} variant="outline">#{channel}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-sm text-muted-foreground mt-2 line-clamp-2">
+                    {persona.description || persona.systemPrompt}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 ml-4">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => openEditor(persona)}
+                    data-testid={`button-edit-persona-${persona.id}`}
+                  >
+                    <PencilIcon className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => deleteMutation.mutate(persona.id)}
+                    disabled={personas.length <= 1}
+                    data-testid={`button-delete-persona-${persona.id}`}
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+      <PersonaDialog open={dialogOpen} persona={editing} onOpenChange={setDialogOpen} />
+    </Card>
+  );
+}
+
 export default function AiControls() {
   const { toast } = useToast();
   const [dialogOpen, setDialogOpen] = useState(false);
   const [trigger, setTrigger] = useState("");
   const [prompt, setPrompt] = useState("");
   const [responseType, setResponseType] = useState("direct");
+  const [rewardTitle, setRewardTitle] = useState("");
+  const [outputTarget, setOutputTarget] = useState("chat");
+  const [globalCooldownSeconds, setGlobalCooldownSeconds] = useState("0");
+  const [userCooldownSeconds, setUserCooldownSeconds] = useState("0");
+  const [allowedRoles, setAllowedRoles] = useState<string[]>([]);
+  const [sampleMessage, setSampleMessage] = useState("");
+  const [previewResponse, setPreviewResponse] = useState<string | null>(null);
 
   // Groq AI Settings
   const [aiModel, setAiModel] = useState("llama-3.3-70b-versatile");
   const [temperature, setTemperature] = useState([7]);
-  const [aiPersonality, setAiPersonality] = useState("Casual");
+  const [activePersonaId, setActivePersonaId] = useState("");
+  const [llmProvider, setLlmProvider] = useState("groq");
+  const [llmBaseUrl, setLlmBaseUrl] = useState("");
+  const [llmModelOverride, setLlmModelOverride] = useState("");
+  const [embeddingProvider, setEmbeddingProvider] = useState("local");
+  const [embeddingBaseUrl, setEmbeddingBaseUrl] = useState("");
+  const [embeddingModel, setEmbeddingModel] = useState("");
 
   const { data: commands = [], isLoading } = useQuery<AiCommand[]>({
     queryKey: ["/api/commands"],
@@ -49,12 +566,22 @@ export default function AiControls() {
     queryKey: ["/api/settings"],
   });
 
+  const { data: personas = [] } = useQuery<Persona[]>({
+    queryKey: ["/api/personas"],
+  });
+
   useEffect(() => {
     if (settings && settings.length > 0) {
       const setting = settings[0];
       setAiModel(setting.dachipoolAiModel || "llama-3.3-70b-versatile");
       setTemperature([setting.dachipoolAiTemp || 7]);
-      setAiPersonality(setting.aiPersonality || "Casual");
+      setActivePersonaId(setting.activePersonaId || "");
+      setLlmProvider(setting.llmProvider || "groq");
+      setLlmBaseUrl(setting.llmBaseUrl || "");
+      setLlmModelOverride(setting.llmModelOverride || "");
+      setEmbeddingProvider(setting.embeddingProvider || "local");
+      setEmbeddingBaseUrl(setting.embeddingBaseUrl || "");
+      setEmbeddingModel(setting.embeddingModel || "");
     }
   }, [settings]);
 
@@ -70,6 +597,13 @@ export default function AiControls() {
       setTrigger("");
       setPrompt("");
       setResponseType("direct");
+      setRewardTitle("");
+      setOutputTarget("chat");
+      setGlobalCooldownSeconds("0");
+      setUserCooldownSeconds("0");
+      setAllowedRoles([]);
+      setSampleMessage("");
+      setPreviewResponse(null);
     },
     onError: () => {
       toast({
@@ -80,6 +614,23 @@ export default function AiControls() {
     },
   });
 
+  const previewCommandMutation = useMutation({
+    mutationFn: async (data: { trigger: string; prompt: string; responseType: string; sampleMessage: string }) => {
+      const res = await apiRequest("POST", "/api/commands/preview", data);
+      return res.json() as Promise<{ response: string }>;
+    },
+    onSuccess: (data) => {
+      setPreviewResponse(data.response || "(no response)");
+    },
+    onError: () => {
+      toast({
+        title: "Preview failed",
+        description: "Could not generate a preview. Check your AI settings.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const deleteCommandMutation = useMutation({
     mutationFn: (id: string) => apiRequest("DELETE", `/api/commands/${id}`, undefined),
     onSuccess: () => {
@@ -106,6 +657,7 @@ export default function AiControls() {
         : apiRequest("POST", "/api/settings", data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/personas/active"] });
       toast({
         title: "AI Settings saved",
         description: "Your AI configuration has been updated.",
@@ -121,10 +673,34 @@ export default function AiControls() {
   });
 
   const handleSaveAiSettings = () => {
+    if (llmProvider === "openai_compatible" && !llmBaseUrl) {
+      toast({
+        title: "Missing base URL",
+        description: "An OpenAI-compatible provider needs an endpoint URL.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (embeddingProvider === "openai_compatible" && !embeddingBaseUrl && !llmBaseUrl) {
+      toast({
+        title: "Missing embeddings URL",
+        description: "An embedding model needs an endpoint URL.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     updateAiSettingsMutation.mutate({
       dachipoolAiModel: aiModel,
       dachipoolAiTemp: temperature[0],
-      aiPersonality,
+      activePersonaId: activePersonaId || null,
+      llmProvider,
+      llmBaseUrl: llmBaseUrl || null,
+      llmModelOverride: llmModelOverride || null,
+      embeddingProvider,
+      embeddingBaseUrl: embeddingBaseUrl || null,
+      embeddingModel: embeddingModel || null,
     });
   };
 
@@ -142,25 +718,66 @@ export default function AiControls() {
       trigger,
       prompt,
       responseType,
+      rewardTitle: rewardTitle.trim() || null,
+      outputTarget,
+      globalCooldownSeconds: Math.max(0, parseInt(globalCooldownSeconds) || 0),
+      userCooldownSeconds: Math.max(0, parseInt(userCooldownSeconds) || 0),
+      allowedRoles,
       enabled: true,
     });
   };
 
-  const personalityDescriptions: Record<string, string> = {
-    Casual: "Friendly and relaxed, like chatting with a friend",
-    Comedy: "Witty and humorous, always ready with a joke",
-    Quirky: "Unique and playful with unexpected responses",
-    Serious: "Professional and focused, straight to the point",
-    Gaming: "Energetic gamer vibes with gaming references",
-    Professional: "Polished and business-like communication",
+  const handlePreviewCommand = () => {
+    if (!prompt) {
+      toast({
+        title: "Missing prompt",
+        description: "Write a prompt before previewing.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setPreviewResponse(null);
+    previewCommandMutation.mutate({
+      trigger: trigger || "!preview",
+      prompt,
+      responseType,
+      sampleMessage: sampleMessage || `${trigger || "!preview"} hello`,
+    });
+  };
+
+  const responseTypeDescriptions: Record<string, { label: string; placeholder: string; help: string }> = {
+    direct: {
+      label: "Reply Text",
+      placeholder: "Hey {user}, the schedule is on my profile!",
+      help: "Sent as-is with {user}, {args} and {channel} filled in. No AI call.",
+    },
+    analysis: {
+      label: "Analysis Instructions",
+      placeholder: "Describe the vibe of this viewer's recent chat",
+      help: "Analyzes the message, or an @user's recent history, and summarizes the result.",
+    },
+    generate: {
+      label: "AI Prompt",
+      placeholder: "Tell {user} a short story about {args}",
+      help: "Generated in DachiStream's personality with its safety guardrails.",
+    },
+  };
+
+  const toggleAllowedRole = (role: string, checked: boolean) => {
+    setAllowedRoles((roles) =>
+      checked ? [...roles, role] : roles.filter((r) => r !== role)
+    );
   };
 
+  const defaultPersona = personas.find((persona) => persona.id === activePersonaId);
+
   return (
     <div className="p-6 space-y-6">
       <div>
         <h1 className="text-2xl font-bold text-foreground" data-testid="page-title-ai-controls">AI Controls</h1>
         <p className="text-sm text-muted-foreground mt-1">
-          Configure AI personality, model settings, and custom commands
+          Configure AI personas, model settings, and custom commands
         </p>
       </div>
 
@@ -177,22 +794,19 @@ export default function AiControls() {
         <CardContent className="space-y-6">
           <div className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="personality">AI Personality</Label>
-              <Select value={aiPersonality} onValueChange={setAiPersonality}>
+              <Label htmlFor="personality">Default Persona</Label>
+              <Select value={activePersonaId} onValueChange={setActivePersonaId}>
                 <SelectTrigger id="personality" data-testid="select-personality">
-                  <SelectValue />
+                  <SelectValue placeholder="Select a persona" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="Casual">🙂 Casual</SelectItem>
-                  <SelectItem value="Comedy">😄 Comedy</SelectItem>
-                  <SelectItem value="Quirky">🎨 Quirky</SelectItem>
-                  <SelectItem value="Serious">🎯 Serious</SelectItem>
-                  <SelectItem value="Gaming">🎮 Gaming</SelectItem>
-                  <SelectItem value="Professional">💼 Professional</SelectItem>
+                  {personas.map((persona) => (
+                    <SelectItem key={persona.id} value={persona.id}>{persona.name}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <p className="text-xs text-muted-foreground">
-                {personalityDescriptions[aiPersonality]}
+                {defaultPersona?.description || "Used whenever no scheduled persona applies"}
               </p>
             </div>
 
@@ -230,6 +844,96 @@ export default function AiControls() {
                 </div>
               </div>
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="llm-provider">LLM Provider</Label>
+              <Select value={llmProvider} onValueChange={setLlmProvider}>
+                <SelectTrigger id="llm-provider" data-testid="select-llm-provider">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="groq">GroqCloud</SelectItem>
+                  <SelectItem value="openai_compatible">OpenAI-Compatible (Ollama / llama.cpp)</SelectItem>
+                  <SelectItem value="fake">Offline Test Provider</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {llmProvider === "fake"
+                  ? "Deterministic canned replies, no network needed"
+                  : llmProvider === "openai_compatible"
+                    ? "Any server exposing /v1/chat/completions"
+                    : "Hosted Groq models (requires GROQ_API_KEY)"}
+              </p>
+            </div>
+
+            {llmProvider === "openai_compatible" && (
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="llm-base-url">Endpoint URL</Label>
+                  <Input
+                    id="llm-base-url"
+                    value={llmBaseUrl}
+                    onChange={(e) => setLlmBaseUrl(e.target.value)}
+                    placeholder="http://localhost:11434/v1"
+                    data-testid="input-llm-base-url"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="llm-model-override">Local Model</Label>
+                  <Input
+                    id="llm-model-override"
+                    value={llmModelOverride}
+                    onChange={(e) => setLlmModelOverride(e.target.value)}
+                    placeholder="llama3.1:8b"
+                    data-testid="input-llm-model-override"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="embedding-provider">Chat History Embeddings</Label>
+              <Select value={embeddingProvider} onValueChange={setEmbeddingProvider}>
+                <SelectTrigger id="embedding-provider" data-testid="select-embedding-provider">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="local">Built-in (keyword hashing)</SelectItem>
+                  <SelectItem value="openai_compatible">Embedding Model (Ollama / OpenAI-compatible)</SelectItem>
+                  <SelectItem value="off">Off</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {embeddingProvider === "off"
+                  ? "Replies won't reference a chatter's earlier messages"
+                  : "Lets replies bring up what a chatter said in earlier streams"}
+              </p>
+            </div>
+
+            {embeddingProvider === "openai_compatible" && (
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="embedding-base-url">Embeddings Endpoint URL</Label>
+                  <Input
+                    id="embedding-base-url"
+                    value={embeddingBaseUrl}
+                    onChange={(e) => setEmbeddingBaseUrl(e.target.value)}
+                    placeholder={llmBaseUrl || "http://localhost:11434/v1"}
+                    data-testid="input-embedding-base-url"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="embedding-model">Embedding Model</Label>
+                  <Input
+                    id="embedding-model"
+                    value={embeddingModel}
+                    onChange={(e) => setEmbeddingModel(e.target.value)}
+                    placeholder="nomic-embed-text"
+                    data-testid="input-embedding-model"
+                  />
+                </div>
+              </div>
+            )}
           </div>
 
           <div className="flex justify-end">
@@ -244,6 +948,8 @@ export default function AiControls() {
         </CardContent>
       </Card>
 
+      <PersonaManager defaultPersonaId={settings?.[0]?.activePersonaId ?? null} />
+
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-xl font-semibold">Custom Commands</h2>
@@ -277,29 +983,133 @@ export default function AiControls() {
                 />
               </div>
               <div>
-                <Label htmlFor="prompt">AI Prompt</Label>
+                <Label htmlFor="responseType">Response Type</Label>
+                <Select value={responseType} onValueChange={(value) => { setResponseType(value); setPreviewResponse(null); }}>
+                  <SelectTrigger id="responseType" data-testid="select-response-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="direct">Direct (static reply)</SelectItem>
+                    <SelectItem value="analysis">Analysis (sentiment summary)</SelectItem>
+                    <SelectItem value="generate">Generate (DachiStream personality)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {responseTypeDescriptions[responseType]?.help}
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="prompt">{responseTypeDescriptions[responseType]?.label || "AI Prompt"}</Label>
                 <Textarea
                   id="prompt"
                   value={prompt}
                   onChange={(e) => setPrompt(e.target.value)}
-                  placeholder="Describe what the AI should do..."
+                  placeholder={responseTypeDescriptions[responseType]?.placeholder || "Describe what the AI should do..."}
                   rows={3}
                   data-testid="input-prompt"
                 />
               </div>
+              <div className="space-y-2 rounded-md border p-3">
+                <Label htmlFor="sampleMessage">Preview</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="sampleMessage"
+                    value={sampleMessage}
+                    onChange={(e) => setSampleMessage(e.target.value)}
+                    placeholder={`${trigger || "!mycommand"} ${responseType === "analysis" ? "@someviewer" : "something"}`}
+                    data-testid="input-sample-message"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={handlePreviewCommand}
+                    disabled={previewCommandMutation.isPending}
+                    data-testid="button-preview-command"
+                  >
+                    {previewCommandMutation.isPending ? "Running..." : "Preview"}
+                  </Button>
+                </div>
+                {previewResponse !== null && (
+                  <p className="text-sm bg-muted rounded-md p-2 whitespace-pre-wrap" data-testid="text-preview-response">
+                    {previewResponse}
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Runs the command against a sample chat message without posting to chat
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="rewardTitle">Channel Point Reward (optional)</Label>
+                <Input
+                  id="rewardTitle"
+                  value={rewardTitle}
+                  onChange={(e) => setRewardTitle(e.target.value)}
+                  placeholder="Ask Dachi"
+                  data-testid="input-reward-title"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Redeeming this reward sends the viewer's input to the command
+                </p>
+              </div>
               <div>
-                <Label htmlFor="responseType">Response Type</Label>
-                <Select value={responseType} onValueChange={setResponseType}>
-                  <SelectTrigger id="responseType" data-testid="select-response-type">
+                <Label htmlFor="outputTarget">Reply In</Label>
+                <Select value={outputTarget} onValueChange={setOutputTarget}>
+                  <SelectTrigger id="outputTarget" data-testid="select-output-target">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="direct">Direct Response</SelectItem>
-                    <SelectItem value="analysis">Analysis</SelectItem>
-                    <SelectItem value="generate">Generate Content</SelectItem>
+                    <SelectItem value="chat">Twitch Chat</SelectItem>
+                    <SelectItem value="overlay">Browser Source Overlay</SelectItem>
+                    <SelectItem value="dashboard">Dashboard Only</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="globalCooldown">Global Cooldown (s)</Label>
+                  <Input
+                    id="globalCooldown"
+                    type="number"
+                    min={0}
+                    value={globalCooldownSeconds}
+                    onChange={(e) => setGlobalCooldownSeconds(e.target.value)}
+                    data-testid="input-global-cooldown"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="userCooldown">Per-User Cooldown (s)</Label>
+                  <Input
+                    id="userCooldown"
+                    type="number"
+                    min={0}
+                    value={userCooldownSeconds}
+                    onChange={(e) => setUserCooldownSeconds(e.target.value)}
+                    data-testid="input-user-cooldown"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label>Restrict To</Label>
+                <div className="flex items-center gap-4 mt-2">
+                  {[
+                    { value: "subscriber", label: "Subscribers" },
+                    { value: "vip", label: "VIPs" },
+                    { value: "mod", label: "Mods" },
+                  ].map((role) => (
+                    <div key={role.value} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`role-${role.value}`}
+                        checked={allowedRoles.includes(role.value)}
+                        onCheckedChange={(checked) => toggleAllowedRole(role.value, checked === true)}
+                        data-testid={`checkbox-role-${role.value}`}
+                      />
+                      <Label htmlFor={`role-${role.value}`} className="font-normal">{role.label}</Label>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Leave all unchecked to allow everyone. Use {"{user}"}, {"{args}"} and {"{channel}"} in the prompt.
+                </p>
+              </div>
             </div>
             <DialogFooter>
               <Button variant="outline" onClick={() => setDialogOpen(false)} data-testid="button-cancel">
@@ -351,6 +1161,26 @@ export default function AiControls() {
                       <Badge variant="secondary" data-testid={`command-type-${command.id}`}>
                         {command.responseType}
                       </Badge>
+                      {command.rewardTitle && (
+                        <Badge variant="outline" data-testid={`command-reward-${command.id}`}>
+                          🎟 {command.rewardTitle}
+                        </Badge>
+                      )}
+                      {command.outputTarget !== "chat" && (
+                        <Badge variant="outline" data-testid={`command-target-${command.id}`}>
+                          {command.outputTarget}
+                        </Badge>
+                      )}
+                      {(command.globalCooldownSeconds > 0 || command.userCooldownSeconds > 0) && (
+                        <span className="text-xs text-muted-foreground">
+                          Cooldown {command.globalCooldownSeconds}s / {command.userCooldownSeconds}s per user
+                        </span>
+                      )}
+                      {command.allowedRoles && command.allowedRoles.length > 0 && (
+                        <span className="text-xs text-muted-foreground">
+                          {command.allowedRoles.join(", ")} only
+                        </span>
+                      )}
                       {command.usageCount > 0 && (
                         <span className="text-xs text-muted-foreground">
                           Used {command.usageCount} times
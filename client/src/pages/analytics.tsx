@@ -1,18 +1,28 @@
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useQuery } from "@tanstack/react-query";
 import type { ChatMessage, AiAnalysis } from "@shared/schema";
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, LineChart, Line } from "recharts";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChannelSelect, ALL_CHANNELS, withChannel } from "@/components/channel-select";
 
 export default function Analytics() {
+  const [channel, setChannel] = useState(ALL_CHANNELS);
+  // "llm" excludes results from the local fallback analyzer
+  const [engine, setEngine] = useState("all");
+
   const { data: messages = [] } = useQuery<ChatMessage[]>({
-    queryKey: ["/api/messages"],
+    queryKey: [withChannel("/api/messages", channel)],
   });
 
-  const { data: analyses = [] } = useQuery<AiAnalysis[]>({
-    queryKey: ["/api/analyses"],
+  const { data: allAnalyses = [] } = useQuery<AiAnalysis[]>({
+    queryKey: [withChannel("/api/analyses", channel)],
   });
 
+  const analyses = engine === "all" ? allAnalyses : allAnalyses.filter((a) => a.engine === engine);
+  const fallbackCount = allAnalyses.filter((a) => a.engine === "local").length;
+
   const topUsers = messages.reduce((acc, msg) => {
     acc[msg.username] = (acc[msg.username] || 0) + 1;
     return acc;
@@ -35,11 +45,26 @@ export default function Analytics() {
 
   return (
     <div className="p-6 space-y-6">
-      <div>
-        <h1 className="text-2xl font-bold text-foreground" data-testid="page-title-analytics">Analytics</h1>
-        <p className="text-sm text-muted-foreground mt-1">
-          Deep insights into your chat activity and sentiment trends
-        </p>
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground" data-testid="page-title-analytics">Analytics</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Deep insights into your chat activity and sentiment trends
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={engine} onValueChange={setEngine}>
+            <SelectTrigger className="w-48" data-testid="select-analysis-engine">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All analyzers</SelectItem>
+              <SelectItem value="llm">AI only (exclude fallback)</SelectItem>
+              <SelectItem value="local">Local fallback only</SelectItem>
+            </SelectContent>
+          </Select>
+          <ChannelSelect value={channel} onChange={setChannel} />
+        </div>
       </div>
 
       <div className="grid gap-4 md:grid-cols-3">
@@ -50,6 +75,11 @@ export default function Analytics() {
           <CardContent>
             <div className="text-3xl font-bold text-foreground">{avgSentiment}</div>
             <p className="text-xs text-muted-foreground mt-1">out of 5.0</p>
+            {engine === "all" && fallbackCount > 0 && (
+              <p className="text-xs text-muted-foreground" data-testid="text-fallback-count">
+                {fallbackCount} of {allAnalyses.length} from the local fallback
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -193,6 +223,9 @@ export default function Analytics() {
                     <span className="text-sm font-mono text-muted-foreground">
                       Score: {analysis.sentimentScore}/5
                     </span>
+                    {analysis.engine === "local" && (
+                      <Badge variant="outline" data-testid={`badge-engine-${analysis.id}`}>Local</Badge>
+                    )}
                   </div>
                   {analysis.toxicity && (
                     <Badge variant="destructive" data-testid={`badge-toxic-${analysis.id}`}>Toxic</Badge>
@@ -5,12 +5,32 @@ import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
+import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useTextToSpeech } from "@/hooks/use-text-to-speech";
 import { Volume2 } from "lucide-react";
+import type { SelectionWeights } from "@shared/schema";
+
+const DEFAULT_SELECTION_WEIGHTS: SelectionWeights = {
+  question: 8,
+  mention: 10,
+  sentiment: 4,
+  role: 5,
+  lastAnswered: 6,
+  novelty: 5,
+};
+
+const WEIGHT_LABELS: { key: keyof SelectionWeights; label: string; description: string }[] = [
+  { key: "question", label: "Questions", description: "Messages asking something" },
+  { key: "mention", label: "Mentions", description: "Mentions the bot or the streamer" },
+  { key: "sentiment", label: "Sentiment", description: "Positive messages, never toxic ones" },
+  { key: "role", label: "Role", description: "Broadcaster, mods, VIPs and subs" },
+  { key: "lastAnswered", label: "Not Answered Recently", description: "Users the AI hasn't replied to lately" },
+  { key: "novelty", label: "Novelty", description: "Not a repeat of other chat messages" },
+];
 
 interface Settings {
   id: string;
@@ -22,8 +42,22 @@ interface Settings {
   useDatabasePersonalization: boolean;
   streamerVoiceOnlyMode: boolean;
   dachiastreamSelectionStrategy: string;
+  dachiastreamSmartWeights: SelectionWeights | null;
   dachiastreamAutoSendToChat: boolean;
+  dachiastreamRequireApproval: boolean;
+  dachiastreamReviewTimeoutSeconds: number;
+  dachiastreamAutoApproveSeconds: number;
   dachiastreamCycleInterval: number;
+  dachiastreamAdaptiveInterval: boolean;
+  dachiastreamMinCycleInterval: number;
+  dachiastreamMaxCycleInterval: number;
+  dachiastreamMaxRepliesPerCycle: number;
+  dachiastreamPrioritizeSupporters: boolean;
+  dachiastreamMentionFastPath: boolean;
+  dachiastreamWakeWords: string[] | null;
+  dachiastreamMentionRepliesPerMinute: number;
+  dachiastreamBannedWords: string[] | null;
+  dachiastreamUnsafeReplyAction: string;
   dachipoolEnabled: boolean;
   dachipoolMaxChars: number;
   dachipoolEnergy: string;
@@ -47,8 +81,22 @@ export default function DachiStream() {
   const [useDatabasePersonalization, setUseDatabasePersonalization] = useState(true);
   const [streamerVoiceOnlyMode, setStreamerVoiceOnlyMode] = useState(false);
   const [dachiastreamSelectionStrategy, setDachiastreamSelectionStrategy] = useState("most_active");
+  const [dachiastreamSmartWeights, setDachiastreamSmartWeights] = useState<SelectionWeights>(DEFAULT_SELECTION_WEIGHTS);
   const [dachiastreamAutoSendToChat, setDachiastreamAutoSendToChat] = useState(false);
+  const [dachiastreamRequireApproval, setDachiastreamRequireApproval] = useState(false);
+  const [dachiastreamReviewTimeoutSeconds, setDachiastreamReviewTimeoutSeconds] = useState([120]);
+  const [dachiastreamAutoApproveSeconds, setDachiastreamAutoApproveSeconds] = useState([0]);
   const [dachiastreamCycleInterval, setDachiastreamCycleInterval] = useState([15]);
+  const [dachiastreamAdaptiveInterval, setDachiastreamAdaptiveInterval] = useState(false);
+  const [dachiastreamMinCycleInterval, setDachiastreamMinCycleInterval] = useState([5]);
+  const [dachiastreamMaxCycleInterval, setDachiastreamMaxCycleInterval] = useState([60]);
+  const [dachiastreamMaxRepliesPerCycle, setDachiastreamMaxRepliesPerCycle] = useState([3]);
+  const [dachiastreamPrioritizeSupporters, setDachiastreamPrioritizeSupporters] = useState(false);
+  const [dachiastreamMentionFastPath, setDachiastreamMentionFastPath] = useState(true);
+  const [dachiastreamWakeWords, setDachiastreamWakeWords] = useState("");
+  const [dachiastreamMentionRepliesPerMinute, setDachiastreamMentionRepliesPerMinute] = useState([4]);
+  const [dachiastreamBannedWords, setDachiastreamBannedWords] = useState("");
+  const [dachiastreamUnsafeReplyAction, setDachiastreamUnsafeReplyAction] = useState("regenerate");
   
   // DachiPool settings
   const [dachipoolEnabled, setDachipoolEnabled] = useState(true);
@@ -77,8 +125,22 @@ export default function DachiStream() {
       setUseDatabasePersonalization(setting.useDatabasePersonalization ?? true);
       setStreamerVoiceOnlyMode(setting.streamerVoiceOnlyMode ?? false);
       setDachiastreamSelectionStrategy(setting.dachiastreamSelectionStrategy || "most_active");
+      setDachiastreamSmartWeights({ ...DEFAULT_SELECTION_WEIGHTS, ...setting.dachiastreamSmartWeights });
       setDachiastreamAutoSendToChat(setting.dachiastreamAutoSendToChat ?? false);
+      setDachiastreamRequireApproval(setting.dachiastreamRequireApproval ?? false);
+      setDachiastreamReviewTimeoutSeconds([setting.dachiastreamReviewTimeoutSeconds ?? 120]);
+      setDachiastreamAutoApproveSeconds([setting.dachiastreamAutoApproveSeconds ?? 0]);
       setDachiastreamCycleInterval([setting.dachiastreamCycleInterval || 15]);
+      setDachiastreamAdaptiveInterval(setting.dachiastreamAdaptiveInterval ?? false);
+      setDachiastreamMinCycleInterval([setting.dachiastreamMinCycleInterval ?? 5]);
+      setDachiastreamMaxCycleInterval([setting.dachiastreamMaxCycleInterval ?? 60]);
+      setDachiastreamMaxRepliesPerCycle([setting.dachiastreamMaxRepliesPerCycle ?? 3]);
+      setDachiastreamPrioritizeSupporters(setting.dachiastreamPrioritizeSupporters ?? false);
+      setDachiastreamMentionFastPath(setting.dachiastreamMentionFastPath ?? true);
+      setDachiastreamWakeWords((setting.dachiastreamWakeWords || []).join(", "));
+      setDachiastreamMentionRepliesPerMinute([setting.dachiastreamMentionRepliesPerMinute ?? 4]);
+      setDachiastreamBannedWords((setting.dachiastreamBannedWords || []).join(", "));
+      setDachiastreamUnsafeReplyAction(setting.dachiastreamUnsafeReplyAction || "regenerate");
       
       setDachipoolEnabled(setting.dachipoolEnabled ?? true);
       setDachipoolMaxChars([setting.dachipoolMaxChars || 1000]);
@@ -125,8 +187,28 @@ export default function DachiStream() {
       useDatabasePersonalization,
       streamerVoiceOnlyMode,
       dachiastreamSelectionStrategy,
+      dachiastreamSmartWeights,
       dachiastreamAutoSendToChat,
+      dachiastreamRequireApproval,
+      dachiastreamReviewTimeoutSeconds: dachiastreamReviewTimeoutSeconds[0],
+      dachiastreamAutoApproveSeconds: dachiastreamAutoApproveSeconds[0],
       dachiastreamCycleInterval: dachiastreamCycleInterval[0],
+      dachiastreamAdaptiveInterval,
+      dachiastreamMinCycleInterval: dachiastreamMinCycleInterval[0],
+      dachiastreamMaxCycleInterval: dachiastreamMaxCycleInterval[0],
+      dachiastreamMaxRepliesPerCycle: dachiastreamMaxRepliesPerCycle[0],
+      dachiastreamPrioritizeSupporters,
+      dachiastreamMentionFastPath,
+      dachiastreamWakeWords: dachiastreamWakeWords
+        .split(",")
+        .map(word => word.trim())
+        .filter(Boolean),
+      dachiastreamMentionRepliesPerMinute: dachiastreamMentionRepliesPerMinute[0],
+      dachiastreamBannedWords: dachiastreamBannedWords
+        .split(",")
+        .map(word => word.trim())
+        .filter(Boolean),
+      dachiastreamUnsafeReplyAction,
       dachipoolEnabled,
       dachipoolMaxChars: dachipoolMaxChars[0],
       dachipoolEnergy,
@@ -181,6 +263,7 @@ export default function DachiStream() {
                 <SelectItem value="most_active">Most Active</SelectItem>
                 <SelectItem value="random">Random</SelectItem>
                 <SelectItem value="new_chatter">New Chatter</SelectItem>
+                <SelectItem value="smart">Smart (Scored)</SelectItem>
               </SelectContent>
             </Select>
             <p className="text-xs text-muted-foreground">
@@ -188,6 +271,85 @@ export default function DachiStream() {
             </p>
           </div>
 
+          {dachiastreamSelectionStrategy === "smart" && (
+            <div className="grid gap-6 md:grid-cols-2" data-testid="section-smart-weights">
+              {WEIGHT_LABELS.map(({ key, label, description }) => (
+                <div key={key} className="space-y-2">
+                  <div className="flex justify-between">
+                    <Label>{label}</Label>
+                    <span className="text-sm text-muted-foreground" data-testid={`text-weight-${key}`}>
+                      {dachiastreamSmartWeights[key]}
+                    </span>
+                  </div>
+                  <Slider
+                    value={[dachiastreamSmartWeights[key]]}
+                    onValueChange={([value]) => setDachiastreamSmartWeights(prev => ({ ...prev, [key]: value }))}
+                    min={0}
+                    max={10}
+                    step={1}
+                    data-testid={`slider-weight-${key}`}
+                  />
+                  <p className="text-xs text-muted-foreground">{description}</p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="space-y-6">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="mention-fast-path">Answer Mentions Instantly</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Reply right away when chat @-mentions the bot or uses a wake-word
+                  </p>
+                </div>
+                <Switch
+                  id="mention-fast-path"
+                  checked={dachiastreamMentionFastPath}
+                  onCheckedChange={setDachiastreamMentionFastPath}
+                  data-testid="switch-mention-fast-path"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="wake-words">Wake Words</Label>
+                <Input
+                  id="wake-words"
+                  placeholder="dachi, hey bot"
+                  value={dachiastreamWakeWords}
+                  onChange={(e) => setDachiastreamWakeWords(e.target.value)}
+                  disabled={!dachiastreamMentionFastPath}
+                  data-testid="input-wake-words"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Comma-separated names or phrases that count as talking to the bot
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label>Instant Replies per Minute</Label>
+                <span className="text-sm text-muted-foreground" data-testid="text-mention-rate-value">
+                  {dachiastreamMentionRepliesPerMinute[0]}
+                </span>
+              </div>
+              <Slider
+                value={dachiastreamMentionRepliesPerMinute}
+                onValueChange={setDachiastreamMentionRepliesPerMinute}
+                min={1}
+                max={20}
+                step={1}
+                disabled={!dachiastreamMentionFastPath}
+                data-testid="slider-mention-rate"
+              />
+              <p className="text-xs text-muted-foreground">
+                Mentions beyond this wait for the normal cycle. Each viewer gets at most one instant reply every 30 seconds.
+              </p>
+            </div>
+          </div>
+
           <div className="p-4 bg-muted rounded-md">
             <p className="text-sm text-foreground">
               StreamDachi AI operates on a configurable cycle, analyzing chat activity and selecting messages based on your chosen strategy. The AI will engage naturally while respecting cooldowns and topic filters.
@@ -263,6 +425,38 @@ export default function DachiStream() {
               </p>
             </div>
           </div>
+
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="banned-words">Banned Words</Label>
+              <Input
+                id="banned-words"
+                placeholder="word, another phrase"
+                value={dachiastreamBannedWords}
+                onChange={(e) => setDachiastreamBannedWords(e.target.value)}
+                data-testid="input-banned-words"
+              />
+              <p className="text-xs text-muted-foreground">
+                Comma-separated. Replies containing these, a blocked topic, links, mass pings or chat commands never reach chat
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="unsafe-reply-action">Unsafe Replies</Label>
+              <Select value={dachiastreamUnsafeReplyAction} onValueChange={setDachiastreamUnsafeReplyAction}>
+                <SelectTrigger id="unsafe-reply-action" data-testid="select-unsafe-reply-action">
+                  <SelectValue placeholder="Select action" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="regenerate">Regenerate Once</SelectItem>
+                  <SelectItem value="block">Block</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                What to do when a reply fails the safety filter. Reasons appear in the Monitor event log
+              </p>
+            </div>
+          </div>
         </CardContent>
       </Card>
 
@@ -300,10 +494,41 @@ export default function DachiStream() {
                   id="auto-send-chat"
                   checked={dachiastreamAutoSendToChat}
                   onCheckedChange={setDachiastreamAutoSendToChat}
+                  disabled={dachiastreamRequireApproval}
                   data-testid="switch-auto-send-chat"
                 />
               </div>
 
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="require-approval">Require Approval</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Hold replies on the Monitor page until you approve them
+                  </p>
+                </div>
+                <Switch
+                  id="require-approval"
+                  checked={dachiastreamRequireApproval}
+                  onCheckedChange={setDachiastreamRequireApproval}
+                  data-testid="switch-require-approval"
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="prioritize-supporters">Thank Supporters First</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Answer subs, gifts and cheers before regular chat
+                  </p>
+                </div>
+                <Switch
+                  id="prioritize-supporters"
+                  checked={dachiastreamPrioritizeSupporters}
+                  onCheckedChange={setDachiastreamPrioritizeSupporters}
+                  data-testid="switch-prioritize-supporters"
+                />
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="energy">Energy Level</Label>
                 <Select value={dachipoolEnergy} onValueChange={setDachipoolEnergy}>
@@ -333,26 +558,155 @@ export default function DachiStream() {
             </div>
 
             <div className="space-y-6">
-              <div className="space-y-2">
-                <div className="flex justify-between">
-                  <Label>Cycle Interval</Label>
-                  <span className="text-sm text-muted-foreground" data-testid="text-cycle-interval-value">
-                    {dachiastreamCycleInterval[0]}s
-                  </span>
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="adaptive-interval">Adaptive Cycle</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Reply faster and to more people when chat is busy, slow down when it's quiet
+                  </p>
                 </div>
-                <Slider
-                  value={dachiastreamCycleInterval}
-                  onValueChange={setDachiastreamCycleInterval}
-                  min={5}
-                  max={60}
-                  step={5}
-                  data-testid="slider-cycle-interval"
+                <Switch
+                  id="adaptive-interval"
+                  checked={dachiastreamAdaptiveInterval}
+                  onCheckedChange={setDachiastreamAdaptiveInterval}
+                  data-testid="toggle-adaptive-interval"
                 />
-                <p className="text-xs text-muted-foreground">
-                  Seconds between StreamDachi AI message collection cycles
-                </p>
               </div>
 
+              {dachiastreamAdaptiveInterval ? (
+                <>
+                  <div className="space-y-2">
+                    <div className="flex justify-between">
+                      <Label>Fastest Cycle</Label>
+                      <span className="text-sm text-muted-foreground" data-testid="text-min-cycle-interval-value">
+                        {dachiastreamMinCycleInterval[0]}s
+                      </span>
+                    </div>
+                    <Slider
+                      value={dachiastreamMinCycleInterval}
+                      onValueChange={(value) => {
+                        setDachiastreamMinCycleInterval(value);
+                        if (value[0] > dachiastreamMaxCycleInterval[0]) setDachiastreamMaxCycleInterval(value);
+                      }}
+                      min={5}
+                      max={120}
+                      step={5}
+                      data-testid="slider-min-cycle-interval"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Used when chat is at its busiest (60+ messages or 20+ chatters a minute)
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex justify-between">
+                      <Label>Slowest Cycle</Label>
+                      <span className="text-sm text-muted-foreground" data-testid="text-max-cycle-interval-value">
+                        {dachiastreamMaxCycleInterval[0]}s
+                      </span>
+                    </div>
+                    <Slider
+                      value={dachiastreamMaxCycleInterval}
+                      onValueChange={(value) => {
+                        setDachiastreamMaxCycleInterval(value);
+                        if (value[0] < dachiastreamMinCycleInterval[0]) setDachiastreamMinCycleInterval(value);
+                      }}
+                      min={5}
+                      max={120}
+                      step={5}
+                      data-testid="slider-max-cycle-interval"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Used when chat is quiet
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex justify-between">
+                      <Label>Max Replies per Cycle</Label>
+                      <span className="text-sm text-muted-foreground" data-testid="text-max-replies-value">
+                        {dachiastreamMaxRepliesPerCycle[0]}
+                      </span>
+                    </div>
+                    <Slider
+                      value={dachiastreamMaxRepliesPerCycle}
+                      onValueChange={setDachiastreamMaxRepliesPerCycle}
+                      min={1}
+                      max={5}
+                      step={1}
+                      data-testid="slider-max-replies-per-cycle"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Replies to different chatters in one cycle when chat is at its busiest
+                    </p>
+                  </div>
+                </>
+              ) : (
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <Label>Cycle Interval</Label>
+                    <span className="text-sm text-muted-foreground" data-testid="text-cycle-interval-value">
+                      {dachiastreamCycleInterval[0]}s
+                    </span>
+                  </div>
+                  <Slider
+                    value={dachiastreamCycleInterval}
+                    onValueChange={setDachiastreamCycleInterval}
+                    min={5}
+                    max={60}
+                    step={5}
+                    data-testid="slider-cycle-interval"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Seconds between StreamDachi AI message collection cycles
+                  </p>
+                </div>
+              )}
+
+              {dachiastreamRequireApproval && (
+                <>
+                  <div className="space-y-2">
+                    <div className="flex justify-between">
+                      <Label>Approval Timeout</Label>
+                      <span className="text-sm text-muted-foreground" data-testid="text-review-timeout-value">
+                        {dachiastreamReviewTimeoutSeconds[0]}s
+                      </span>
+                    </div>
+                    <Slider
+                      value={dachiastreamReviewTimeoutSeconds}
+                      onValueChange={setDachiastreamReviewTimeoutSeconds}
+                      min={10}
+                      max={600}
+                      step={10}
+                      data-testid="slider-review-timeout"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Pending replies expire unsent after this long
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex justify-between">
+                      <Label>Auto-Approve After</Label>
+                      <span className="text-sm text-muted-foreground" data-testid="text-auto-approve-value">
+                        {dachiastreamAutoApproveSeconds[0] === 0 ? "Off" : `${dachiastreamAutoApproveSeconds[0]}s`}
+                      </span>
+                    </div>
+                    <Slider
+                      value={dachiastreamAutoApproveSeconds}
+                      onValueChange={setDachiastreamAutoApproveSeconds}
+                      min={0}
+                      max={300}
+                      step={5}
+                      data-testid="slider-auto-approve"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Send automatically if nobody acts in time (must be shorter than the timeout)
+                    </p>
+                  </div>
+                </>
+              )}
+
               <div className="space-y-2">
                 <div className="flex justify-between">
                   <Label>Max Characters</Label>
@@ -9,7 +9,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { ChatMessage, AiAnalysis, Settings, ModerationAction } from "@shared/schema";
+import type { ChatMessage, AiAnalysis, ModerationAction, StreamSessionWithStats } from "@shared/schema";
 import { 
   ChatBubbleLeftRightIcon, 
   CpuChipIcon, 
@@ -51,12 +51,11 @@ export default function Dashboard() {
     queryKey: ["/api/moderation-actions"],
   });
 
-  const { data: settingsList = [] } = useQuery<Settings[]>({
-    queryKey: ["/api/settings"],
+  const { data: currentSession } = useQuery<StreamSessionWithStats | null>({
+    queryKey: ["/api/stream-sessions/current"],
+    refetchInterval: 60000,
   });
 
-  const settings = settingsList[0];
-
   const { data: twitchStatus } = useQuery<TwitchStatus>({
     queryKey: ["/api/twitch/status"],
     refetchInterval: 3000,
@@ -113,19 +112,14 @@ export default function Dashboard() {
 
   const startStreamSessionMutation = useMutation({
     mutationFn: async () => {
-      if (!settings?.id) {
-        throw new Error("Settings not loaded");
-      }
-      return await apiRequest(`/api/settings/${settings.id}`, "PATCH", {
-        streamSessionStarted: new Date().toISOString(),
-      });
+      return await apiRequest("POST", "/api/stream-sessions/start", {});
     },
     onSuccess: () => {
       toast({
         title: "Stream session started!",
-        description: "New stream session timestamp has been set",
+        description: "Sessions also start and stop automatically when you go live",
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stream-sessions/current"] });
     },
     onError: (error: any) => {
       toast({
@@ -136,22 +130,23 @@ export default function Dashboard() {
     },
   });
 
-  const streamSessionStarted = settings?.streamSessionStarted ? new Date(settings.streamSessionStarted) : null;
+  const streamSessionStarted = currentSession ? new Date(currentSession.startedAt) : null;
 
-  const todayMessages = streamSessionStarted 
-    ? messages.filter((m) => new Date(m.timestamp) >= streamSessionStarted)
+  // Messages and analyses are stamped with the session they arrived in
+  const todayMessages = currentSession
+    ? messages.filter((m) => m.streamId === currentSession.id)
     : messages;
 
-  const missedMessages = streamSessionStarted 
-    ? messages.filter((m) => new Date(m.timestamp) < streamSessionStarted)
+  const missedMessages = currentSession
+    ? messages.filter((m) => m.streamId !== currentSession.id)
     : [];
 
-  const todayAnalyses = streamSessionStarted
-    ? analyses.filter((a) => new Date(a.timestamp) >= streamSessionStarted)
+  const todayAnalyses = currentSession
+    ? analyses.filter((a) => a.streamId === currentSession.id)
     : analyses;
 
-  const missedAnalyses = streamSessionStarted
-    ? analyses.filter((a) => new Date(a.timestamp) < streamSessionStarted)
+  const missedAnalyses = currentSession
+    ? analyses.filter((a) => a.streamId !== currentSession.id)
     : [];
 
   const todayModerationActions = streamSessionStarted
@@ -496,9 +491,11 @@ export default function Dashboard() {
                     Click connect to start monitoring your chat
                   </p>
                 )}
-                {streamSessionStarted && (
-                  <p className="text-xs text-muted-foreground">
+                {currentSession && streamSessionStarted && (
+                  <p className="text-xs text-muted-foreground" data-testid="text-session-started">
                     Session started: {streamSessionStarted.toLocaleString()}
+                    {currentSession.gameName ? ` - ${currentSession.gameName}` : ""}
+                    {currentSession.peakViewers > 0 ? ` - peak ${currentSession.peakViewers} viewers` : ""}
                   </p>
                 )}
               </div>
@@ -515,7 +512,7 @@ export default function Dashboard() {
                 <Button
                   variant="outline"
                   onClick={() => startStreamSessionMutation.mutate()}
-                  disabled={startStreamSessionMutation.isPending || !settings}
+                  disabled={startStreamSessionMutation.isPending || !twitchStatus?.connected}
                   data-testid="button-start-stream-session"
                 >
                   {startStreamSessionMutation.isPending ? "Starting..." : "Start New Stream Session"}
@@ -724,9 +721,16 @@ export default function Dashboard() {
                     data-testid={`moderation-item-${action.id}`}
                   >
                     <div className="flex items-center justify-between gap-2">
-                      <Badge variant="outline" data-testid={`moderation-type-${action.id}`}>
-                        {action.actionType}
-                      </Badge>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" data-testid={`moderation-type-${action.id}`}>
+                          {action.actionType}
+                        </Badge>
+                        {action.channel && (
+                          <span className="text-xs text-muted-foreground" data-testid={`moderation-channel-${action.id}`}>
+                            #{action.channel}
+                          </span>
+                        )}
+                      </div>
                       <span className="text-xs text-muted-foreground" data-testid={`moderation-timestamp-${action.id}`}>
                         {new Date(action.timestamp).toLocaleString()}
                       </span>
@@ -741,9 +745,25 @@ export default function Dashboard() {
                       <div className="flex gap-2">
                         <span className="text-muted-foreground">Moderator:</span>
                         <span data-testid={`moderation-moderator-${action.id}`}>
-                          {action.moderatorUsername}
+                          {action.moderatorUsername || "Unknown"}
                         </span>
                       </div>
+                      {action.duration && (
+                        <div className="flex gap-2">
+                          <span className="text-muted-foreground">Duration:</span>
+                          <span data-testid={`moderation-duration-${action.id}`}>
+                            {action.duration}s
+                          </span>
+                        </div>
+                      )}
+                      {action.messageDeleted && (
+                        <div className="flex gap-2">
+                          <span className="text-muted-foreground">Message:</span>
+                          <span className="text-xs italic" data-testid={`moderation-message-${action.id}`}>
+                            "{action.messageDeleted}"
+                          </span>
+                        </div>
+                      )}
                       {action.reason && (
                         <div className="flex gap-2">
                           <span className="text-muted-foreground">Reason:</span>
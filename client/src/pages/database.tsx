@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -20,8 +20,11 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import type { UserProfile, ChatMessage, AiAnalysis } from "@shared/schema";
-import { Search, Download, Users, MessageSquare, Brain } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { UserProfile, ChatMessage, AiAnalysis, UserInsight } from "@shared/schema";
+import { Search, Download, Users, MessageSquare, Brain, RefreshCw } from "lucide-react";
 
 interface UserStats {
   profile: UserProfile;
@@ -33,6 +36,8 @@ interface UserStats {
 export default function Database() {
   const [searchQuery, setSearchQuery] = useState("");
   const [roleFilter, setRoleFilter] = useState("all");
+  const [selectedUser, setSelectedUser] = useState<UserStats | null>(null);
+  const { toast } = useToast();
 
   const { data: profiles } = useQuery<UserProfile[]>({
     queryKey: ["/api/users/profiles"],
@@ -46,6 +51,35 @@ export default function Database() {
     queryKey: ["/api/analyses"],
   });
 
+  const { data: insights } = useQuery<UserInsight[]>({
+    queryKey: ["/api/insights"],
+  });
+
+  const relearnMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const res = await apiRequest("POST", `/api/learning/users/${userId}?now=true`);
+      return await res.json() as { started: boolean };
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Profile Update Queued",
+        description: data.started
+          ? "The learning cycle has started. Refresh in a moment to see the new profile."
+          : "A learning cycle is already running; this user will be picked up next.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to queue profile update",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const insightByUser = new Map((insights || []).map(insight => [insight.userId, insight]));
+  const selectedInsight = selectedUser ? insightByUser.get(selectedUser.profile.userId) : undefined;
+
   // Calculate user stats
   const userStats: UserStats[] = (profiles || []).map(profile => {
     const userMessages = (messages || []).filter(m => m.userId === profile.userId);
@@ -216,18 +250,24 @@ export default function Database() {
                   <TableHead>Sentiment</TableHead>
                   <TableHead>Last Message</TableHead>
                   <TableHead>Last Seen</TableHead>
+                  <TableHead>Profile</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {filteredUsers.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
                       No users found
                     </TableCell>
                   </TableRow>
                 ) : (
                   filteredUsers.map(stat => (
-                    <TableRow key={stat.profile.id} data-testid={`row-user-${stat.profile.username}`}>
+                    <TableRow
+                      key={stat.profile.id}
+                      className="cursor-pointer"
+                      onClick={() => setSelectedUser(stat)}
+                      data-testid={`row-user-${stat.profile.username}`}
+                    >
                       <TableCell>
                         <div className="flex items-center gap-2">
                           <Avatar className="h-8 w-8">
@@ -264,6 +304,16 @@ export default function Database() {
                       <TableCell data-testid={`text-last-seen-${stat.profile.username}`}>
                         {new Date(stat.profile.lastSeen).toLocaleString()}
                       </TableCell>
+                      <TableCell>
+                        {insightByUser.has(stat.profile.userId) ? (
+                          <Badge variant="outline" className="gap-1">
+                            <Brain className="h-3 w-3" />
+                            Learned
+                          </Badge>
+                        ) : (
+                          <span className="text-muted-foreground text-sm">—</span>
+                        )}
+                      </TableCell>
                     </TableRow>
                   ))
                 )}
@@ -272,6 +322,76 @@ export default function Database() {
           </div>
         </CardContent>
       </Card>
+
+      {/* User Profile */}
+      <Dialog open={!!selectedUser} onOpenChange={(open) => !open && setSelectedUser(null)}>
+        <DialogContent className="max-w-lg" data-testid="dialog-user-profile">
+          <DialogHeader>
+            <DialogTitle>{selectedUser?.profile.username}</DialogTitle>
+            <DialogDescription>
+              {selectedInsight
+                ? `Learned from ${selectedInsight.totalMessages} messages · updated ${new Date(selectedInsight.lastUpdated).toLocaleString()}`
+                : "No AI profile yet"}
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedInsight ? (
+            <div className="space-y-4 text-sm">
+              <p data-testid="text-profile-summary">{selectedInsight.summary}</p>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <div className="text-xs text-muted-foreground mb-1">Tone</div>
+                  <div data-testid="text-profile-tone">{selectedInsight.tone || "—"}</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground mb-1">Language</div>
+                  <div data-testid="text-profile-language">{selectedInsight.preferredLanguage || "—"}</div>
+                </div>
+              </div>
+
+              <ProfileFacet label="Traits" items={selectedInsight.recentTags} testId="profile-tags" />
+              <ProfileFacet label="Interests" items={selectedInsight.interests} testId="profile-interests" />
+              <ProfileFacet label="Games" items={selectedInsight.games} testId="profile-games" />
+              <ProfileFacet label="Inside Jokes" items={selectedInsight.insideJokes} testId="profile-inside-jokes" />
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Profiles are built once a chatter has sent a few messages. You can queue this user now.
+            </p>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => selectedUser && relearnMutation.mutate(selectedUser.profile.userId)}
+              disabled={relearnMutation.isPending}
+              data-testid="button-relearn-profile"
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Re-learn Now
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function ProfileFacet({ label, items, testId }: { label: string; items: string[] | null; testId: string }) {
+  return (
+    <div>
+      <div className="text-xs text-muted-foreground mb-1">{label}</div>
+      {items && items.length > 0 ? (
+        <div className="flex gap-1 flex-wrap" data-testid={testId}>
+          {items.map(item => (
+            <Badge key={item} variant="secondary">{item}</Badge>
+          ))}
+        </div>
+      ) : (
+        <span className="text-muted-foreground">—</span>
+      )}
     </div>
   );
 }
@@ -8,10 +8,12 @@ import { queryClient } from "@/lib/queryClient";
 import type { ChatMessageWithAnalysis } from "@shared/schema";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
+import { ChannelSelect, ALL_CHANNELS, withChannel } from "@/components/channel-select";
 
 interface TwitchStatus {
   connected: boolean;
   channel: string | null;
+  channels?: string[];
   messageCount: number;
 }
 
@@ -26,9 +28,10 @@ export default function LiveChat() {
   const { toast } = useToast();
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const [autoScroll, setAutoScroll] = useState(true);
+  const [channel, setChannel] = useState(ALL_CHANNELS);
 
   const { data: messages = [], isLoading } = useQuery<ChatMessageWithAnalysis[]>({
-    queryKey: ["/api/messages"],
+    queryKey: [withChannel("/api/messages", channel)],
     refetchInterval: 2000,
   });
 
@@ -78,7 +81,9 @@ export default function LiveChat() {
   });
 
   const isConnected = status?.connected ?? false;
-  const channelName = status?.channel ?? null;
+  const channelName = status?.channels && status.channels.length > 1
+    ? status.channels.join(", ")
+    : status?.channel ?? null;
 
   useEffect(() => {
     if (autoScroll && scrollAreaRef.current) {
@@ -105,22 +110,25 @@ export default function LiveChat() {
               Monitor your Twitch chat in real-time
             </p>
           </div>
-          {statusLoading ? (
-            <Badge variant="outline" className="gap-2" data-testid="badge-connection-status">
-              <div className="h-2 w-2 rounded-full bg-muted-foreground animate-pulse" />
-              Checking...
-            </Badge>
-          ) : isConnected && channelName ? (
-            <Badge variant="secondary" className="gap-2" data-testid="badge-connection-status">
-              <div className="h-2 w-2 rounded-full bg-chart-2 animate-pulse" />
-              Connected to {channelName}
-            </Badge>
-          ) : (
-            <Badge variant="outline" className="gap-2" data-testid="badge-connection-status">
-              <div className="h-2 w-2 rounded-full bg-muted-foreground" />
-              Not Connected
-            </Badge>
-          )}
+          <div className="flex items-center gap-2">
+            <ChannelSelect value={channel} onChange={setChannel} />
+            {statusLoading ? (
+              <Badge variant="outline" className="gap-2" data-testid="badge-connection-status">
+                <div className="h-2 w-2 rounded-full bg-muted-foreground animate-pulse" />
+                Checking...
+              </Badge>
+            ) : isConnected && channelName ? (
+              <Badge variant="secondary" className="gap-2" data-testid="badge-connection-status">
+                <div className="h-2 w-2 rounded-full bg-chart-2 animate-pulse" />
+                Connected to {channelName}
+              </Badge>
+            ) : (
+              <Badge variant="outline" className="gap-2" data-testid="badge-connection-status">
+                <div className="h-2 w-2 rounded-full bg-muted-foreground" />
+                Not Connected
+              </Badge>
+            )}
+          </div>
         </div>
       </div>
 
@@ -1,4 +1,4 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -7,7 +7,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Activity, MessageSquare, Clock, Zap, Mic, MicOff, Volume2, VolumeX, Play, Pause, Rocket, ExternalLink, Users, Loader2, Copy } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Activity, MessageSquare, Clock, Zap, Mic, MicOff, Volume2, VolumeX, Play, Pause, Rocket, ExternalLink, Users, Loader2, Copy, Check, X, RefreshCw, FastForward, SkipForward, Trash2 } from "lucide-react";
 import { format } from "date-fns";
 import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
@@ -15,7 +16,8 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useVoiceRecognition } from "@/hooks/use-voice-recognition";
 import { useTextToSpeech } from "@/hooks/use-text-to-speech";
 import { usePuterTTS } from "@/hooks/use-puter-tts";
-import type { ChatMessage, VoiceAiResponse } from "@shared/schema";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { AiReply, ChatMessage, DachiStreamCycle, ReplyReview, SelectionWeights, VoiceAiResponse } from "@shared/schema";
 
 // Voice AI Response History Component
 function VoiceResponseHistory() {
@@ -106,26 +108,431 @@ function VoiceResponseHistory() {
   );
 }
 
+const REVIEW_STATUS_LABELS: Record<string, string> = {
+  approved: "Approved",
+  edited: "Edited",
+  rejected: "Rejected",
+  expired: "Expired",
+  auto_approved: "Auto-approved",
+};
+
+// AI replies waiting for approval, plus the latest decisions
+function ReplyReviewQueue() {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [now, setNow] = useState(Date.now());
+
+  const { data: pending = [] } = useQuery<ReplyReview[]>({
+    queryKey: ["/api/dachistream/reviews?status=pending"],
+    refetchInterval: 5000,
+  });
+
+  const { data: recent = [] } = useQuery<ReplyReview[]>({
+    queryKey: ["/api/dachistream/reviews?limit=20"],
+  });
+
+  useEffect(() => {
+    if (pending.length === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [pending.length]);
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, action, body }: { id: string; action: "approve" | "reject" | "regenerate"; body?: Record<string, string> }) => {
+      const res = await apiRequest("POST", `/api/dachistream/reviews/${id}/${action}`, body);
+      return await res.json() as ReplyReview;
+    },
+    onSuccess: (review) => {
+      setDrafts(prev => {
+        const { [review.id]: _, ...rest } = prev;
+        return rest;
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/dachistream/reviews"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Review failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const decided = recent.filter(review => review.status !== "pending").slice(0, 10);
+
+  return (
+    <Card data-testid="card-reply-reviews">
+      <CardHeader>
+        <CardTitle>Reply Approval Queue</CardTitle>
+        <CardDescription>
+          AI replies held for review when "Require Approval" is enabled in StreamDachi AI settings
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {pending.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No replies waiting for approval</div>
+        ) : (
+          pending.map(review => {
+            const draft = drafts[review.id] ?? review.reply;
+            const secondsLeft = Math.max(0, Math.ceil((new Date(review.expiresAt).getTime() - now) / 1000));
+            return (
+              <div key={review.id} className="p-3 rounded-md border space-y-2" data-testid={`review-${review.id}`}>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span>
+                    To <span className="font-semibold text-foreground">{review.addressedToUsername || "chat"}</span>
+                    {" "}in #{review.channel}
+                  </span>
+                  {review.regenerations > 0 && (
+                    <Badge variant="outline" className="text-xs">Regenerated {review.regenerations}x</Badge>
+                  )}
+                  <span className="ml-auto" data-testid={`text-review-expires-${review.id}`}>
+                    Expires in {secondsLeft}s
+                  </span>
+                </div>
+                <p className="text-sm text-muted-foreground italic">"{review.inReplyTo}"</p>
+                <Textarea
+                  value={draft}
+                  onChange={(e) => setDrafts(prev => ({ ...prev, [review.id]: e.target.value }))}
+                  className="min-h-[60px]"
+                  data-testid={`textarea-review-${review.id}`}
+                />
+                <div className="flex gap-2 flex-wrap items-center">
+                  <Button
+                    size="sm"
+                    onClick={() => reviewMutation.mutate({
+                      id: review.id,
+                      action: "approve",
+                      body: draft !== review.reply ? { reply: draft } : undefined,
+                    })}
+                    disabled={reviewMutation.isPending || !draft.trim()}
+                    data-testid={`button-approve-${review.id}`}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    {draft !== review.reply ? "Send Edited" : "Approve"}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => reviewMutation.mutate({ id: review.id, action: "regenerate" })}
+                    disabled={reviewMutation.isPending}
+                    data-testid={`button-regenerate-${review.id}`}
+                  >
+                    <RefreshCw className="h-4 w-4 mr-1" />
+                    Regenerate
+                  </Button>
+                  <Input
+                    placeholder="Reason (optional)"
+                    value={reasons[review.id] ?? ""}
+                    onChange={(e) => setReasons(prev => ({ ...prev, [review.id]: e.target.value }))}
+                    className="h-8 max-w-[220px] ml-auto"
+                    data-testid={`input-reject-reason-${review.id}`}
+                  />
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => reviewMutation.mutate({
+                      id: review.id,
+                      action: "reject",
+                      body: reasons[review.id] ? { reason: reasons[review.id] } : undefined,
+                    })}
+                    disabled={reviewMutation.isPending}
+                    data-testid={`button-reject-${review.id}`}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            );
+          })
+        )}
+
+        {decided.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-xs font-medium text-muted-foreground">Recent decisions</div>
+            {decided.map(review => (
+              <div key={review.id} className="flex items-start gap-2 text-sm" data-testid={`review-decided-${review.id}`}>
+                <Badge
+                  variant={review.status === "rejected" ? "destructive" : "secondary"}
+                  className="text-xs shrink-0"
+                >
+                  {REVIEW_STATUS_LABELS[review.status] ?? review.status}
+                </Badge>
+                <div className="min-w-0">
+                  <p className="truncate">{review.reply}</p>
+                  {review.reason && (
+                    <p className="text-xs text-muted-foreground">Reason: {review.reason}</p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const HISTORY_PAGE_SIZE = 20;
+
+interface HistoryPage<T> {
+  items: T[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+const CYCLE_STATUS_LABELS: Record<string, string> = {
+  running: "Running",
+  completed: "Completed",
+  no_selection: "No selection",
+  disabled: "Disabled",
+  error: "Error",
+};
+
+function HistoryPager({ page, onChange, testId }: { page?: HistoryPage<unknown>; onChange: (offset: number) => void; testId: string }) {
+  if (!page || page.total <= page.limit) return null;
+  const last = Math.min(page.offset + page.items.length, page.total);
+  return (
+    <div className="flex items-center justify-between text-xs text-muted-foreground pt-2" data-testid={testId}>
+      <span>
+        {page.offset + 1}-{last} of {page.total}
+      </span>
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" disabled={page.offset === 0} onClick={() => onChange(Math.max(0, page.offset - page.limit))}>
+          Newer
+        </Button>
+        <Button size="sm" variant="outline" disabled={last >= page.total} onClick={() => onChange(page.offset + page.limit)}>
+          Older
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function AiReplyRow({ reply, onOpen }: { reply: AiReply; onOpen: (reply: AiReply) => void }) {
+  return (
+    <button
+      type="button"
+      className="w-full text-left p-3 rounded-md border bg-card hover-elevate space-y-1"
+      onClick={() => onOpen(reply)}
+      data-testid={`history-reply-${reply.id}`}
+    >
+      <div className="flex items-center gap-2 flex-wrap text-xs text-muted-foreground">
+        <span>{format(new Date(reply.createdAt), "MMM d, HH:mm:ss")}</span>
+        <Badge variant="outline">{reply.source}</Badge>
+        {reply.sentToChat ? <Badge variant="default">Sent</Badge> : <Badge variant="secondary">Not sent</Badge>}
+        {reply.latencyMs !== null && <span>{reply.latencyMs} ms</span>}
+        {reply.totalTokens !== null && <span>{reply.totalTokens} tokens</span>}
+      </div>
+      <div className="text-sm">
+        <span className="text-muted-foreground">#{reply.channel} · </span>
+        {reply.inReplyTo}
+      </div>
+      <p className="text-sm text-primary">{reply.reply || "(no reply)"}</p>
+      {reply.error && <p className="text-xs text-destructive">{reply.error}</p>}
+    </button>
+  );
+}
+
+// Stored DachiStream cycles and AI replies, survives restarts
+function DachiStreamHistory() {
+  const [cycleOffset, setCycleOffset] = useState(0);
+  const [replyOffset, setReplyOffset] = useState(0);
+  const [selectedCycle, setSelectedCycle] = useState<DachiStreamCycle | null>(null);
+  const [openReply, setOpenReply] = useState<AiReply | null>(null);
+
+  const { data: cycles, isLoading: cyclesLoading } = useQuery<HistoryPage<DachiStreamCycle>>({
+    queryKey: [`/api/dachistream/cycles?limit=${HISTORY_PAGE_SIZE}&offset=${cycleOffset}`],
+  });
+
+  const { data: replies, isLoading: repliesLoading } = useQuery<HistoryPage<AiReply>>({
+    queryKey: [`/api/dachistream/replies?limit=${HISTORY_PAGE_SIZE}&offset=${replyOffset}`],
+  });
+
+  const { data: cycleReplies } = useQuery<HistoryPage<AiReply>>({
+    queryKey: [`/api/dachistream/replies?limit=10&cycleId=${selectedCycle?.id}`],
+    enabled: !!selectedCycle,
+  });
+
+  return (
+    <Card data-testid="card-dachistream-history">
+      <CardHeader>
+        <CardTitle>DachiStream History</CardTitle>
+        <CardDescription>Every processing cycle and generated reply, kept across restarts</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="replies">
+          <TabsList data-testid="tabs-dachistream-history">
+            <TabsTrigger value="replies">Replies{replies ? ` (${replies.total})` : ""}</TabsTrigger>
+            <TabsTrigger value="cycles">Cycles{cycles ? ` (${cycles.total})` : ""}</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="replies">
+            <ScrollArea className="h-[400px]">
+              {repliesLoading ? (
+                <div className="text-sm text-muted-foreground">Loading replies...</div>
+              ) : !replies || replies.items.length === 0 ? (
+                <div className="text-sm text-muted-foreground">No AI replies stored yet</div>
+              ) : (
+                <div className="space-y-2">
+                  {replies.items.map(reply => (
+                    <AiReplyRow key={reply.id} reply={reply} onOpen={setOpenReply} />
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+            <HistoryPager page={replies} onChange={setReplyOffset} testId="pager-history-replies" />
+          </TabsContent>
+
+          <TabsContent value="cycles">
+            <ScrollArea className="h-[400px]">
+              {cyclesLoading ? (
+                <div className="text-sm text-muted-foreground">Loading cycles...</div>
+              ) : !cycles || cycles.items.length === 0 ? (
+                <div className="text-sm text-muted-foreground">No cycles stored yet</div>
+              ) : (
+                <div className="space-y-2">
+                  {cycles.items.map(cycle => (
+                    <button
+                      key={cycle.id}
+                      type="button"
+                      className="w-full text-left p-3 rounded-md border bg-card hover-elevate"
+                      onClick={() => setSelectedCycle(cycle)}
+                      data-testid={`history-cycle-${cycle.id}`}
+                    >
+                      <div className="flex items-center gap-2 flex-wrap text-xs">
+                        <span className="text-muted-foreground">{format(new Date(cycle.startedAt), "MMM d, HH:mm:ss")}</span>
+                        <span className="font-semibold">#{cycle.channel}</span>
+                        <Badge variant={cycle.status === "error" ? "destructive" : "outline"}>
+                          {CYCLE_STATUS_LABELS[cycle.status] || cycle.status}
+                        </Badge>
+                        {cycle.trigger === "manual" && <Badge variant="secondary">Manual</Badge>}
+                      </div>
+                      <div className="text-sm text-muted-foreground mt-1">
+                        {cycle.strategy} · {cycle.bufferSize} messages from {cycle.uniqueChatters} chatters · {cycle.replyCount}{" "}
+                        {cycle.replyCount === 1 ? "reply" : "replies"}
+                        {cycle.finishedAt && ` · ${new Date(cycle.finishedAt).getTime() - new Date(cycle.startedAt).getTime()} ms`}
+                      </div>
+                      {cycle.error && <p className="text-xs text-destructive mt-1">{cycle.error}</p>}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+            <HistoryPager page={cycles} onChange={setCycleOffset} testId="pager-history-cycles" />
+          </TabsContent>
+        </Tabs>
+
+        <Dialog open={!!selectedCycle} onOpenChange={(open) => !open && setSelectedCycle(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>
+                Cycle {selectedCycle && format(new Date(selectedCycle.startedAt), "MMM d, HH:mm:ss")}
+              </DialogTitle>
+            </DialogHeader>
+            <div className="space-y-2">
+              {cycleReplies?.items.length ? (
+                cycleReplies.items.map(reply => (
+                  <AiReplyRow key={reply.id} reply={reply} onOpen={setOpenReply} />
+                ))
+              ) : (
+                <div className="text-sm text-muted-foreground">No replies generated in this cycle</div>
+              )}
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!openReply} onOpenChange={(open) => !open && setOpenReply(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>AI Reply</DialogTitle>
+            </DialogHeader>
+            {openReply && (
+              <div className="space-y-3 text-sm">
+                <div className="flex gap-2 flex-wrap text-xs text-muted-foreground">
+                  <span>{openReply.model || "unknown model"}</span>
+                  {openReply.temperature !== null && <span>temp {openReply.temperature}</span>}
+                  {openReply.promptTokens !== null && (
+                    <span>
+                      {openReply.promptTokens} prompt + {openReply.completionTokens} completion tokens
+                    </span>
+                  )}
+                </div>
+                <div>
+                  <Label className="text-xs text-muted-foreground">In reply to</Label>
+                  <p>{openReply.inReplyTo}</p>
+                </div>
+                <div>
+                  <Label className="text-xs text-muted-foreground">Reply</Label>
+                  <p className="text-primary">{openReply.reply || "(no reply)"}</p>
+                  {openReply.error && <p className="text-xs text-destructive">{openReply.error}</p>}
+                </div>
+                <div>
+                  <Label className="text-xs text-muted-foreground">Context</Label>
+                  <ScrollArea className="h-[240px] rounded border p-2">
+                    <pre className="text-xs whitespace-pre-wrap">{openReply.context || "(none)"}</pre>
+                  </ScrollArea>
+                </div>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
+
 type DachiStreamStatus = "idle" | "collecting" | "processing" | "selecting_message" | "building_context" | "waiting_for_ai" | "disabled" | "paused";
 
 interface DachiStreamLog {
   timestamp: Date;
-  type: "info" | "status" | "message" | "selection" | "ai_response" | "error";
+  type: "info" | "status" | "message" | "selection" | "ai_response" | "safety" | "error";
   message: string;
   data?: any;
 }
 
 interface DachiStreamState {
   status: DachiStreamStatus;
+  paused: boolean;
   bufferCount: number;
   lastCycleTime: Date | null;
   nextCycleTime: Date | null;
   secondsUntilNextCycle: number;
+  cycleIntervalSeconds: number;
+  adaptive: boolean;
+  velocity: {
+    messagesPerMinute: number;
+    uniqueChatters: number;
+    load: number;
+  };
+  repliesPerCycle: number;
   selectedMessage: ChatMessage | null;
   aiResponse: string | null;
   error: string | null;
 }
 
+// Buffered message with the smart selection strategy's score breakdown
+type ScoredBufferMessage = ChatMessage & {
+  score?: {
+    total: number;
+    factors: SelectionWeights;
+    weights: SelectionWeights;
+  };
+};
+
+const SCORE_FACTOR_LABELS: Record<keyof SelectionWeights, string> = {
+  question: "Question",
+  mention: "Mention",
+  sentiment: "Sentiment",
+  role: "Role",
+  lastAnswered: "Unanswered",
+  novelty: "Novelty",
+};
+
 interface VIPStream {
   id: string;
   user_id: string;
@@ -169,6 +576,7 @@ const logTypeColors: Record<DachiStreamLog["type"], string> = {
   message: "bg-green-500/10 text-green-400 border-green-500/20",
   selection: "bg-yellow-500/10 text-yellow-400 border-yellow-500/20",
   ai_response: "bg-pink-500/10 text-pink-400 border-pink-500/20",
+  safety: "bg-orange-500/10 text-orange-400 border-orange-500/20",
   error: "bg-red-500/10 text-red-400 border-red-500/20",
 };
 
@@ -176,7 +584,6 @@ export default function Monitor() {
   const { toast } = useToast();
   const [selectedStream, setSelectedStream] = useState<VIPStream | null>(null);
   const [streamMuted, setStreamMuted] = useState(true);
-  const [dachipoolPaused, setDachipoolPaused] = useState(false);
   const [aiVoiceEnabled, setAiVoiceEnabled] = useState(false); // Separate toggle for AI voice TTS (Puter)
   const [vipShoutoutAudioEnabled, setVipShoutoutAudioEnabled] = useState(false); // For VIP shoutouts only (Web Speech API)
 
@@ -257,12 +664,70 @@ export default function Monitor() {
     return () => window.removeEventListener("vip_shoutout", handleShoutout);
   }, [settings, tts, toast]);
 
+  // Subs, gifts, cheers and follows as they happen
+  useEffect(() => {
+    const handleSupportEvent = (event: Event) => {
+      const { eventType, message } = (event as CustomEvent<{ eventType: string; message: string }>).detail;
+      toast({
+        title: eventType === "follow" ? "New follower!" : "Channel support!",
+        description: message,
+        duration: 5000,
+      });
+    };
+
+    window.addEventListener("support_event", handleSupportEvent);
+    return () => window.removeEventListener("support_event", handleSupportEvent);
+  }, [toast]);
+
+  // State, logs and buffer changes are pushed over the WebSocket
+  const { data: state, isLoading: stateLoading } = useQuery<DachiStreamState>({
+    queryKey: ["/api/dachistream/status"],
+  });
+
+  // The countdown ticks locally between pushes
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (!state?.nextCycleTime) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [state?.nextCycleTime]);
+
+  const secondsUntilNextCycle = state?.nextCycleTime
+    ? Math.max(0, Math.ceil((new Date(state.nextCycleTime).getTime() - now) / 1000))
+    : null;
+
+  const dachipoolPaused = state?.paused ?? false;
+
+  const controlMutation = useMutation({
+    mutationFn: async (action: "pause" | "resume" | "trigger" | "skip" | "flush") => {
+      const res = await apiRequest("POST", `/api/dachistream/${action}`);
+      return { action, result: await res.json() };
+    },
+    onSuccess: ({ action, result }) => {
+      if (action === "skip") {
+        toast({ title: "Reply skipped", description: `${result.skipped.username} won't get this reply` });
+      } else if (action === "flush") {
+        toast({ title: "Buffer flushed", description: `${result.dropped} messages dropped` });
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/dachistream/status"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dachistream/buffer"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dachistream/logs"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "DachiStream control failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Auto-pause DachiPool when speaking
   useEffect(() => {
-    if (isListening && !dachipoolPaused) {
-      setDachipoolPaused(true);
+    if (isListening && state && !state.paused && !controlMutation.isPending) {
+      controlMutation.mutate("pause");
     }
-  }, [isListening, dachipoolPaused]);
+  }, [isListening, state?.paused]);
 
   const toggleMic = () => {
     if (isListening) {
@@ -273,19 +738,12 @@ export default function Monitor() {
     }
   };
 
-  const { data: state, isLoading: stateLoading } = useQuery<DachiStreamState>({
-    queryKey: ["/api/dachistream/status"],
-    refetchInterval: 1000,
-  });
-
   const { data: logs = [], isLoading: logsLoading } = useQuery<DachiStreamLog[]>({
     queryKey: ["/api/dachistream/logs"],
-    refetchInterval: 2000,
   });
 
-  const { data: buffer = [], isLoading: bufferLoading } = useQuery<ChatMessage[]>({
+  const { data: buffer = [], isLoading: bufferLoading } = useQuery<ScoredBufferMessage[]>({
     queryKey: ["/api/dachistream/buffer"],
-    refetchInterval: 1000,
   });
 
   const { data: vipStreams = [], isLoading: vipStreamsLoading } = useQuery<VIPStream[]>({
@@ -364,7 +822,8 @@ export default function Monitor() {
                   <Switch
                     id="dachipool-pause"
                     checked={dachipoolPaused}
-                    onCheckedChange={setDachipoolPaused}
+                    onCheckedChange={(paused) => controlMutation.mutate(paused ? "pause" : "resume")}
+                    disabled={!state || controlMutation.isPending}
                     data-testid="toggle-dachipool"
                   />
                   <Label htmlFor="dachipool-pause" className="flex items-center gap-2 cursor-pointer">
@@ -372,6 +831,39 @@ export default function Monitor() {
                     <span>StreamDachi AI {dachipoolPaused ? "Paused" : "Active"}</span>
                   </Label>
                 </div>
+
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => controlMutation.mutate("trigger")}
+                    disabled={dachipoolPaused || controlMutation.isPending}
+                    data-testid="button-trigger-cycle"
+                  >
+                    <FastForward className="h-4 w-4 mr-2" />
+                    Run Cycle Now
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => controlMutation.mutate("skip")}
+                    disabled={!state || !["building_context", "waiting_for_ai"].includes(state.status) || controlMutation.isPending}
+                    data-testid="button-skip-current"
+                  >
+                    <SkipForward className="h-4 w-4 mr-2" />
+                    Skip Reply
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => controlMutation.mutate("flush")}
+                    disabled={controlMutation.isPending}
+                    data-testid="button-flush-buffer"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Flush Buffer
+                  </Button>
+                </div>
               </div>
 
               <div className="flex flex-wrap gap-4 pt-2 border-t">
@@ -716,10 +1208,41 @@ export default function Monitor() {
                     <div>
                       <div className="text-xs text-muted-foreground">Next cycle in</div>
                       <div className="text-xl font-bold text-primary" data-testid="text-countdown">
-                        {state.secondsUntilNextCycle} seconds
+                        {secondsUntilNextCycle !== null ? `${secondsUntilNextCycle} seconds` : "Running now"}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        Every {state.cycleIntervalSeconds}s{state.adaptive ? " (adaptive)" : ""}
                       </div>
                     </div>
                   </div>
+                  <div className="flex flex-wrap gap-2 text-xs" data-testid="text-chat-velocity">
+                    <Badge variant="outline">{state.velocity.messagesPerMinute} msg/min</Badge>
+                    <Badge variant="outline">{state.velocity.uniqueChatters} chatters</Badge>
+                    {state.adaptive && (
+                      <>
+                        <Badge variant="outline">Load {Math.round(state.velocity.load * 100)}%</Badge>
+                        <Badge variant="outline">
+                          {state.repliesPerCycle} {state.repliesPerCycle === 1 ? "reply" : "replies"}/cycle
+                        </Badge>
+                      </>
+                    )}
+                  </div>
+                  {state.selectedMessage && (
+                    <div className="text-sm space-y-1" data-testid="text-selected-message">
+                      <div className="text-xs text-muted-foreground">Last selected</div>
+                      <div>
+                        <span className="font-semibold">{state.selectedMessage.username}:</span> {state.selectedMessage.message}
+                      </div>
+                      {state.aiResponse && (
+                        <div className="text-primary" data-testid="text-last-reply">→ {state.aiResponse}</div>
+                      )}
+                    </div>
+                  )}
+                  {state.error && (
+                    <div className="text-sm text-destructive" data-testid="text-last-error">
+                      {state.error}
+                    </div>
+                  )}
                   <div className="text-sm text-muted-foreground space-y-1">
                     {state.lastCycleTime && (
                       <div>Last cycle: {format(new Date(state.lastCycleTime), "HH:mm:ss")}</div>
@@ -749,11 +1272,11 @@ export default function Monitor() {
                     {buffer.length} messages
                   </div>
                   <div className="text-sm text-muted-foreground">
-                    {state?.secondsUntilNextCycle !== undefined && (
+                    {secondsUntilNextCycle !== null && (
                       <div className="flex items-center gap-1">
                         <Clock className="h-3 w-3" />
                         <span data-testid="text-countdown">
-                          {state.secondsUntilNextCycle}s until next cycle
+                          {secondsUntilNextCycle}s until next cycle
                         </span>
                       </div>
                     )}
@@ -781,6 +1304,8 @@ export default function Monitor() {
           </Card>
         </div>
 
+        <ReplyReviewQueue />
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           <Card data-testid="card-current-buffer">
             <CardHeader>
@@ -806,8 +1331,26 @@ export default function Monitor() {
                           <span className="text-xs text-muted-foreground">
                             {format(new Date(msg.timestamp), "HH:mm:ss")}
                           </span>
+                          {msg.score && (
+                            <Badge variant="outline" className="ml-auto text-xs" data-testid={`buffer-score-${idx}`}>
+                              {Math.round(msg.score.total * 100)}
+                            </Badge>
+                          )}
                         </div>
                         <p className="text-sm">{msg.message}</p>
+                        {msg.score && (
+                          <div className="flex gap-1 flex-wrap mt-2" data-testid={`buffer-score-breakdown-${idx}`}>
+                            {Object.entries(msg.score.factors).map(([factor, value]) => (
+                              <span
+                                key={factor}
+                                className="text-[10px] px-1.5 py-0.5 rounded bg-muted text-muted-foreground"
+                                title={`weight ${msg.score!.weights[factor as keyof SelectionWeights]}`}
+                              >
+                                {SCORE_FACTOR_LABELS[factor as keyof SelectionWeights]} {Math.round(value * 100)}
+                              </span>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -858,44 +1401,7 @@ export default function Monitor() {
           </Card>
         </div>
 
-        <Card data-testid="card-ai-responses-list">
-          <CardHeader>
-            <CardTitle>AI Response History</CardTitle>
-            <CardDescription>All AI-generated responses</CardDescription>
-          </CardHeader>
-          <CardContent>
-            <ScrollArea className="h-[400px]">
-              {aiResponseLogs.length === 0 ? (
-                <div className="text-sm text-muted-foreground">No AI responses yet</div>
-              ) : (
-                <div className="space-y-4">
-                  {[...aiResponseLogs].reverse().map((log, idx) => (
-                    <div
-                      key={idx}
-                      className="p-4 rounded-md bg-card border hover-elevate"
-                      data-testid={`ai-response-${idx}`}
-                    >
-                      <div className="flex items-center gap-2 mb-2">
-                        <Clock className="h-4 w-4 text-muted-foreground" />
-                        <span className="text-sm text-muted-foreground">
-                          {format(new Date(log.timestamp), "PPpp")}
-                        </span>
-                      </div>
-                      <p className="text-sm whitespace-pre-wrap">
-                        {log.data?.fullResponse || log.message}
-                      </p>
-                      {log.data?.length && (
-                        <div className="mt-2 text-xs text-muted-foreground">
-                          Length: {log.data.length} characters
-                        </div>
-                      )}
-                    </div>
-                  ))}
-                </div>
-              )}
-            </ScrollArea>
-          </CardContent>
-        </Card>
+        <DachiStreamHistory />
       </div>
     </div>
   );
@@ -7,11 +7,19 @@ import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { Settings, InsertSettings, AuthenticatedUser } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
-import { LogOut } from "lucide-react";
+import { LogOut, PlusIcon, TrashIcon } from "lucide-react";
+
+interface TwitchChannel {
+  channel: string;
+  primary: boolean;
+  joined: boolean;
+  settingsId: string | null;
+}
 
 export default function SettingsPage() {
   const { toast } = useToast();
@@ -19,7 +27,12 @@ export default function SettingsPage() {
   const [twitchUsername, setTwitchUsername] = useState("");
   const [autoModeration, setAutoModeration] = useState(false);
   const [sentimentThreshold, setSentimentThreshold] = useState([3]);
+  const [autoModerationDryRun, setAutoModerationDryRun] = useState(true);
+  const [autoModerationExemptSubscribers, setAutoModerationExemptSubscribers] = useState(true);
   const [enableAiAnalysis, setEnableAiAnalysis] = useState(true);
+  const [analysisBatchSize, setAnalysisBatchSize] = useState([10]);
+  const [analysisTokensPerMinute, setAnalysisTokensPerMinute] = useState([6000]);
+  const [analysisEngine, setAnalysisEngine] = useState("auto");
   
   const [audioMicMode, setAudioMicMode] = useState("muted");
   const [audioVoiceSelection, setAudioVoiceSelection] = useState("Default");
@@ -28,6 +41,7 @@ export default function SettingsPage() {
   const [audioFallbackToTextOnly, setAudioFallbackToTextOnly] = useState(true);
   const [audioCooldownBetweenReplies, setAudioCooldownBetweenReplies] = useState([5]);
   const [audioMaxVoiceLength, setAudioMaxVoiceLength] = useState([500]);
+  const [newChannel, setNewChannel] = useState("");
 
   const { data: settings } = useQuery<Settings[]>({
     queryKey: ["/api/settings"],
@@ -38,6 +52,38 @@ export default function SettingsPage() {
     retry: false,
   });
 
+  const { data: channels = [] } = useQuery<TwitchChannel[]>({
+    queryKey: ["/api/twitch/channels"],
+  });
+
+  const addChannelMutation = useMutation({
+    mutationFn: (channel: string) => apiRequest("POST", "/api/twitch/channels", { channel }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/twitch/channels"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      setNewChannel("");
+      toast({
+        title: "Channel added",
+        description: "StreamDachi will join and reply in this channel too.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to add channel. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeChannelMutation = useMutation({
+    mutationFn: (channel: string) => apiRequest("DELETE", `/api/twitch/channels/${channel}`, undefined),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/twitch/channels"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+    },
+  });
+
   const logoutMutation = useMutation({
     mutationFn: () => apiRequest("POST", "/api/auth/logout", {}),
     onSuccess: () => {
@@ -63,7 +109,12 @@ export default function SettingsPage() {
       setTwitchUsername(setting.twitchUsername || "");
       setAutoModeration(setting.autoModeration);
       setSentimentThreshold([setting.sentimentThreshold]);
+      setAutoModerationDryRun(setting.autoModerationDryRun ?? true);
+      setAutoModerationExemptSubscribers(setting.autoModerationExemptSubscribers ?? true);
       setEnableAiAnalysis(setting.enableAiAnalysis);
+      setAnalysisBatchSize([setting.analysisBatchSize || 10]);
+      setAnalysisTokensPerMinute([setting.analysisTokensPerMinute || 6000]);
+      setAnalysisEngine(setting.analysisEngine || "auto");
       
       setAudioMicMode(setting.audioMicMode || "muted");
       setAudioVoiceSelection(setting.audioVoiceSelection || "Default");
@@ -102,7 +153,12 @@ export default function SettingsPage() {
       twitchUsername,
       autoModeration,
       sentimentThreshold: sentimentThreshold[0],
+      autoModerationDryRun,
+      autoModerationExemptSubscribers,
       enableAiAnalysis,
+      analysisBatchSize: analysisBatchSize[0],
+      analysisTokensPerMinute: analysisTokensPerMinute[0],
+      analysisEngine,
       audioMicMode,
       audioVoiceSelection,
       audioAiVoiceActive,
@@ -240,11 +296,71 @@ export default function SettingsPage() {
               />
             </div>
 
+            {enableAiAnalysis && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="analysis-engine">Analysis Engine</Label>
+                  <Select value={analysisEngine} onValueChange={setAnalysisEngine}>
+                    <SelectTrigger id="analysis-engine" data-testid="select-analysis-engine">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">AI with local fallback</SelectItem>
+                      <SelectItem value="local">Local only (no AI requests)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    The local analyzer understands common Twitch emotes and runs whenever the AI is unavailable
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <Label>Analysis Batch Size</Label>
+                    <span className="text-sm text-muted-foreground" data-testid="text-analysis-batch-size-value">
+                      {analysisBatchSize[0]} messages
+                    </span>
+                  </div>
+                  <Slider
+                    value={analysisBatchSize}
+                    onValueChange={setAnalysisBatchSize}
+                    min={1}
+                    max={25}
+                    step={1}
+                    data-testid="slider-analysis-batch-size"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Messages analyzed together in one AI request
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between">
+                    <Label>Analysis Token Budget</Label>
+                    <span className="text-sm text-muted-foreground" data-testid="text-analysis-tpm-value">
+                      {analysisTokensPerMinute[0].toLocaleString()} / min
+                    </span>
+                  </div>
+                  <Slider
+                    value={analysisTokensPerMinute}
+                    onValueChange={setAnalysisTokensPerMinute}
+                    min={1000}
+                    max={30000}
+                    step={500}
+                    data-testid="slider-analysis-tpm"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Busy chats are sampled instead of exceeding this budget
+                  </p>
+                </div>
+              </>
+            )}
+
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
                 <Label htmlFor="auto-mod">Auto Moderation</Label>
                 <p className="text-xs text-muted-foreground">
-                  Automatically flag toxic messages
+                  Warn, delete or time out toxic messages
                 </p>
               </div>
               <Switch
@@ -255,6 +371,40 @@ export default function SettingsPage() {
               />
             </div>
 
+            {autoModeration && (
+              <>
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="auto-mod-dry-run">Dry Run</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Only log what AutoMod would do
+                    </p>
+                  </div>
+                  <Switch
+                    id="auto-mod-dry-run"
+                    checked={autoModerationDryRun}
+                    onCheckedChange={setAutoModerationDryRun}
+                    data-testid="switch-auto-moderation-dry-run"
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="auto-mod-exempt-subs">Exempt Subscribers</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Mods and VIPs are always exempt
+                    </p>
+                  </div>
+                  <Switch
+                    id="auto-mod-exempt-subs"
+                    checked={autoModerationExemptSubscribers}
+                    onCheckedChange={setAutoModerationExemptSubscribers}
+                    data-testid="switch-auto-moderation-exempt-subs"
+                  />
+                </div>
+              </>
+            )}
+
             <div className="space-y-2">
               <div className="flex justify-between">
                 <Label>Sentiment Threshold</Label>
@@ -271,7 +421,7 @@ export default function SettingsPage() {
                 data-testid="slider-sentiment-threshold"
               />
               <p className="text-xs text-muted-foreground">
-                Minimum sentiment score for positive classification
+                Negative messages scoring at or below this are moderated
               </p>
             </div>
           </CardContent>
@@ -405,6 +555,64 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
+      <Card data-testid="card-channels">
+        <CardHeader>
+          <CardTitle className="text-lg font-semibold">Channels</CardTitle>
+          <CardDescription>
+            Join extra channels - each one gets its own copy of these settings
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            {channels.length === 0 && (
+              <p className="text-sm text-muted-foreground">Not connected to any channel</p>
+            )}
+            {channels.map((channel) => (
+              <div
+                key={channel.channel}
+                className="flex items-center justify-between gap-2 p-2 rounded-md bg-muted/50"
+                data-testid={`row-channel-${channel.channel}`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-foreground">#{channel.channel}</span>
+                  {channel.primary && <Badge variant="secondary">Primary</Badge>}
+                  <Badge variant={channel.joined ? "default" : "outline"}>
+                    {channel.joined ? "Joined" : "Not joined"}
+                  </Badge>
+                </div>
+                {!channel.primary && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => removeChannelMutation.mutate(channel.channel)}
+                    disabled={removeChannelMutation.isPending}
+                    data-testid={`button-remove-channel-${channel.channel}`}
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Input
+              value={newChannel}
+              onChange={(e) => setNewChannel(e.target.value)}
+              placeholder="channelname"
+              data-testid="input-new-channel"
+            />
+            <Button
+              onClick={() => newChannel.trim() && addChannelMutation.mutate(newChannel.trim())}
+              disabled={addChannelMutation.isPending || !newChannel.trim()}
+              data-testid="button-add-channel"
+            >
+              <PlusIcon className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
       <Card data-testid="card-connection-status">
         <CardHeader>
           <CardTitle className="text-lg font-semibold">Connection Status</CardTitle>
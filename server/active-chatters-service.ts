@@ -1,9 +1,10 @@
-import type { ChatMessage, UserProfile } from "@shared/schema";
+import { normalizeChannel, type ChatMessage, type UserProfile } from "@shared/schema";
 
 interface ActiveChatter {
   username: string;
   displayName: string;
   userId: string;
+  channel: string;
   lastMessageTime: Date;
   messageCount: number;
   isVip: boolean;
@@ -15,8 +16,14 @@ export class ActiveChattersService {
   private chatters: Map<string, ActiveChatter> = new Map();
   private readonly ACTIVE_WINDOW_MS = 30 * 60 * 1000; // 30 minutes
 
+  // The same viewer can be active in several joined channels at once
+  private key(channel: string, username: string) {
+    return `${normalizeChannel(channel)}:${username.toLowerCase()}`;
+  }
+
   addMessage(message: ChatMessage, userProfile?: UserProfile) {
-    const existing = this.chatters.get(message.username.toLowerCase());
+    const key = this.key(message.channel, message.username);
+    const existing = this.chatters.get(key);
     
     if (existing) {
       existing.lastMessageTime = new Date();
@@ -27,10 +34,11 @@ export class ActiveChattersService {
         existing.isSubscriber = userProfile.isSubscriber;
       }
     } else {
-      this.chatters.set(message.username.toLowerCase(), {
+      this.chatters.set(key, {
         username: message.username,
         displayName: message.username,
         userId: message.userId || "",
+        channel: normalizeChannel(message.channel),
         lastMessageTime: new Date(),
         messageCount: 1,
         isVip: userProfile?.isVip || false,
@@ -40,17 +48,17 @@ export class ActiveChattersService {
     }
   }
 
-  getActiveChatters(): ActiveChatter[] {
+  getActiveChatters(channel?: string): ActiveChatter[] {
     this.cleanupInactive();
-    return Array.from(this.chatters.values())
+    return this.inChannel(channel)
       .sort((a, b) => b.lastMessageTime.getTime() - a.lastMessageTime.getTime());
   }
 
-  searchChatters(query: string): ActiveChatter[] {
+  searchChatters(query: string, channel?: string): ActiveChatter[] {
     this.cleanupInactive();
     const lowerQuery = query.toLowerCase();
     
-    return Array.from(this.chatters.values())
+    return this.inChannel(channel)
       .filter(chatter => 
         chatter.username.toLowerCase().includes(lowerQuery) ||
         chatter.displayName.toLowerCase().includes(lowerQuery)
@@ -59,6 +67,14 @@ export class ActiveChattersService {
       .slice(0, 10);
   }
 
+  private inChannel(channel?: string): ActiveChatter[] {
+    const chatters = Array.from(this.chatters.values());
+    if (!channel) return chatters;
+
+    const name = normalizeChannel(channel);
+    return chatters.filter(chatter => chatter.channel === name);
+  }
+
   private cleanupInactive() {
     const now = Date.now();
     const toRemove: string[] = [];
@@ -76,8 +92,8 @@ export class ActiveChattersService {
     this.chatters.clear();
   }
 
-  getCount(): number {
+  getCount(channel?: string): number {
     this.cleanupInactive();
-    return this.chatters.size;
+    return this.inChannel(channel).length;
   }
 }
@@ -1,86 +1,280 @@
-import { storage } from "./storage";
-import { generateAiResponse } from "./groq-service";
+import type { IStorage } from "./storage";
+import type { ActiveChattersService } from "./active-chatters-service";
+import type { UserInsight, UserMessageStats } from "@shared/schema";
+import { learnUserProfile } from "./groq-service";
 
-let learningInterval: NodeJS.Timeout | null = null;
+export interface LearningJob {
+  userId: string;
+  username: string;
+  newMessages: number; // Since the insight was last updated (all messages for new users)
+  totalMessages: number; // Lifetime
+  active: boolean; // Chatting right now in a joined channel
+  forced: boolean; // Requested through the API, skips the new-message threshold
+  queuedAt: Date;
+}
+
+export interface LearningCycleSummary {
+  startedAt: Date;
+  finishedAt: Date | null;
+  queued: number;
+  processed: number;
+  failed: number;
+}
+
+export interface LearningStatus {
+  running: boolean;
+  intervalMinutes: number;
+  nextCycleAt: Date | null;
+  currentUser: string | null;
+  currentCycle: LearningCycleSummary | null;
+  lastCycle: LearningCycleSummary | null;
+  totals: { processed: number; failed: number };
+  queue: LearningJob[];
+}
+
+// A first summary needs a few messages to say anything useful
+const MIN_MESSAGES_FOR_INSIGHT = 5;
+// Known users are only re-summarized once enough new material has piled up
+const MIN_NEW_MESSAGES = 5;
+// LLM calls per cycle, and the pause between them, keep each cycle cheap
+const MAX_JOBS_PER_CYCLE = 25;
+const JOB_SPACING_MS = 2000;
+const MESSAGES_PER_PROMPT = 20;
+
+/**
+ * Keeps user insights current without re-summarizing everyone: each cycle
+ * queues only users with new messages since their insight was last updated,
+ * active chatters first, and works through a capped number of LLM calls.
+ */
+export class AiLearningScheduler {
+  private storage: IStorage;
+  private activeChatters: ActiveChattersService;
+  private timer: NodeJS.Timeout | null = null;
+  private intervalMinutes = 10;
+  private nextCycleAt: Date | null = null;
+  private queue: LearningJob[] = [];
+  private forcedUserIds: Set<string> = new Set();
+  private running = false;
+  private stopped = true;
+  private currentUser: string | null = null;
+  private currentCycle: LearningCycleSummary | null = null;
+  private lastCycle: LearningCycleSummary | null = null;
+  private totals = { processed: 0, failed: 0 };
+
+  constructor(storage: IStorage, activeChatters: ActiveChattersService) {
+    this.storage = storage;
+    this.activeChatters = activeChatters;
+  }
+
+  async start(intervalMinutes: number = 10) {
+    this.stop();
+    this.stopped = false;
+    this.intervalMinutes = intervalMinutes;
+    console.log(`AI learning scheduler started (every ${intervalMinutes} minutes)`);
+
+    await this.runCycle();
+  }
 
-export async function startAiLearning(intervalMinutes: number = 10) {
-  if (learningInterval) {
-    clearInterval(learningInterval);
+  stop() {
+    this.stopped = true;
+    this.clearTimer();
+    this.nextCycleAt = null;
   }
 
-  const runLearning = async () => {
+  /**
+   * Start a cycle now unless one is already running. Returns false if busy.
+   */
+  triggerCycle(): boolean {
+    if (this.running) return false;
+    this.clearTimer();
+    this.runCycle().catch(error => console.error("Error in AI learning cycle:", error));
+    return true;
+  }
+
+  /**
+   * Re-summarize a user on the next cycle regardless of how much they wrote.
+   */
+  requestUser(userId: string) {
+    this.forcedUserIds.add(userId);
+  }
+
+  getStatus(): LearningStatus {
+    return {
+      running: this.running,
+      intervalMinutes: this.intervalMinutes,
+      nextCycleAt: this.nextCycleAt,
+      currentUser: this.currentUser,
+      currentCycle: this.currentCycle,
+      lastCycle: this.lastCycle,
+      totals: { ...this.totals },
+      queue: [...this.queue],
+    };
+  }
+
+  private async runCycle() {
+    if (this.running) return;
+    this.running = true;
+
+    const cycle: LearningCycleSummary = {
+      startedAt: new Date(),
+      finishedAt: null,
+      queued: 0,
+      processed: 0,
+      failed: 0,
+    };
+    this.currentCycle = cycle;
+
     try {
-      const users = await storage.getAllUserProfiles();
-      
-      for (const user of users) {
-        const messages = await storage.getMessagesByUser(user.userId, 50);
-        
-        if (messages.length >= 5) {
-          const recentMessages = messages.slice(0, 20).map(m => m.message).join("\n");
-          
-          const prompt = `Analyze the following chat messages from @${user.username} and provide a 1-2 sentence personality summary that captures their tone, behavior, and chat style for in-stream personalization. Be concise and insightful.
-
-Messages:
-${recentMessages}
-
-Provide ONLY the summary, no additional text.`;
-
-          try {
-            const summary = await generateAiResponse(prompt, "");
-            
-            const insight = await storage.getUserInsight(user.userId);
-            const tags = extractTags(summary);
-            
-            await storage.saveUserInsight({
-              userId: user.userId,
-              summary: summary.trim(),
-              totalMessages: messages.length,
-              recentTags: tags,
-            });
-            
-            console.log(`Updated AI insight for user ${user.username}`);
-          } catch (error) {
-            console.error(`Failed to generate insight for ${user.username}:`, error);
-          }
+      this.queue = await this.buildQueue();
+      cycle.queued = this.queue.length;
+
+      let budget = MAX_JOBS_PER_CYCLE;
+      while (this.queue.length > 0 && budget > 0 && !this.stopped) {
+        const job = this.queue.shift()!;
+        budget--;
+
+        this.currentUser = job.username;
+        if (await this.processJob(job)) {
+          cycle.processed++;
+          this.totals.processed++;
+        } else {
+          cycle.failed++;
+          this.totals.failed++;
+        }
+
+        if (this.queue.length > 0 && budget > 0) {
+          await new Promise(resolve => setTimeout(resolve, JOB_SPACING_MS));
         }
       }
+
+      if (cycle.queued > 0) {
+        console.log(
+          `AI learning cycle: ${cycle.processed} updated, ${cycle.failed} failed, ${this.queue.length} deferred`
+        );
+      }
     } catch (error) {
       console.error("Error in AI learning cycle:", error);
+    } finally {
+      cycle.finishedAt = new Date();
+      this.lastCycle = cycle;
+      this.currentCycle = null;
+      this.currentUser = null;
+      this.running = false;
+      this.scheduleNext();
     }
-  };
+  }
 
-  await runLearning();
+  // The next cycle is timed from the end of this one so long cycles never overlap
+  private scheduleNext() {
+    this.clearTimer();
+    if (this.stopped) return;
 
-  learningInterval = setInterval(runLearning, intervalMinutes * 60 * 1000);
-  console.log(`AI learning service started (running every ${intervalMinutes} minutes)`);
-}
+    const delayMs = this.intervalMinutes * 60 * 1000;
+    this.nextCycleAt = new Date(Date.now() + delayMs);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.runCycle().catch(error => console.error("Error in AI learning cycle:", error));
+    }, delayMs);
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async buildQueue(): Promise<LearningJob[]> {
+    const [stats, insights] = await Promise.all([
+      this.storage.getUserMessageStats(),
+      this.storage.getAllUserInsights(),
+    ]);
+    const insightByUser = new Map(insights.map(insight => [insight.userId, insight]));
+    const activeUserIds = new Set(this.activeChatters.getActiveChatters().map(chatter => chatter.userId));
 
-export function stopAiLearning() {
-  if (learningInterval) {
-    clearInterval(learningInterval);
-    learningInterval = null;
-    console.log("AI learning service stopped");
+    const jobs: LearningJob[] = [];
+    for (const stat of stats) {
+      const job = await this.toJob(stat, insightByUser.get(stat.userId), activeUserIds.has(stat.userId));
+      if (job) jobs.push(job);
+    }
+    this.forcedUserIds.clear();
+
+    // Forced first, then people chatting right now, then whoever has the most new material
+    return jobs.sort(
+      (a, b) =>
+        Number(b.forced) - Number(a.forced) ||
+        Number(b.active) - Number(a.active) ||
+        b.newMessages - a.newMessages
+    );
   }
-}
 
-function extractTags(summary: string): string[] {
-  const tags: string[] = [];
-  const keywords = {
-    playful: ["playful", "fun", "jokes", "humor", "funny"],
-    helpful: ["helpful", "supportive", "kind", "friendly"],
-    enthusiastic: ["enthusiastic", "excited", "energetic", "active"],
-    analytical: ["analytical", "thoughtful", "detailed", "technical"],
-    casual: ["casual", "relaxed", "chill", "laid-back"],
-    positive: ["positive", "upbeat", "optimistic", "happy"],
-    engaged: ["engaged", "interactive", "participates", "involved"],
-  };
-
-  const lowerSummary = summary.toLowerCase();
-  for (const [tag, words] of Object.entries(keywords)) {
-    if (words.some(word => lowerSummary.includes(word))) {
-      tags.push(tag);
+  private async toJob(stat: UserMessageStats, insight: UserInsight | undefined, active: boolean): Promise<LearningJob | null> {
+    const forced = this.forcedUserIds.has(stat.userId);
+    const base = {
+      userId: stat.userId,
+      username: stat.username,
+      totalMessages: stat.messageCount,
+      active,
+      forced,
+      queuedAt: new Date(),
+    };
+
+    if (!insight) {
+      if (!forced && stat.messageCount < MIN_MESSAGES_FOR_INSIGHT) return null;
+      return { ...base, newMessages: stat.messageCount };
+    }
+
+    if (!forced && stat.lastMessageAt.getTime() <= insight.lastUpdated.getTime()) return null;
+
+    const newMessages = await this.storage.countMessagesByUser(stat.userId, insight.lastUpdated);
+    if (!forced && newMessages < MIN_NEW_MESSAGES) return null;
+    return { ...base, newMessages };
+  }
+
+  private async processJob(job: LearningJob): Promise<boolean> {
+    try {
+      const insight = await this.storage.getUserInsight(job.userId);
+      const messages = await this.storage.getMessagesByUser(job.userId, MESSAGES_PER_PROMPT);
+      // Known users: only what they said since the last summary, folded into it
+      const fresh = insight
+        ? messages.filter(message => message.timestamp.getTime() > insight.lastUpdated.getTime())
+        : messages;
+      const recentMessages = (fresh.length > 0 ? fresh : messages).map(m => m.message).reverse();
+
+      const profile = await learnUserProfile(job.username, recentMessages, insight);
+      if (!profile) return false;
+
+      await this.storage.saveUserInsight({
+        userId: job.userId,
+        summary: profile.summary,
+        totalMessages: await this.storage.countMessagesByUser(job.userId),
+        recentTags: profile.tags,
+        interests: profile.interests,
+        games: profile.games,
+        tone: profile.tone,
+        preferredLanguage: profile.preferredLanguage,
+        insideJokes: profile.insideJokes,
+      });
+
+      console.log(`Updated AI insight for user ${job.username}`);
+      return true;
+    } catch (error) {
+      console.error(`Failed to generate insight for ${job.username}:`, error);
+      return false;
     }
   }
+}
 
-  return tags.slice(0, 3);
+/**
+ * One-line description of a learned profile for LLM prompts, e.g.
+ * "Chill regular. Tone: sarcastic. Interests: cats. Games: Elden Ring."
+ */
+export function describeUserInsight(insight: UserInsight): string {
+  const parts = [insight.summary?.trim() || ""];
+  if (insight.tone) parts.push(`Tone: ${insight.tone}.`);
+  if (insight.interests?.length) parts.push(`Interests: ${insight.interests.join(", ")}.`);
+  if (insight.games?.length) parts.push(`Games: ${insight.games.join(", ")}.`);
+  if (insight.insideJokes?.length) parts.push(`Inside jokes: ${insight.insideJokes.join("; ")}.`);
+  if (insight.preferredLanguage) parts.push(`Chats in ${insight.preferredLanguage}.`);
+  return parts.filter(Boolean).join(" ");
 }
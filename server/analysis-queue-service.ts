@@ -0,0 +1,257 @@
+import type { IStorage } from "./storage";
+import type { AiAnalysis, ChatMessage, Settings } from "@shared/schema";
+import type { AnalysisEngineSetting, BatchAnalysisResult, SentimentAnalysisResult } from "./groq-service";
+import { analyzeChatMessageLocally } from "./local-sentiment-analyzer";
+
+export type BatchAnalyzer = (messages: string[]) => Promise<BatchAnalysisResult>;
+
+export interface AnalysisJob {
+  message: ChatMessage;
+  enqueuedAt: number;
+  // Runs once the analysis row is stored (e.g. auto-moderation)
+  onAnalyzed?: (result: SentimentAnalysisResult, analysis: AiAnalysis) => Promise<void> | void;
+}
+
+export interface AnalysisQueueStats {
+  queued: number;
+  engine: AnalysisEngineSetting;
+  batchSize: number;
+  tokensPerMinute: number;
+  tokensLastMinute: number;
+  // Fraction of incoming messages currently analyzed (1 = all of them)
+  sampleRate: number;
+  waitingForBudget: boolean;
+  analyzed: number;
+  sampledOut: number;
+  dropped: number;
+  batches: number;
+}
+
+const FLUSH_INTERVAL_MS = 2000;
+const TOKEN_WINDOW_MS = 60 * 1000;
+
+// Rough token estimate (~4 characters per token) plus room for the JSON reply
+const PROMPT_OVERHEAD_TOKENS = 250;
+const TOKENS_PER_RESULT = 40;
+
+// Sampling starts once this many batches are waiting; past the hard cap the oldest jobs are dropped
+const SAMPLING_BACKLOG_BATCHES = 3;
+const MAX_BACKLOG_BATCHES = 10;
+
+export const DEFAULT_ANALYSIS_BATCH_SIZE = 10;
+export const DEFAULT_ANALYSIS_TOKENS_PER_MINUTE = 6000;
+
+/**
+ * Analyzes chat messages in the background so the message handler never waits
+ * on the LLM. Messages are batched into one request, kept under a
+ * tokens-per-minute budget, and only a sample is analyzed when chat outpaces it.
+ */
+export class AnalysisQueueService {
+  private storage: IStorage;
+  private analyze: BatchAnalyzer;
+  private onReady?: (analysis: AiAnalysis, message: ChatMessage) => void;
+  private queue: AnalysisJob[] = [];
+  private tokenLog: { at: number; tokens: number }[] = [];
+  private batchSize = DEFAULT_ANALYSIS_BATCH_SIZE;
+  private tokensPerMinute = DEFAULT_ANALYSIS_TOKENS_PER_MINUTE;
+  private engine: AnalysisEngineSetting = "auto";
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushDueAt = 0;
+  private processing = false;
+  private waitingForBudget = false;
+  private sampleCounter = 0;
+  private counters = { analyzed: 0, sampledOut: 0, dropped: 0, batches: 0 };
+
+  constructor(
+    storage: IStorage,
+    analyze: BatchAnalyzer,
+    onReady?: (analysis: AiAnalysis, message: ChatMessage) => void
+  ) {
+    this.storage = storage;
+    this.analyze = analyze;
+    this.onReady = onReady;
+  }
+
+  configure(settings?: Pick<Settings, "analysisBatchSize" | "analysisTokensPerMinute" | "analysisEngine"> | null) {
+    this.batchSize = Math.max(1, settings?.analysisBatchSize || DEFAULT_ANALYSIS_BATCH_SIZE);
+    this.tokensPerMinute = Math.max(500, settings?.analysisTokensPerMinute || DEFAULT_ANALYSIS_TOKENS_PER_MINUTE);
+    this.engine = settings?.analysisEngine === "local" ? "local" : "auto";
+  }
+
+  /**
+   * Queue a message for analysis. Returns false when it was sampled out
+   * because the backlog is too large.
+   */
+  enqueue(message: ChatMessage, onAnalyzed?: AnalysisJob["onAnalyzed"]): boolean {
+    const keepEvery = this.getKeepEvery();
+    if (keepEvery > 1) {
+      this.sampleCounter = (this.sampleCounter + 1) % keepEvery;
+      if (this.sampleCounter !== 0) {
+        this.counters.sampledOut++;
+        return false;
+      }
+    }
+
+    this.queue.push({ message, enqueuedAt: Date.now(), onAnalyzed });
+
+    const maxBacklog = this.batchSize * MAX_BACKLOG_BATCHES;
+    if (this.queue.length > maxBacklog) {
+      const overflow = this.queue.length - maxBacklog;
+      this.queue.splice(0, overflow);
+      this.counters.dropped += overflow;
+    }
+
+    this.scheduleFlush(this.queue.length >= this.batchSize ? 0 : FLUSH_INTERVAL_MS);
+    return true;
+  }
+
+  getStats(): AnalysisQueueStats {
+    return {
+      queued: this.queue.length,
+      engine: this.engine,
+      batchSize: this.batchSize,
+      tokensPerMinute: this.tokensPerMinute,
+      tokensLastMinute: this.getTokensLastMinute(),
+      sampleRate: 1 / this.getKeepEvery(),
+      waitingForBudget: this.waitingForBudget,
+      ...this.counters,
+    };
+  }
+
+  clear() {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.queue = [];
+  }
+
+  // Keep 1 in N incoming messages, growing with the backlog past the sampling threshold
+  private getKeepEvery(): number {
+    if (this.engine === "local") return 1; // local analysis is cheap enough to keep up
+    const threshold = this.batchSize * SAMPLING_BACKLOG_BATCHES;
+    if (this.queue.length < threshold) return 1;
+    return Math.ceil((this.queue.length + 1) / threshold);
+  }
+
+  private scheduleFlush(delayMs: number) {
+    if (this.processing) return; // flush() reschedules itself when done
+
+    const dueAt = Date.now() + delayMs;
+    if (this.flushTimer) {
+      if (this.flushDueAt <= dueAt) return;
+      clearTimeout(this.flushTimer);
+    }
+
+    this.flushDueAt = dueAt;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, delayMs);
+  }
+
+  private async flush() {
+    if (this.processing || this.queue.length === 0) return;
+    this.processing = true;
+
+    try {
+      const count = this.engine === "local"
+        ? Math.min(this.batchSize, this.queue.length)
+        : this.countAffordable();
+      if (count === 0) {
+        this.waitingForBudget = true;
+        return;
+      }
+
+      this.waitingForBudget = false;
+      const batch = this.queue.splice(0, count);
+      await this.processBatch(batch);
+    } catch (error) {
+      console.error("Error processing analysis batch:", error);
+    } finally {
+      this.processing = false;
+      if (this.queue.length > 0) {
+        this.scheduleFlush(this.nextFlushDelay());
+      }
+    }
+  }
+
+  private nextFlushDelay(): number {
+    if (this.waitingForBudget) {
+      // Retry once the oldest spend leaves the window
+      const oldest = this.tokenLog[0];
+      return oldest ? Math.max(250, oldest.at + TOKEN_WINDOW_MS - Date.now()) : FLUSH_INTERVAL_MS;
+    }
+    return this.queue.length >= this.batchSize ? 0 : FLUSH_INTERVAL_MS;
+  }
+
+  /**
+   * How many queued jobs fit in the next request without exceeding the
+   * budget. A single message always goes through once the window is empty,
+   * so an oversized message can't stall the queue.
+   */
+  private countAffordable(): number {
+    const remaining = this.tokensPerMinute - this.getTokensLastMinute();
+    const limit = Math.min(this.batchSize, this.queue.length);
+
+    let estimate = PROMPT_OVERHEAD_TOKENS;
+    let count = 0;
+    while (count < limit) {
+      const next = estimate + this.estimateTokens(this.queue[count].message.message);
+      if (next > remaining) break;
+      estimate = next;
+      count++;
+    }
+
+    if (count === 0 && this.tokenLog.length === 0) return 1;
+    return count;
+  }
+
+  private estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4) + TOKENS_PER_RESULT;
+  }
+
+  private getTokensLastMinute(): number {
+    const cutoff = Date.now() - TOKEN_WINDOW_MS;
+    this.tokenLog = this.tokenLog.filter(entry => entry.at > cutoff);
+    return this.tokenLog.reduce((sum, entry) => sum + entry.tokens, 0);
+  }
+
+  private async processBatch(batch: AnalysisJob[]) {
+    const texts = batch.map(job => job.message.message);
+    let results: SentimentAnalysisResult[];
+
+    if (this.engine === "local") {
+      results = texts.map(analyzeChatMessageLocally);
+    } else {
+      const estimate = texts.reduce((sum, text) => sum + this.estimateTokens(text), PROMPT_OVERHEAD_TOKENS);
+      const response = await this.analyze(texts);
+      results = response.results;
+      this.tokenLog.push({ at: Date.now(), tokens: response.totalTokens ?? estimate });
+    }
+    this.counters.batches++;
+
+    for (let i = 0; i < batch.length; i++) {
+      const job = batch[i];
+      const result = results[i];
+      if (!result) continue;
+
+      try {
+        const analysis = await this.storage.createAiAnalysis({
+          messageId: job.message.id,
+          streamId: job.message.streamId,
+          sentiment: result.sentiment,
+          sentimentScore: result.sentimentScore,
+          toxicity: result.toxicity,
+          categories: result.categories,
+          engine: result.engine,
+        });
+        this.counters.analyzed++;
+        this.onReady?.(analysis, job.message);
+        await job.onAnalyzed?.(result, analysis);
+      } catch (error) {
+        console.error(`Error storing analysis for message ${job.message.id}:`, error);
+      }
+    }
+  }
+}
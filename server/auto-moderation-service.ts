@@ -0,0 +1,296 @@
+import type tmi from "tmi.js";
+import type { IStorage } from "./storage";
+import type { Settings, ModerationAction } from "@shared/schema";
+import type { SentimentAnalysisResult } from "./groq-service";
+
+export type AutoModAction = "none" | "warn" | "delete" | "timeout";
+
+export interface AutoModUserRole {
+  isMod: boolean;
+  isVip: boolean;
+  isSubscriber: boolean;
+}
+
+export interface AutoModTarget {
+  channel: string;
+  userId: string;
+  username: string;
+  messageId?: string;
+  message: string;
+  streamId?: string | null; // Stream session the message arrived in
+}
+
+export interface AutoModDecision {
+  action: AutoModAction;
+  duration: number | null;
+  reason: string;
+  strikes: number;
+  dryRun: boolean;
+  exempt: boolean;
+  failed: boolean; // The action was attempted but Twitch rejected it
+  target: AutoModTarget;
+  timestamp: Date;
+}
+
+/**
+ * Helix moderation on behalf of the authenticated account. Each call
+ * resolves to false when the action could not be carried out.
+ */
+export interface AutoModModerator {
+  deleteMessage(channel: string, messageId: string): Promise<boolean>;
+  timeoutUser(channel: string, userId: string, duration: number, reason: string): Promise<boolean>;
+}
+
+// Categories severe enough to skip straight to a timeout
+const SEVERE_CATEGORIES = ["hate", "harassment", "threat", "slur", "sexual", "self-harm"];
+
+// Escalating timeout ladder in seconds, indexed by prior timeouts in the window
+const TIMEOUT_LADDER = [60, 600, 3600, 86400];
+
+const STRIKE_WINDOW_MS = 60 * 60 * 1000; // strikes expire after 1 hour
+const SELF_ACTION_TTL_MS = 10 * 1000;
+export const AUTOMOD_MODERATOR_NAME = "StreamDachi AutoMod";
+
+export class AutoModerationService {
+  private storage: IStorage;
+  private moderator: AutoModModerator;
+  private strikes: Map<string, number[]> = new Map();
+  private timeouts: Map<string, number[]> = new Map();
+  private recentDecisions: AutoModDecision[] = [];
+  private readonly maxDecisions = 100;
+  // Actions we executed ourselves, so the tmi echo isn't recorded twice
+  private selfActions: Map<string, number> = new Map();
+
+  constructor(storage: IStorage, moderator: AutoModModerator) {
+    this.storage = storage;
+    this.moderator = moderator;
+  }
+
+  /**
+   * Pure policy decision - no side effects besides reading strike history.
+   */
+  decide(
+    analysis: SentimentAnalysisResult,
+    role: AutoModUserRole,
+    target: AutoModTarget,
+    settings: Settings
+  ): AutoModDecision {
+    const base = {
+      duration: null,
+      dryRun: settings.autoModerationDryRun,
+      failed: false,
+      target,
+      timestamp: new Date(),
+    };
+
+    const exempt =
+      role.isMod || role.isVip || (role.isSubscriber && settings.autoModerationExemptSubscribers);
+
+    const categories = analysis.categories.map(c => c.toLowerCase());
+    const severe = categories.some(c => SEVERE_CATEGORIES.some(s => c.includes(s)));
+    const belowThreshold = analysis.sentimentScore <= settings.sentimentThreshold;
+    const flagged = analysis.toxicity || (belowThreshold && analysis.sentiment === "negative");
+
+    const reason = this.buildReason(analysis, settings.sentimentThreshold);
+
+    if (!flagged) {
+      return { ...base, action: "none", reason, strikes: this.getStrikeCount(target.userId), exempt };
+    }
+
+    if (exempt) {
+      return { ...base, action: "none", reason: `${reason} (exempt role)`, strikes: this.getStrikeCount(target.userId), exempt };
+    }
+
+    // Toxic messages count double towards escalation
+    const weight = analysis.toxicity ? 2 : 1;
+    const strikes = this.getStrikeCount(target.userId) + weight;
+
+    let action: AutoModAction;
+    let duration: number | null = null;
+
+    if (severe || strikes >= 3) {
+      action = "timeout";
+      // Severe content starts one rung up the ladder
+      const ladderIndex = this.countRecent(this.timeouts, target.userId) + (severe ? 1 : 0);
+      duration = TIMEOUT_LADDER[Math.min(ladderIndex, TIMEOUT_LADDER.length - 1)];
+    } else if (strikes === 2) {
+      action = "delete";
+    } else {
+      action = "warn";
+    }
+
+    return { ...base, action, duration, reason, strikes, exempt };
+  }
+
+  /**
+   * Decide and, unless in dry-run mode, act on the decision. Warnings go
+   * through the tmi client, deletes and timeouts through Helix. Only actions
+   * that went through count as strikes and land in moderation_actions; a
+   * rejected one is kept as a failed decision.
+   */
+  async handleMessage(
+    client: tmi.Client | null,
+    analysis: SentimentAnalysisResult,
+    role: AutoModUserRole,
+    target: AutoModTarget,
+    settings: Settings
+  ): Promise<{ decision: AutoModDecision; record: ModerationAction | null }> {
+    const decision = this.decide(analysis, role, target, settings);
+
+    if (decision.action === "none") {
+      return { decision, record: null };
+    }
+
+    this.addDecision(decision);
+
+    if (decision.dryRun) {
+      this.recordEscalation(decision);
+      console.log(
+        `[AutoMod DRY RUN] Would ${decision.action} ${target.username}` +
+        `${decision.duration ? ` for ${decision.duration}s` : ""}: ${decision.reason}`
+      );
+      return { decision, record: null };
+    }
+
+    if (!(await this.execute(client, decision))) {
+      decision.failed = true;
+      console.warn(`AutoMod: ${decision.action} for ${target.username} failed, not recorded`);
+      return { decision, record: null };
+    }
+    this.recordEscalation(decision);
+
+    const record = await this.storage.createModerationAction({
+      actionType: decision.action,
+      targetUserId: target.userId,
+      targetUsername: target.username,
+      moderatorUsername: AUTOMOD_MODERATOR_NAME,
+      duration: decision.duration,
+      reason: decision.reason,
+      messageDeleted: decision.action === "warn" ? null : target.message,
+      channel: target.channel,
+      streamId: target.streamId ?? null,
+    });
+
+    return { decision, record };
+  }
+
+  /**
+   * Carry out a decision, returning whether Twitch accepted it.
+   */
+  private async execute(client: tmi.Client | null, decision: AutoModDecision): Promise<boolean> {
+    const { channel, userId, username, messageId } = decision.target;
+
+    try {
+      switch (decision.action) {
+        case "warn":
+          if (!client) {
+            console.warn(`AutoMod: no Twitch client to warn ${username}`);
+            return false;
+          }
+          await client.say(channel, `@${username} please keep chat friendly 💜 (warning)`);
+          return true;
+        case "delete": {
+          if (!messageId) {
+            console.warn(`AutoMod: no message id to delete for ${username}`);
+            return false;
+          }
+          // Marked up front since the tmi echo can beat the Helix response
+          this.markSelfAction("delete", username);
+          const deleted = await this.moderator.deleteMessage(channel, messageId);
+          if (!deleted) this.consumeSelfAction("delete", username);
+          return deleted;
+        }
+        case "timeout": {
+          this.markSelfAction("timeout", username);
+          const timedOut = await this.moderator.timeoutUser(
+            channel,
+            userId,
+            decision.duration || TIMEOUT_LADDER[0],
+            `AutoMod: ${decision.reason}`
+          );
+          if (!timedOut) this.consumeSelfAction("timeout", username);
+          return timedOut;
+        }
+        default:
+          return false;
+      }
+    } catch (error) {
+      this.consumeSelfAction(decision.action === "timeout" ? "timeout" : "delete", username);
+      console.error(`AutoMod failed to ${decision.action} ${username} (is the account a moderator?):`, error);
+      return false;
+    }
+  }
+
+  private recordEscalation(decision: AutoModDecision) {
+    const { userId } = decision.target;
+    this.addStrikes(userId, decision.strikes - this.getStrikeCount(userId));
+    if (decision.action === "timeout") {
+      this.timeouts.set(userId, [...(this.timeouts.get(userId) || []), Date.now()]);
+    }
+  }
+
+  private buildReason(analysis: SentimentAnalysisResult, threshold: number): string {
+    const parts = [`${analysis.sentiment} (score ${analysis.sentimentScore}/5, threshold ${threshold})`];
+    if (analysis.toxicity) {
+      parts.push("toxic");
+    }
+    if (analysis.categories.length > 0) {
+      parts.push(`categories: ${analysis.categories.join(", ")}`);
+    }
+    return `${analysis.engine === "local" ? "Local" : "AI"}: ${parts.join(", ")}`;
+  }
+
+  private getStrikeCount(userId: string): number {
+    return this.countRecent(this.strikes, userId);
+  }
+
+  private countRecent(history: Map<string, number[]>, userId: string): number {
+    const cutoff = Date.now() - STRIKE_WINDOW_MS;
+    const recent = (history.get(userId) || []).filter(t => t > cutoff);
+    history.set(userId, recent);
+    return recent.length;
+  }
+
+  private addStrikes(userId: string, count: number) {
+    const existing = this.strikes.get(userId) || [];
+    for (let i = 0; i < count; i++) {
+      existing.push(Date.now());
+    }
+    this.strikes.set(userId, existing);
+  }
+
+  private addDecision(decision: AutoModDecision) {
+    this.recentDecisions.push(decision);
+    if (this.recentDecisions.length > this.maxDecisions) {
+      this.recentDecisions = this.recentDecisions.slice(-this.maxDecisions);
+    }
+  }
+
+  private markSelfAction(type: "delete" | "timeout", username: string) {
+    this.selfActions.set(`${type}:${username.toLowerCase()}`, Date.now());
+  }
+
+  /**
+   * True (once) if a tmi moderation event is the echo of our own action.
+   */
+  consumeSelfAction(type: "delete" | "timeout", username: string): boolean {
+    const key = `${type}:${username.toLowerCase()}`;
+    const markedAt = this.selfActions.get(key);
+    this.selfActions.delete(key);
+    return markedAt !== undefined && Date.now() - markedAt < SELF_ACTION_TTL_MS;
+  }
+
+  getRecentDecisions(): AutoModDecision[] {
+    return [...this.recentDecisions].reverse();
+  }
+
+  resetStrikes(userId?: string) {
+    if (userId) {
+      this.strikes.delete(userId);
+      this.timeouts.delete(userId);
+    } else {
+      this.strikes.clear();
+      this.timeouts.clear();
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import type { Settings } from "@shared/schema";
+
+export interface AdaptiveCycleOptions {
+  enabled: boolean;
+  minIntervalSeconds: number;
+  maxIntervalSeconds: number;
+  maxRepliesPerCycle: number;
+}
+
+export interface ChatVelocity {
+  messagesPerMinute: number;
+  uniqueChatters: number; // In the last minute
+  load: number; // 0 (dead chat) to 1 (raid), drives interval and replies
+}
+
+// One chat message, as remembered for the velocity window
+export interface ChatActivity {
+  at: number;
+  user: string;
+}
+
+export const VELOCITY_WINDOW_MS = 60 * 1000;
+
+// Either of these alone counts as a fully busy chat
+const BUSY_MESSAGES_PER_MINUTE = 60;
+const BUSY_UNIQUE_CHATTERS = 20;
+
+const MIN_INTERVAL_SECONDS = 5;
+const MAX_INTERVAL_SECONDS = 120;
+const MAX_REPLIES_PER_CYCLE = 5;
+
+/**
+ * Adaptive cycle limits from a settings row, clamped so the floor never
+ * exceeds the ceiling.
+ */
+export function adaptiveCycleOptionsFrom(settings?: Settings | null): AdaptiveCycleOptions {
+  const min = clamp(settings?.dachiastreamMinCycleInterval ?? 5, MIN_INTERVAL_SECONDS, MAX_INTERVAL_SECONDS);
+  const max = clamp(settings?.dachiastreamMaxCycleInterval ?? 60, MIN_INTERVAL_SECONDS, MAX_INTERVAL_SECONDS);
+  return {
+    enabled: settings?.dachiastreamAdaptiveInterval ?? false,
+    minIntervalSeconds: Math.min(min, max),
+    maxIntervalSeconds: Math.max(min, max),
+    maxRepliesPerCycle: clamp(settings?.dachiastreamMaxRepliesPerCycle ?? 3, 1, MAX_REPLIES_PER_CYCLE),
+  };
+}
+
+/**
+ * Messages per minute and distinct chatters over the last minute. Entries
+ * older than the window are ignored, so callers can prune lazily.
+ */
+export function measureVelocity(activity: ChatActivity[], now: number = Date.now()): ChatVelocity {
+  const recent = activity.filter(entry => now - entry.at < VELOCITY_WINDOW_MS);
+  const messagesPerMinute = recent.length;
+  const uniqueChatters = new Set(recent.map(entry => entry.user)).size;
+  const load = Math.min(1, Math.max(messagesPerMinute / BUSY_MESSAGES_PER_MINUTE, uniqueChatters / BUSY_UNIQUE_CHATTERS));
+  return { messagesPerMinute, uniqueChatters, load: Math.round(load * 100) / 100 };
+}
+
+/**
+ * Busy chat moves the interval toward the floor, quiet chat toward the ceiling.
+ */
+export function adaptiveIntervalSeconds(velocity: ChatVelocity, options: AdaptiveCycleOptions): number {
+  const range = options.maxIntervalSeconds - options.minIntervalSeconds;
+  return Math.round(options.maxIntervalSeconds - range * velocity.load);
+}
+
+/**
+ * One reply per cycle in a quiet chat, up to the configured maximum at full load.
+ */
+export function adaptiveRepliesPerCycle(velocity: ChatVelocity, options: AdaptiveCycleOptions): number {
+  return 1 + Math.floor(velocity.load * (options.maxRepliesPerCycle - 1));
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
@@ -0,0 +1,265 @@
+import type { AiCommand } from "@shared/schema";
+import type { IStorage } from "./storage";
+import {
+  analyzeChatMessage,
+  generateAiResponse,
+  generateDachiStreamResponse,
+  dachiStreamSettingsFrom,
+} from "./groq-service";
+import { describeUserInsight } from "./ai-learning-service";
+import { generateSafeReply } from "./reply-safety-filter";
+import { resolvePersona } from "./persona-service";
+
+export type CommandOutputTarget = "chat" | "overlay" | "dashboard";
+export type CommandResponseType = "direct" | "analysis" | "generate";
+export type CommandRole = "subscriber" | "vip" | "mod";
+
+export interface CommandInvoker {
+  userId: string;
+  username: string;
+  isMod: boolean;
+  isVip: boolean;
+  isSubscriber: boolean;
+}
+
+export interface CommandTemplateVars {
+  user: string;
+  args: string;
+  channel: string;
+}
+
+export interface CommandExecutionContext extends CommandTemplateVars {
+  message: string; // Full chat message (or redeem input) that triggered the command
+}
+
+/**
+ * Find the enabled command whose trigger is the first word of the message.
+ * "!help me" matches "!help", "!helpme" does not.
+ */
+export function matchCommand(commands: AiCommand[], message: string): { command: AiCommand; args: string } | null {
+  const trimmed = message.trim();
+  const lower = trimmed.toLowerCase();
+
+  for (const command of commands) {
+    if (!command.enabled) continue;
+    const trigger = command.trigger.toLowerCase();
+    if (lower === trigger || lower.startsWith(`${trigger} `)) {
+      return { command, args: trimmed.substring(trigger.length).trim() };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Replace {user}, {args} and {channel} placeholders in a command prompt.
+ */
+export function renderCommandTemplate(template: string, vars: CommandTemplateVars): string {
+  return template
+    .replace(/\{user\}/gi, vars.user)
+    .replace(/\{args\}/gi, vars.args)
+    .replace(/\{channel\}/gi, vars.channel);
+}
+
+/**
+ * Produce a command reply according to its responseType:
+ * - direct: the prompt itself, with variables substituted
+ * - analysis: sentiment/insight analysis of the message, or of an @mentioned
+ *   user's recent history, summarized by the LLM
+ * - generate: the channel's current persona and the DachiStream guardrail stack
+ * LLM replies pass the channel's reply safety filter before they are returned.
+ * Returns an empty string when there is nothing to send.
+ */
+export async function executeCommand(
+  command: Pick<AiCommand, "trigger" | "prompt" | "responseType">,
+  context: CommandExecutionContext,
+  storage: IStorage
+): Promise<string> {
+  const prompt = renderCommandTemplate(command.prompt, context);
+
+  switch (command.responseType as CommandResponseType) {
+    case "direct":
+      return prompt;
+
+    case "analysis":
+      return runAnalysisCommand(prompt, context, storage, logUnsafeReply(command.trigger));
+
+    case "generate": {
+      const settings = await storage.getSettingsForChannel(context.channel);
+      const { persona } = await resolvePersona(storage, context.channel, settings);
+      const instructions =
+        `COMMAND INSTRUCTIONS (${command.trigger}): ${prompt}\n` +
+        `REQUESTED BY: ${context.user}`;
+      return generateSafeReply(
+        safetyNote => generateDachiStreamResponse(
+          context.args || context.message,
+          safetyNote ? `${instructions}\n\n${safetyNote}` : instructions,
+          dachiStreamSettingsFrom(settings, persona)
+        ),
+        settings,
+        logUnsafeReply(command.trigger),
+        persona
+      );
+    }
+
+    default: {
+      const settings = await storage.getSettingsForChannel(context.channel);
+      return generateSafeReply(
+        safetyNote => generateAiResponse(
+          safetyNote ? `${prompt}\n\n${safetyNote}` : prompt,
+          context.args || context.message
+        ),
+        settings,
+        logUnsafeReply(command.trigger)
+      );
+    }
+  }
+}
+
+function logUnsafeReply(trigger: string) {
+  return (_reply: string, reasons: string[], retrying: boolean) => {
+    console.warn(`Command ${trigger} reply ${retrying ? "regenerating" : "blocked"}: ${reasons.join("; ")}`);
+  };
+}
+
+async function findProfileByName(storage: IStorage, username: string) {
+  const exact = await storage.getUserProfileByUsername(username);
+  if (exact) return exact;
+
+  const lower = username.toLowerCase();
+  const profiles = await storage.getAllUserProfiles();
+  return profiles.find(profile => profile.username.toLowerCase() === lower);
+}
+
+async function runAnalysisCommand(
+  prompt: string,
+  context: CommandExecutionContext,
+  storage: IStorage,
+  onUnsafe: (reply: string, reasons: string[], retrying: boolean) => void
+): Promise<string> {
+  const mention = context.args.match(/^@(\w+)/);
+  const details: string[] = [];
+  let text: string;
+
+  if (mention) {
+    const profile = await findProfileByName(storage, mention[1]);
+    if (!profile) {
+      return `I haven't seen @${mention[1]} in chat yet.`;
+    }
+
+    const messages = await storage.getMessagesByUser(profile.userId, 20);
+    if (messages.length === 0) {
+      return `@${profile.username} hasn't said anything I can analyze yet.`;
+    }
+
+    // Oldest first so the history reads naturally
+    text = messages.map(m => m.message).reverse().join("\n");
+    details.push(`SUBJECT: @${profile.username} (last ${messages.length} messages)`);
+
+    const insight = await storage.getUserInsight(profile.userId);
+    if (insight?.summary) {
+      details.push(`KNOWN PERSONALITY: ${describeUserInsight(insight)}`);
+    }
+  } else {
+    text = context.args || context.message;
+    details.push(`SUBJECT: message from @${context.user}`);
+  }
+
+  const settings = await storage.getSettingsForChannel(context.channel);
+  const sentiment = await analyzeChatMessage(text, settings?.analysisEngine === "local" ? "local" : "auto");
+  details.push(
+    `SENTIMENT: ${sentiment.sentiment} (${sentiment.sentimentScore}/5)`,
+    `TOXIC: ${sentiment.toxicity ? "yes" : "no"}`,
+    `CATEGORIES: ${sentiment.categories.join(", ") || "none"}`,
+    `TEXT:\n${text}`
+  );
+
+  const instructions = `${prompt}\n\nSummarize the analysis below in one or two short sentences suitable for Twitch chat.`;
+  return generateSafeReply(
+    safetyNote => generateAiResponse(
+      safetyNote ? `${instructions}\n\n${safetyNote}` : instructions,
+      details.join("\n")
+    ),
+    settings,
+    onUnsafe
+  );
+}
+
+/**
+ * An empty allowedRoles list means everyone may use the command.
+ * Mods can always use restricted commands.
+ */
+export function isRoleAllowed(allowedRoles: string[] | null | undefined, invoker: CommandInvoker): boolean {
+  if (!allowedRoles || allowedRoles.length === 0) return true;
+  if (invoker.isMod) return true;
+
+  return (
+    (allowedRoles.includes("vip") && invoker.isVip) ||
+    (allowedRoles.includes("subscriber") && invoker.isSubscriber)
+  );
+}
+
+function restore(map: Map<string, number>, key: string, value: number | undefined) {
+  if (value === undefined) {
+    map.delete(key);
+  } else {
+    map.set(key, value);
+  }
+}
+
+export class CommandCooldowns {
+  private lastGlobalUse: Map<string, number> = new Map();
+  private lastUserUse: Map<string, number> = new Map();
+
+  /**
+   * Seconds until the command can be used again by this user (0 = ready).
+   */
+  getRemainingSeconds(command: AiCommand, userId: string, now: number = Date.now()): number {
+    const globalReadyAt = (this.lastGlobalUse.get(command.id) || 0) + command.globalCooldownSeconds * 1000;
+    const userReadyAt = (this.lastUserUse.get(`${command.id}:${userId}`) || 0) + command.userCooldownSeconds * 1000;
+    const readyAt = Math.max(globalReadyAt, userReadyAt);
+
+    return Math.max(0, Math.ceil((readyAt - now) / 1000));
+  }
+
+  recordUse(command: AiCommand, userId: string, now: number = Date.now()) {
+    this.lastGlobalUse.set(command.id, now);
+    this.lastUserUse.set(`${command.id}:${userId}`, now);
+  }
+
+  /**
+   * Claim the cooldown before a slow reply so concurrent uses are rejected.
+   * The returned function gives the claim back, e.g. when no reply was sent;
+   * it leaves any use recorded after this one alone.
+   */
+  reserve(command: AiCommand, userId: string, now: number = Date.now()): () => void {
+    const userKey = `${command.id}:${userId}`;
+    const previousGlobal = this.lastGlobalUse.get(command.id);
+    const previousUser = this.lastUserUse.get(userKey);
+    this.recordUse(command, userId, now);
+
+    return () => {
+      if (this.lastGlobalUse.get(command.id) === now) {
+        restore(this.lastGlobalUse, command.id, previousGlobal);
+      }
+      if (this.lastUserUse.get(userKey) === now) {
+        restore(this.lastUserUse, userKey, previousUser);
+      }
+    };
+  }
+
+  reset(commandId?: string) {
+    if (!commandId) {
+      this.lastGlobalUse.clear();
+      this.lastUserUse.clear();
+      return;
+    }
+
+    this.lastGlobalUse.delete(commandId);
+    for (const key of Array.from(this.lastUserUse.keys())) {
+      if (key.startsWith(`${commandId}:`)) {
+        this.lastUserUse.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import type { IStorage } from "./storage";
+import { normalizeChannel, type ChatMessage, type ConversationMemory } from "@shared/schema";
+import { summarizeChatHistory } from "./groq-service";
+
+// RECENT CHAT in the context already covers the newest messages, so summaries stop short of them
+const RECENT_WINDOW = 10;
+// Summarize once this many older messages have piled up since the last summary
+const SUMMARY_BATCH_MESSAGES = 60;
+
+const RECENT_REPLIES_IN_CONTEXT = 5;
+const USER_REPLIES_IN_CONTEXT = 3;
+const MAX_QUOTE_LENGTH = 120;
+
+/**
+ * Per-channel memory for DachiStream: every reply the bot made (and to whom)
+ * plus rolling summaries of older chat, so responses don't repeat themselves
+ * and can follow up on earlier threads across cycles.
+ */
+export class ConversationMemoryService {
+  private storage: IStorage;
+  private summarizing: Set<string> = new Set();
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  async recordReply(message: ChatMessage, reply: string): Promise<ConversationMemory> {
+    const entry = await this.storage.createConversationMemory({
+      channel: message.channel,
+      kind: "reply",
+      content: reply,
+      addressedToUserId: message.userId,
+      addressedToUsername: message.username,
+      inReplyTo: message.message,
+      messageId: message.id,
+    });
+
+    // Summaries are slow LLM calls - never hold up the reply path for one
+    this.summarizeIfDue(message.channel).catch(error => {
+      console.error(`Error updating chat summary for ${message.channel}:`, error);
+    });
+
+    return entry;
+  }
+
+  /**
+   * Context block for a message about to be answered. Empty when there is
+   * nothing to remember yet.
+   */
+  async buildMemoryContext(message: ChatMessage): Promise<string> {
+    const parts: string[] = [];
+
+    const [summary] = await this.storage.getConversationMemory(message.channel, "summary", 1);
+    if (summary) {
+      parts.push(`EARLIER IN CHAT (summary):\n${summary.content}`);
+    }
+
+    const recentReplies = await this.storage.getConversationMemory(
+      message.channel,
+      "reply",
+      RECENT_REPLIES_IN_CONTEXT
+    );
+    if (recentReplies.length > 0) {
+      parts.push(
+        "YOUR RECENT REPLIES (don't repeat these phrases or jokes):\n" +
+        recentReplies.reverse().map(formatReply).join("\n")
+      );
+    }
+
+    if (message.userId) {
+      const shown = new Set(recentReplies.map(reply => reply.id));
+      const userReplies = (
+        await this.storage.getConversationMemory(message.channel, "reply", USER_REPLIES_IN_CONTEXT, message.userId)
+      ).filter(reply => !shown.has(reply.id));
+
+      if (userReplies.length > 0) {
+        parts.push(
+          `EARLIER WITH ${message.username} (follow up if it fits):\n` +
+          userReplies.reverse().map(formatReply).join("\n")
+        );
+      }
+    }
+
+    return parts.join("\n\n");
+  }
+
+  async getMemory(channel: string) {
+    const [replies, summaries] = await Promise.all([
+      this.storage.getConversationMemory(channel, "reply", 50),
+      this.storage.getConversationMemory(channel, "summary", 10),
+    ]);
+    return { channel: normalizeChannel(channel), replies, summaries };
+  }
+
+  async clear(channel: string) {
+    await this.storage.clearConversationMemory(channel);
+  }
+
+  private async summarizeIfDue(channel: string) {
+    const name = normalizeChannel(channel);
+    if (this.summarizing.has(name)) return;
+    this.summarizing.add(name);
+
+    try {
+      const [previous] = await this.storage.getConversationMemory(name, "summary", 1);
+      const since = previous?.coveredUntil ?? null;
+      const pending = await this.storage.getChatMessagesSince(
+        name,
+        since,
+        SUMMARY_BATCH_MESSAGES * 2 + RECENT_WINDOW
+      );
+
+      const older = pending.slice(0, Math.max(0, pending.length - RECENT_WINDOW));
+      if (older.length < SUMMARY_BATCH_MESSAGES) return;
+
+      const lines = older.map(msg => `${msg.username}: ${msg.message}`);
+      const content = await summarizeChatHistory(previous?.content ?? null, lines);
+      if (!content) return;
+
+      await this.storage.createConversationMemory({
+        channel: name,
+        kind: "summary",
+        content,
+        coveredUntil: older[older.length - 1].timestamp,
+      });
+    } finally {
+      this.summarizing.delete(name);
+    }
+  }
+}
+
+function formatReply(reply: ConversationMemory): string {
+  const target = reply.addressedToUsername ? `to ${reply.addressedToUsername}` : "to chat";
+  const quote = reply.inReplyTo ? ` (re: "${truncate(reply.inReplyTo)}")` : "";
+  return `- ${target}${quote}: ${truncate(reply.content)}`;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_QUOTE_LENGTH ? `${text.substring(0, MAX_QUOTE_LENGTH)}…` : text;
+}
@@ -1,28 +1,81 @@
 import type { IStorage } from "./storage";
-import type { ChatMessage, UserInsight, Settings } from "@shared/schema";
+import { ConversationMemoryService } from "./conversation-memory-service";
+import { MessageEmbeddingService } from "./embedding-service";
+import { describeUserInsight } from "./ai-learning-service";
+import { botNames, mentions, pickBestScored, scoreMessages, type ScoredMessage } from "./message-scoring";
+import { generateSafeReply } from "./reply-safety-filter";
+import { resolvePersona } from "./persona-service";
+import {
+  adaptiveCycleOptionsFrom,
+  adaptiveIntervalSeconds,
+  adaptiveRepliesPerCycle,
+  measureVelocity,
+  VELOCITY_WINDOW_MS,
+  type AdaptiveCycleOptions,
+  type ChatActivity,
+  type ChatVelocity,
+} from "./chat-velocity";
+import { generateDachiStreamCompletion, dachiStreamSettingsFrom, type DachiStreamCompletion } from "./groq-service";
+import {
+  normalizeChannel,
+  type AiReplySource,
+  type ChatMessage,
+  type DachiStreamCycleStatus,
+  type Settings,
+} from "@shared/schema";
 
 export interface MessageBuffer {
   messages: ChatMessage[];
   userMessageCounts: Map<string, number>;
 }
 
-export type SelectionStrategy = "most_active" | "random" | "new_chatter";
+// Each joined channel collects and answers its own chat
+interface ChannelQueue {
+  buffer: MessageBuffer;
+  // Subs/cheers/gifts waiting for a thank-you (only used when prioritizing supporters)
+  pendingSupportEvents: ChatMessage[];
+  // Every chat message from the last minute, for adaptive cycles (survives buffer clears)
+  activity: ChatActivity[];
+}
+
+export const SELECTION_STRATEGIES = ["most_active", "random", "new_chatter", "smart"] as const;
+
+export type SelectionStrategy = (typeof SELECTION_STRATEGIES)[number];
+
+export type CycleTrigger = "timer" | "manual";
+
+// What a reply is generated for; a regeneration may no longer have the chat message
+export interface ReplyTarget {
+  id?: string | null;
+  message: string;
+  channel: string;
+}
+
+export interface GeneratedReply {
+  reply: string; // Empty when there is nothing safe to send
+  aiReplyId: string | null; // Row in ai_replies, null if saving it failed
+}
 
 export type DachiStreamStatus = "idle" | "collecting" | "processing" | "selecting_message" | "building_context" | "waiting_for_ai" | "disabled" | "paused";
 
 export interface DachiStreamLog {
   timestamp: Date;
-  type: "info" | "status" | "message" | "selection" | "ai_response" | "error";
+  type: "info" | "status" | "message" | "selection" | "ai_response" | "safety" | "error";
   message: string;
   data?: any;
 }
 
 export interface DachiStreamState {
   status: DachiStreamStatus;
+  paused: boolean;
   bufferCount: number;
   lastCycleTime: Date | null;
-  nextCycleTime: Date | null;
+  nextCycleTime: Date | null; // null while a cycle is running or the service is stopped
   secondsUntilNextCycle: number;
+  cycleIntervalSeconds: number; // Interval of the scheduled cycle (computed when adaptive)
+  adaptive: boolean;
+  velocity: ChatVelocity; // Busiest channel
+  repliesPerCycle: number;
   selectedMessage: ChatMessage | null;
   aiResponse: string | null;
   error: string | null;
@@ -30,28 +83,59 @@ export interface DachiStreamState {
 
 export class DachiStreamService {
   private storage: IStorage;
-  private messageBuffer: MessageBuffer = {
-    messages: [],
-    userMessageCounts: new Map(),
-  };
-  private intervalId: NodeJS.Timeout | null = null;
+  readonly memory: ConversationMemoryService;
+  readonly embeddings: MessageEmbeddingService;
+  private channels: Map<string, ChannelQueue> = new Map();
+  private readonly maxPendingSupportEvents = 20;
+  // Oldest messages fall out past this, e.g. while paused and no cycle clears the buffer
+  private readonly maxBufferedMessages = 200;
+  // Fast-path replies per channel in the last minute, and the last one per user
+  private mentionReplies: Map<string, number[]> = new Map();
+  private lastMentionReplyByUser: Map<string, number> = new Map();
+  private readonly mentionUserCooldownMs = 30 * 1000;
+  private timer: NodeJS.Timeout | null = null;
+  private stopped = true;
   private isPaused: boolean = false;
+  private cycleRunning = false;
+  // The message the current cycle is answering, and any the streamer skipped
+  private currentMessage: ChatMessage | null = null;
+  private skippedMessageIds: Set<string> = new Set();
+  // Cycle each message is being answered in, so its reply is stored against it
+  private cycleIdByMessage: Map<string, string> = new Map();
+  // Persona last used per channel, to log scheduled switches
+  private personaByChannel: Map<string, string> = new Map();
   private onMessageSelected?: (message: ChatMessage, context: string) => Promise<void>;
   
   private currentStatus: DachiStreamStatus = "idle";
   private logs: DachiStreamLog[] = [];
   private maxLogs = 100;
   private lastCycleTime: Date | null = null;
+  private nextCycleTime: Date | null = null;
+  // Last message picked (cycle or direct mention), its reply, and the last error
+  private selectedMessage: ChatMessage | null = null;
+  private lastResponse: string | null = null;
+  private lastError: string | null = null;
   private onStatusChange?: (state: DachiStreamState) => void;
+  private onLog?: (log: DachiStreamLog) => void;
   private cycleIntervalSeconds: number = 15;
+  private adaptive: AdaptiveCycleOptions = adaptiveCycleOptionsFrom(null);
+  private scheduledAt: number | null = null;
+  private scheduledIntervalSeconds: number = 15;
 
   constructor(storage: IStorage) {
     this.storage = storage;
+    this.memory = new ConversationMemoryService(storage);
+    this.embeddings = new MessageEmbeddingService(storage);
   }
 
-  async start(onMessageSelected: (message: ChatMessage, context: string) => Promise<void>, onStatusChange?: (state: DachiStreamState) => void) {
+  async start(
+    onMessageSelected: (message: ChatMessage, context: string) => Promise<void>,
+    onStatusChange?: (state: DachiStreamState) => void,
+    onLog?: (log: DachiStreamLog) => void
+  ) {
     this.onMessageSelected = onMessageSelected;
     this.onStatusChange = onStatusChange;
+    this.onLog = onLog;
     
     // Fetch cycle interval from settings
     const allSettings = await this.storage.getSettings();
@@ -59,15 +143,20 @@ export class DachiStreamService {
     if (settings && settings.dachiastreamCycleInterval) {
       this.cycleIntervalSeconds = settings.dachiastreamCycleInterval;
     }
+    this.adaptive = adaptiveCycleOptionsFrom(settings);
+    // Paused state survives restarts
+    this.isPaused = settings?.dachiastreamPaused ?? false;
+    this.embeddings.configure(settings);
     
-    // Start interval with configured cycle time
-    this.intervalId = setInterval(() => {
-      this.processBuffer();
-    }, this.cycleIntervalSeconds * 1000);
+    this.stopped = false;
+    this.scheduleNext();
     
-    this.addLog("info", `DachiStream service started (${this.cycleIntervalSeconds}-second cycle)`);
-    this.updateStatus("collecting");
-    console.log(`DachiStream service started (${this.cycleIntervalSeconds}-second cycle)`);
+    const cycle = this.adaptive.enabled
+      ? `adaptive ${this.adaptive.minIntervalSeconds}-${this.adaptive.maxIntervalSeconds}-second cycle`
+      : `${this.cycleIntervalSeconds}-second cycle`;
+    this.addLog("info", `DachiStream service started (${cycle})${this.isPaused ? " - paused" : ""}`);
+    this.updateStatus(this.isPaused ? "paused" : "collecting");
+    console.log(`DachiStream service started (${cycle})`);
   }
 
   updateCycleInterval(intervalSeconds: number) {
@@ -78,62 +167,350 @@ export class DachiStreamService {
     
     this.cycleIntervalSeconds = intervalSeconds;
     
-    // Restart the interval with new timing
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = setInterval(() => {
-        this.processBuffer();
-      }, this.cycleIntervalSeconds * 1000);
-      
-      this.addLog("info", `Cycle interval updated to ${this.cycleIntervalSeconds} seconds`);
-      console.log(`DachiStream cycle interval updated to ${this.cycleIntervalSeconds} seconds`);
+    // A running cycle picks up the new interval when it schedules the next one
+    if (!this.stopped && !this.cycleRunning) {
+      this.scheduleNext();
     }
+    this.addLog("info", `Cycle interval updated to ${this.cycleIntervalSeconds} seconds`);
+    this.broadcastState();
+    console.log(`DachiStream cycle interval updated to ${this.cycleIntervalSeconds} seconds`);
   }
 
-  stop() {
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
+  /**
+   * Pick up changed adaptive cycle settings from the primary settings row.
+   */
+  configureAdaptive(settings: Settings) {
+    this.adaptive = adaptiveCycleOptionsFrom(settings);
+    if (!this.stopped && !this.cycleRunning) {
+      this.scheduleNext();
     }
+    this.addLog(
+      "info",
+      this.adaptive.enabled
+        ? `Adaptive cycle enabled (${this.adaptive.minIntervalSeconds}-${this.adaptive.maxIntervalSeconds}s, up to ${this.adaptive.maxRepliesPerCycle} replies)`
+        : `Adaptive cycle disabled (${this.cycleIntervalSeconds}s)`
+    );
+    this.broadcastState();
+  }
+
+  stop() {
+    this.stopped = true;
+    this.clearTimer();
+    this.nextCycleTime = null;
     this.addLog("info", "DachiStream service stopped");
     this.updateStatus("idle");
     console.log("DachiStream service stopped");
   }
 
-  pause() {
+  async pause() {
     this.isPaused = true;
+    await this.persistPaused(true);
     this.addLog("status", "DachiStream paused");
     this.updateStatus("paused");
     console.log("DachiStream paused");
   }
 
-  resume() {
+  async resume() {
     this.isPaused = false;
+    await this.persistPaused(false);
     this.addLog("status", "DachiStream resumed");
-    this.updateStatus("collecting");
+    // Whatever piled up while paused is stale by now
+    this.flushBuffer();
+    this.updateStatus(this.cycleRunning ? "processing" : "collecting");
     console.log("DachiStream resumed");
   }
 
+  // Stored on the primary settings row, the same one start() reads
+  private async persistPaused(paused: boolean) {
+    const [settings] = await this.storage.getSettings();
+    if (settings && settings.dachiastreamPaused !== paused) {
+      await this.storage.updateSettings(settings.id, { dachiastreamPaused: paused });
+    }
+  }
+
+  /**
+   * Run a cycle now instead of waiting for the timer. The next scheduled
+   * cycle is a full interval from now. Returns false if a cycle is already
+   * running.
+   */
+  triggerCycle(): boolean {
+    if (this.cycleRunning) return false;
+
+    this.clearTimer();
+    this.addLog("info", "Cycle triggered manually");
+    this.runCycle("manual").catch(error => this.logError("Error in DachiStream cycle", error));
+    return true;
+  }
+
+  // The next cycle is timed from the end of this one so slow LLM calls never overlap
+  private async runCycle(trigger: CycleTrigger = "timer") {
+    this.nextCycleTime = null;
+    try {
+      await this.processBuffer(trigger);
+    } finally {
+      this.scheduleNext();
+    }
+  }
+
+  private scheduleNext() {
+    this.clearTimer();
+    if (this.stopped) return;
+
+    this.scheduledAt = Date.now();
+    this.scheduledIntervalSeconds = this.currentIntervalSeconds();
+    this.scheduleAt(this.scheduledAt + this.scheduledIntervalSeconds * 1000);
+  }
+
+  private scheduleAt(time: number) {
+    this.clearTimer();
+    this.nextCycleTime = new Date(time);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.runCycle().catch(error => this.logError("Error in DachiStream cycle", error));
+    }, Math.max(0, time - Date.now()));
+    this.broadcastState();
+  }
+
+  private currentIntervalSeconds(): number {
+    return this.adaptive.enabled ? adaptiveIntervalSeconds(this.getVelocity(), this.adaptive) : this.cycleIntervalSeconds;
+  }
+
+  /**
+   * Chat velocity of the busiest channel, which sets the shared cycle interval.
+   */
+  getVelocity(): ChatVelocity {
+    let busiest = measureVelocity([]);
+    this.channels.forEach(queue => {
+      const velocity = measureVelocity(queue.activity);
+      if (velocity.load > busiest.load || (velocity.load === busiest.load && velocity.messagesPerMinute > busiest.messagesPerMinute)) {
+        busiest = velocity;
+      }
+    });
+    return busiest;
+  }
+
+  private repliesPerCycle(queue: ChannelQueue, settings: Settings): number {
+    const options = adaptiveCycleOptionsFrom(settings);
+    return options.enabled ? adaptiveRepliesPerCycle(measureVelocity(queue.activity), options) : 1;
+  }
+
+  private trackActivity(message: ChatMessage) {
+    const queue = this.queueFor(message.channel);
+    const now = Date.now();
+    queue.activity.push({ at: now, user: message.userId ?? message.username });
+    while (queue.activity.length > 0 && now - queue.activity[0].at >= VELOCITY_WINDOW_MS) {
+      queue.activity.shift();
+    }
+
+    // A raid shouldn't wait out an interval that was computed for a quiet chat
+    if (this.adaptive.enabled && this.timer && this.scheduledAt !== null && this.nextCycleTime) {
+      const interval = this.currentIntervalSeconds();
+      const due = this.scheduledAt + interval * 1000;
+      if (due < this.nextCycleTime.getTime() - 1000) {
+        this.scheduledIntervalSeconds = interval;
+        this.scheduleAt(Math.max(now, due));
+      }
+    }
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Drop the reply for the message the current cycle is working on. The
+   * cycle still finishes, but nothing is sent or held for review. Returns
+   * the skipped message, or null if no message is being answered.
+   */
+  skipCurrent(): ChatMessage | null {
+    const message = this.currentMessage;
+    if (!message) return null;
+
+    this.skippedMessageIds.add(message.id);
+    this.addLog("status", `Skipped reply to ${message.username}: "${message.message}"`, {
+      username: message.username,
+      channel: normalizeChannel(message.channel),
+    });
+    return message;
+  }
+
+  /**
+   * Whether the streamer skipped this message while its reply was being
+   * generated. Only answers true once per skip.
+   */
+  wasSkipped(message: ChatMessage): boolean {
+    return this.skippedMessageIds.delete(message.id);
+  }
+
+  /**
+   * Throw away buffered messages and queued support events, for one channel
+   * or all of them. Returns how many messages were dropped.
+   */
+  flushBuffer(channel?: string): number {
+    const queues = channel
+      ? [this.channels.get(normalizeChannel(channel))].filter((queue): queue is ChannelQueue => !!queue)
+      : Array.from(this.channels.values());
+
+    let dropped = 0;
+    for (const queue of queues) {
+      dropped += queue.buffer.messages.length;
+      this.clearChannelBuffer(queue.buffer);
+      queue.pendingSupportEvents = [];
+    }
+
+    this.addLog("status", `Buffer flushed${channel ? ` for ${normalizeChannel(channel)}` : ""} - ${dropped} messages dropped`);
+    this.broadcastState();
+    return dropped;
+  }
+
+  /**
+   * Switch the selection strategy for a channel's settings (the primary
+   * settings row without a channel). Takes effect on the next cycle.
+   */
+  async setStrategy(strategy: SelectionStrategy, channel?: string): Promise<Settings | undefined> {
+    const settings = channel
+      ? await this.storage.getSettingsForChannel(channel)
+      : (await this.storage.getSettings())[0];
+    if (!settings) return undefined;
+
+    const updated = await this.storage.updateSettings(settings.id, { dachiastreamSelectionStrategy: strategy });
+    this.addLog("status", `Selection strategy set to ${strategy}${channel ? ` for ${normalizeChannel(channel)}` : ""}`);
+    this.broadcastState();
+    return updated;
+  }
+
+  private queueFor(channel: string): ChannelQueue {
+    const name = normalizeChannel(channel);
+    let queue = this.channels.get(name);
+    if (!queue) {
+      queue = {
+        buffer: { messages: [], userMessageCounts: new Map() },
+        pendingSupportEvents: [],
+        activity: [],
+      };
+      this.channels.set(name, queue);
+    }
+    return queue;
+  }
+
   addMessage(message: ChatMessage) {
+    const { buffer } = this.queueFor(message.channel);
+    this.trackActivity(message);
+
     // Add to buffer
-    this.messageBuffer.messages.push(message);
+    buffer.messages.push(message);
     
     // Update user message count
     if (message.userId) {
-      const currentCount = this.messageBuffer.userMessageCounts.get(message.userId) || 0;
-      this.messageBuffer.userMessageCounts.set(message.userId, currentCount + 1);
+      const currentCount = buffer.userMessageCounts.get(message.userId) || 0;
+      buffer.userMessageCounts.set(message.userId, currentCount + 1);
     }
+
+    if (buffer.messages.length > this.maxBufferedMessages) {
+      for (const dropped of buffer.messages.splice(0, buffer.messages.length - this.maxBufferedMessages)) {
+        this.decrementUserCount(buffer, dropped);
+      }
+    }
+    
+    // Embed in the background so history is searchable when this user is picked later
+    this.embeddings.indexMessage(message).catch(error => {
+      console.error("Error embedding chat message:", error);
+    });
     
-    this.addLog("message", `Message added to buffer from ${message.username}`, { 
+    this.addLog("message", `Message added to ${message.channel} buffer from ${message.username}`, { 
       message: message.message,
-      bufferSize: this.messageBuffer.messages.length 
+      channel: normalizeChannel(message.channel),
+      bufferSize: buffer.messages.length 
     });
     this.broadcastState();
   }
 
-  private async processBuffer() {
+  /**
+   * Answer a message that addresses the bot by name or wake-word right away
+   * instead of waiting for the next cycle. Returns false when the message
+   * isn't a direct mention or the rate limit is hit - it should then go
+   * through the buffer like any other message.
+   */
+  respondToMention(message: ChatMessage, settings?: Settings | null): boolean {
+    if (!settings || !settings.dachipoolEnabled || !settings.dachiastreamMentionFastPath || this.isPaused) {
+      return false;
+    }
+    if (message.eventType !== "chat" || message.message.startsWith("!")) return false;
+    if (!botNames(settings).some(name => mentions(message.message, name))) return false;
+
+    const channel = normalizeChannel(message.channel);
+    const now = Date.now();
+    const recent = (this.mentionReplies.get(channel) || []).filter(at => now - at < 60 * 1000);
+    const userKey = `${channel}:${message.userId ?? message.username}`;
+    const lastForUser = this.lastMentionReplyByUser.get(userKey) || 0;
+
+    if (recent.length >= settings.dachiastreamMentionRepliesPerMinute || now - lastForUser < this.mentionUserCooldownMs) {
+      this.mentionReplies.set(channel, recent);
+      this.addLog("info", `Direct mention from ${message.username} rate limited - added to buffer`);
+      return false;
+    }
+
+    recent.push(now);
+    this.mentionReplies.set(channel, recent);
+    this.lastMentionReplyByUser.forEach((at, key) => {
+      if (now - at >= this.mentionUserCooldownMs) this.lastMentionReplyByUser.delete(key);
+    });
+    this.lastMentionReplyByUser.set(userKey, now);
+
+    this.addLog("selection", `Direct mention from ${message.username}: "${message.message}"`, {
+      username: message.username,
+      message: message.message,
+      channel,
+      strategy: "direct_mention",
+    });
+    this.setSelected(message);
+    this.trackActivity(message);
+
+    this.replyToMention(message, settings).catch(error => {
+      this.logError("Error answering direct mention", error);
+    });
+    return true;
+  }
+
+  private async replyToMention(message: ChatMessage, settings: Settings) {
+    // Still searchable for later personalization even though it skips the buffer
+    this.embeddings.indexMessage(message).catch(error => {
+      console.error("Error embedding chat message:", error);
+    });
+
+    const context = await this.buildAIContext(message, settings);
+    const directContext =
+      `DIRECT MENTION: ${message.username} is talking to you directly - answer them.` +
+      (context ? `\n\n${context}` : "");
+
+    if (this.onMessageSelected) {
+      await this.onMessageSelected(message, directContext);
+    }
+  }
+
+  addSupportEvent(message: ChatMessage) {
+    const queue = this.queueFor(message.channel);
+    queue.pendingSupportEvents.push(message);
+    if (queue.pendingSupportEvents.length > this.maxPendingSupportEvents) {
+      queue.pendingSupportEvents = queue.pendingSupportEvents.slice(-this.maxPendingSupportEvents);
+    }
+
+    this.addLog("message", `Support event (${message.eventType}) queued from ${message.username}`, {
+      message: message.message,
+      channel: normalizeChannel(message.channel),
+      pendingSupportEvents: queue.pendingSupportEvents.length,
+    });
+    this.broadcastState();
+  }
+
+  private async processBuffer(trigger: CycleTrigger) {
+    if (this.cycleRunning) return;
+
     this.lastCycleTime = new Date();
-    this.addLog("info", `Processing cycle started - ${this.messageBuffer.messages.length} messages in buffer`);
+    this.addLog("info", `Processing cycle started - ${this.getTotalBufferCount()} messages in buffer`);
     
     // Skip if paused or no messages
     if (this.isPaused) {
@@ -141,70 +518,178 @@ export class DachiStreamService {
       this.updateStatus("paused");
       return;
     }
+
+    const activeChannels = Array.from(this.channels.entries()).filter(
+      ([, queue]) => queue.buffer.messages.length > 0 || queue.pendingSupportEvents.length > 0
+    );
     
-    if (this.messageBuffer.messages.length === 0) {
+    if (activeChannels.length === 0) {
       this.addLog("info", "Cycle skipped - no messages in buffer");
       this.updateStatus("collecting");
       this.broadcastState();
       return;
     }
 
+    this.cycleRunning = true;
+    try {
+      for (const [channel, queue] of activeChannels) {
+        await this.processChannel(channel, queue, trigger);
+      }
+    } finally {
+      this.cycleRunning = false;
+      this.skippedMessageIds.clear();
+      if (this.isPaused) this.updateStatus("paused");
+    }
+  }
+
+  private async processChannel(channel: string, queue: ChannelQueue, trigger: CycleTrigger) {
+    let cycleId: string | null = null;
+    const outcome: { status: DachiStreamCycleStatus; error: string | null; selectedMessageId: string | null; replyCount: number } = {
+      status: "completed",
+      error: null,
+      selectedMessageId: null,
+      replyCount: 0,
+    };
+
     try {
       this.updateStatus("processing");
       
-      // Get current settings (returns array, take first)
-      const allSettings = await this.storage.getSettings();
-      const settings = allSettings[0];
+      const settings = await this.storage.getSettingsForChannel(channel);
+
+      const cycle = await this.saveHistory(() =>
+        this.storage.createDachiStreamCycle({
+          channel,
+          trigger,
+          strategy: settings?.dachiastreamSelectionStrategy || "most_active",
+          bufferSize: queue.buffer.messages.length,
+          uniqueChatters: queue.buffer.userMessageCounts.size,
+          pendingSupportEvents: queue.pendingSupportEvents.length,
+        })
+      );
+      cycleId = cycle?.id ?? null;
       
       if (!settings || !settings.dachipoolEnabled) {
-        this.addLog("status", "DachiPool is disabled - clearing buffer");
+        this.addLog("status", `DachiPool is disabled for ${channel} - clearing buffer`);
         this.updateStatus("disabled");
-        this.clearBuffer();
+        queue.pendingSupportEvents = [];
+        outcome.status = "disabled";
         return;
       }
 
-      this.updateStatus("selecting_message");
-      this.addLog("info", `Using selection strategy: ${settings.dachiastreamSelectionStrategy}`);
-      
-      // Select message based on strategy
-      const selectedMessage = await this.selectMessage(
-        settings.dachiastreamSelectionStrategy as SelectionStrategy
-      );
+      const replies = this.repliesPerCycle(queue, settings);
+      if (replies > 1) {
+        this.addLog("info", `Adaptive cycle: up to ${replies} replies for ${channel}`);
+      }
 
-      if (selectedMessage) {
-        this.addLog("selection", `Selected message from ${selectedMessage.username}: "${selectedMessage.message}"`, {
-          username: selectedMessage.username,
-          message: selectedMessage.message,
-          strategy: settings.dachiastreamSelectionStrategy
-        });
-        
-        this.updateStatus("building_context");
-        // Build AI context
-        const context = await this.buildAIContext(selectedMessage, settings);
-        this.addLog("info", "AI context built successfully");
-
-        this.updateStatus("waiting_for_ai");
-        // Trigger AI response callback
-        if (this.onMessageSelected) {
-          await this.onMessageSelected(selectedMessage, context);
+      // Chat picks come from a working copy so each reply goes to a different user
+      const remaining: MessageBuffer = {
+        messages: [...queue.buffer.messages],
+        userMessageCounts: new Map(queue.buffer.userMessageCounts),
+      };
+      if (!settings.dachiastreamPrioritizeSupporters) {
+        queue.pendingSupportEvents = [];
+      }
+
+      for (let reply = 0; reply < replies; reply++) {
+        this.updateStatus("selecting_message");
+
+        let selectedMessage: ChatMessage | null = null;
+        if (settings.dachiastreamPrioritizeSupporters && queue.pendingSupportEvents.length > 0) {
+          // Thank supporters first, oldest first
+          selectedMessage = queue.pendingSupportEvents.shift()!;
+          this.addLog("info", `Prioritizing ${selectedMessage.eventType} event (${queue.pendingSupportEvents.length} more queued)`);
+        } else {
+          this.addLog("info", `Using selection strategy for ${channel}: ${settings.dachiastreamSelectionStrategy}`);
+          
+          // Select message based on strategy
+          selectedMessage = await this.selectMessage(
+            settings.dachiastreamSelectionStrategy as SelectionStrategy,
+            remaining,
+            settings
+          );
+          if (selectedMessage) {
+            this.removeUserMessages(remaining, selectedMessage);
+          }
+        }
+
+        if (!selectedMessage) {
+          if (reply === 0) {
+            this.addLog("info", "No message selected from buffer");
+            outcome.status = "no_selection";
+          }
+          break;
+        }
+
+        if (!outcome.selectedMessageId) outcome.selectedMessageId = selectedMessage.id;
+        if (await this.answerSelected(selectedMessage, channel, settings, cycleId)) {
+          outcome.replyCount++;
         }
-      } else {
-        this.addLog("info", "No message selected from buffer");
       }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      this.addLog("error", `Error processing DachiStream buffer: ${errorMessage}`, { error });
-      console.error("Error processing DachiStream buffer:", error);
+      this.logError("Error processing DachiStream buffer", error);
+      outcome.status = "error";
+      outcome.error = error instanceof Error ? error.message : String(error);
     } finally {
+      if (cycleId) {
+        const id = cycleId;
+        await this.saveHistory(() => this.storage.updateDachiStreamCycle(id, { ...outcome, finishedAt: new Date() }));
+      }
+      this.currentMessage = null;
       // Clear buffer for next cycle
-      this.clearBuffer();
+      this.clearChannelBuffer(queue.buffer);
       this.updateStatus("collecting");
-      this.addLog("info", "Buffer cleared - waiting for next cycle");
+      this.addLog("info", `Buffer cleared for ${channel} - waiting for next cycle`);
     }
   }
 
-  private async selectMessage(strategy: SelectionStrategy): Promise<ChatMessage | null> {
-    const { messages } = this.messageBuffer;
+  /**
+   * Build context and hand the message to the reply callback. Returns false
+   * if the streamer skipped it first.
+   */
+  private async answerSelected(selectedMessage: ChatMessage, channel: string, settings: Settings, cycleId: string | null): Promise<boolean> {
+    this.addLog("selection", `Selected message from ${selectedMessage.username}: "${selectedMessage.message}"`, {
+      username: selectedMessage.username,
+      message: selectedMessage.message,
+      channel,
+      strategy: settings.dachiastreamSelectionStrategy
+    });
+    
+    this.currentMessage = selectedMessage;
+    this.setSelected(selectedMessage);
+    this.updateStatus("building_context");
+    // Build AI context
+    const context = await this.buildAIContext(selectedMessage, settings);
+    this.addLog("info", "AI context built successfully");
+
+    if (this.skippedMessageIds.has(selectedMessage.id)) {
+      this.addLog("info", "Reply skipped before generation");
+      this.currentMessage = null;
+      return false;
+    }
+
+    this.updateStatus("waiting_for_ai");
+    if (cycleId) this.cycleIdByMessage.set(selectedMessage.id, cycleId);
+    try {
+      // Trigger AI response callback
+      if (this.onMessageSelected) {
+        await this.onMessageSelected(selectedMessage, context);
+      }
+    } finally {
+      this.cycleIdByMessage.delete(selectedMessage.id);
+      this.currentMessage = null;
+    }
+    return true;
+  }
+
+  private removeUserMessages(buffer: MessageBuffer, answered: ChatMessage) {
+    const sameUser = (message: ChatMessage) =>
+      answered.userId ? message.userId === answered.userId : message.username === answered.username;
+    buffer.messages = buffer.messages.filter(message => !sameUser(message));
+    if (answered.userId) buffer.userMessageCounts.delete(answered.userId);
+  }
+
+  private async selectMessage(strategy: SelectionStrategy, buffer: MessageBuffer, settings: Settings): Promise<ChatMessage | null> {
+    const { messages } = buffer;
     
     if (messages.length === 0) {
       return null;
@@ -216,7 +701,7 @@ export class DachiStreamService {
         let maxCount = 0;
         let mostActiveUserId: string | null = null;
 
-        const entries = Array.from(this.messageBuffer.userMessageCounts.entries());
+        const entries = Array.from(buffer.userMessageCounts.entries());
         for (const [userId, count] of entries) {
           if (count > maxCount) {
             maxCount = count;
@@ -244,14 +729,10 @@ export class DachiStreamService {
       }
 
       case "new_chatter": {
-        // Prioritize users who haven't spoken much overall
-        const userProfiles = await this.storage.getAllUserProfiles();
-        const userInsights = await this.storage.getAllUserInsights();
-        
-        // Map userId to total message count
+        // Prioritize users who haven't spoken much overall - only the users in this buffer are looked up
         const totalMessageCounts = new Map<string, number>();
-        for (const insight of userInsights) {
-          totalMessageCounts.set(insight.userId, insight.totalMessages);
+        for (const userId of Array.from(buffer.userMessageCounts.keys())) {
+          totalMessageCounts.set(userId, await this.storage.countMessagesByUser(userId));
         }
 
         // Find message from user with lowest total messages
@@ -271,6 +752,18 @@ export class DachiStreamService {
         return selectedMessage;
       }
 
+      case "smart": {
+        const best = pickBestScored(await scoreMessages(this.storage, messages, settings));
+        if (!best) return null;
+
+        const { score, ...message } = best;
+        this.addLog("info", `Smart selection: ${message.username} scored ${score.total.toFixed(2)}`, {
+          total: score.total,
+          factors: score.factors,
+        });
+        return message;
+      }
+
       default:
         return messages[messages.length - 1];
     }
@@ -279,6 +772,14 @@ export class DachiStreamService {
   private async buildAIContext(message: ChatMessage, settings: Settings): Promise<string> {
     const contextParts: string[] = [];
 
+    // Support events (subs, cheers, gifts) should be answered with a thank-you
+    if (message.eventType !== "chat") {
+      contextParts.push(
+        `SUPPORT EVENT (${message.eventType}): ${message.message}\n` +
+        `Thank ${message.username} warmly by name for their support.`
+      );
+    }
+
     // Add streamer voice-only mode info
     if (settings.streamerVoiceOnlyMode) {
       contextParts.push("STREAMER VOICE-ONLY MODE: Only respond if the streamer has spoken recently.");
@@ -297,19 +798,41 @@ export class DachiStreamService {
       try {
         const userInsight = await this.storage.getUserInsight(message.userId);
         if (userInsight && userInsight.summary) {
-          contextParts.push(`USER PERSONALITY (${message.username}): ${userInsight.summary}`);
+          contextParts.push(`USER PERSONALITY (${message.username}): ${describeUserInsight(userInsight)}`);
         }
       } catch (error) {
         console.error("Error fetching user insight:", error);
       }
+
+      try {
+        const relevant = await this.embeddings.findRelevantMessages(message);
+        if (relevant.length > 0) {
+          const lines = relevant.map(({ message: past }) => `- (${timeAgo(past.timestamp)}) "${past.message}"`);
+          contextParts.push(
+            `RELEVANT PAST MESSAGES FROM ${message.username} (reference naturally if it fits, e.g. "you mentioned..."):\n` +
+            lines.join("\n")
+          );
+        }
+      } catch (error) {
+        console.error("Error retrieving relevant user history:", error);
+      }
+    }
+
+    // What the bot already said here, and what chat talked about earlier
+    try {
+      const memoryContext = await this.memory.buildMemoryContext(message);
+      if (memoryContext) {
+        contextParts.push(memoryContext);
+      }
+    } catch (error) {
+      console.error("Error building conversation memory context:", error);
     }
 
-    // Add recent chat context (last 10 messages)
+    // Add recent chat context (last 10 messages in this channel, oldest first)
     try {
-      const recentMessages = await this.storage.getChatMessages(10);
+      const recentMessages = await this.storage.getChatMessages(10, message.channel);
       if (recentMessages.length > 0) {
         const chatHistory = recentMessages
-          .reverse()
           .map(msg => `${msg.username}: ${msg.message}`)
           .join("\n");
         contextParts.push(`RECENT CHAT:\n${chatHistory}`);
@@ -321,15 +844,42 @@ export class DachiStreamService {
     return contextParts.join("\n\n");
   }
 
-  private clearBuffer() {
-    this.messageBuffer.messages = [];
-    this.messageBuffer.userMessageCounts.clear();
+  private decrementUserCount(buffer: MessageBuffer, message: ChatMessage) {
+    if (!message.userId) return;
+    const count = (buffer.userMessageCounts.get(message.userId) || 0) - 1;
+    if (count > 0) {
+      buffer.userMessageCounts.set(message.userId, count);
+    } else {
+      buffer.userMessageCounts.delete(message.userId);
+    }
+  }
+
+  private clearChannelBuffer(buffer: MessageBuffer) {
+    buffer.messages = [];
+    buffer.userMessageCounts.clear();
+  }
+
+  private getTotalBufferCount(): number {
+    let total = 0;
+    this.channels.forEach(queue => {
+      total += queue.buffer.messages.length;
+    });
+    return total;
   }
 
   getBufferStatus() {
+    const channels = Array.from(this.channels.entries()).map(([channel, queue]) => ({
+      channel,
+      messageCount: queue.buffer.messages.length,
+      userCount: queue.buffer.userMessageCounts.size,
+      pendingSupportEvents: queue.pendingSupportEvents.length,
+    }));
+
     return {
-      messageCount: this.messageBuffer.messages.length,
-      userCount: this.messageBuffer.userMessageCounts.size,
+      messageCount: channels.reduce((sum, c) => sum + c.messageCount, 0),
+      userCount: channels.reduce((sum, c) => sum + c.userCount, 0),
+      pendingSupportEvents: channels.reduce((sum, c) => sum + c.pendingSupportEvents, 0),
+      channels,
       isPaused: this.isPaused,
     };
   }
@@ -348,6 +898,15 @@ export class DachiStreamService {
     if (this.logs.length > this.maxLogs) {
       this.logs = this.logs.slice(-this.maxLogs);
     }
+
+    this.onLog?.(log);
+  }
+
+  // A new pick starts with a clean reply/error in the reported state
+  private setSelected(message: ChatMessage) {
+    this.selectedMessage = message;
+    this.lastResponse = null;
+    this.lastError = null;
   }
   
   private updateStatus(status: DachiStreamStatus) {
@@ -362,21 +921,25 @@ export class DachiStreamService {
   }
   
   getState(): DachiStreamState {
-    const nextCycleTime = this.lastCycleTime ? new Date(this.lastCycleTime.getTime() + 15000) : null;
-    const now = new Date();
-    const secondsUntilNextCycle = nextCycleTime 
-      ? Math.max(0, Math.floor((nextCycleTime.getTime() - now.getTime()) / 1000))
-      : 15;
+    const secondsUntilNextCycle = this.nextCycleTime
+      ? Math.max(0, Math.ceil((this.nextCycleTime.getTime() - Date.now()) / 1000))
+      : 0;
+    const velocity = this.getVelocity();
     
     return {
       status: this.currentStatus,
-      bufferCount: this.messageBuffer.messages.length,
+      paused: this.isPaused,
+      bufferCount: this.getTotalBufferCount(),
       lastCycleTime: this.lastCycleTime,
-      nextCycleTime,
+      nextCycleTime: this.nextCycleTime,
       secondsUntilNextCycle,
-      selectedMessage: null,
-      aiResponse: null,
-      error: null,
+      cycleIntervalSeconds: this.nextCycleTime ? this.scheduledIntervalSeconds : this.currentIntervalSeconds(),
+      adaptive: this.adaptive.enabled,
+      velocity,
+      repliesPerCycle: this.adaptive.enabled ? adaptiveRepliesPerCycle(velocity, this.adaptive) : 1,
+      selectedMessage: this.selectedMessage,
+      aiResponse: this.lastResponse,
+      error: this.lastError,
     };
   }
   
@@ -384,15 +947,158 @@ export class DachiStreamService {
     return [...this.logs];
   }
   
-  getBufferMessages(): ChatMessage[] {
-    return [...this.messageBuffer.messages];
+  getBufferMessages(channel?: string): ChatMessage[] {
+    if (channel) {
+      return [...(this.channels.get(normalizeChannel(channel))?.buffer.messages || [])];
+    }
+
+    const messages: ChatMessage[] = [];
+    this.channels.forEach(queue => messages.push(...queue.buffer.messages));
+    return messages.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
   }
   
+  /**
+   * Buffered messages with the smart strategy's score breakdown, scored
+   * against each channel's own settings.
+   */
+  async getScoredBufferMessages(channel?: string): Promise<ScoredMessage[]> {
+    const names = channel ? [normalizeChannel(channel)] : Array.from(this.channels.keys());
+    const scored: ScoredMessage[] = [];
+    for (const name of names) {
+      const messages = this.channels.get(name)?.buffer.messages || [];
+      if (messages.length === 0) continue;
+      const settings = await this.storage.getSettingsForChannel(name);
+      scored.push(...(await scoreMessages(this.storage, [...messages], settings)));
+    }
+    return scored.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }
+
+  /**
+   * Remember a reply the bot made so later cycles can build on it.
+   */
+  async rememberReply(message: ChatMessage, response: string) {
+    try {
+      await this.memory.recordReply(message, response);
+    } catch (error) {
+      console.error("Error saving DachiStream reply to memory:", error);
+    }
+  }
+
+  /**
+   * Generate a reply in the channel's current persona and run it through
+   * the output safety filter. Replies that fail are logged with the reason
+   * and regenerated or dropped per settings. Every generation is stored in
+   * ai_replies, including blocked ones; the reply text is empty when there
+   * is nothing safe to send.
+   */
+  async generateReply(target: ReplyTarget, context: string, settings: Settings, source?: AiReplySource): Promise<GeneratedReply> {
+    const { persona, reason } = await resolvePersona(this.storage, target.channel, settings);
+    const channel = normalizeChannel(target.channel);
+    if (this.personaByChannel.get(channel) !== persona.name) {
+      this.personaByChannel.set(channel, persona.name);
+      this.addLog("info", `Persona for ${channel}: ${persona.name} (${reason})`, { persona: persona.name, reason });
+    }
+
+    const options = dachiStreamSettingsFrom(settings, persona);
+    const cycleId = target.id ? this.cycleIdByMessage.get(target.id) ?? null : null;
+    const attempts: DachiStreamCompletion[] = [];
+    let blockedReason = null as string | null;
+
+    const reply = await generateSafeReply(
+      async safetyNote => {
+        const completion = await generateDachiStreamCompletion(
+          target.message,
+          safetyNote ? `${context}\n\n${safetyNote}` : context,
+          options
+        );
+        attempts.push(completion);
+        return completion.reply;
+      },
+      settings,
+      (reply, reasons, retrying) => {
+        if (!retrying) blockedReason = `Blocked by safety filter: ${reasons.join("; ")}`;
+        this.addLog(
+          "safety",
+          `Reply ${retrying ? "regenerating" : "blocked"} - ${reasons.join("; ")}`,
+          { reply, reasons, retrying }
+        );
+      },
+      persona
+    );
+
+    const last = attempts[attempts.length - 1];
+    const saved = await this.saveHistory(() =>
+      this.storage.createAiReply({
+        cycleId,
+        channel: target.channel,
+        messageId: target.id ?? null,
+        source: source ?? (cycleId ? "cycle" : "mention"),
+        inReplyTo: target.message,
+        context,
+        model: last?.model ?? options.model,
+        temperature: options.temperature,
+        latencyMs: attempts.reduce((sum, attempt) => sum + attempt.latencyMs, 0),
+        promptTokens: sumTokens(attempts, "promptTokens"),
+        completionTokens: sumTokens(attempts, "completionTokens"),
+        totalTokens: sumTokens(attempts, "totalTokens"),
+        reply: reply || last?.reply || "",
+        error: reply ? null : blockedReason ?? last?.error ?? null,
+      })
+    );
+
+    return { reply, aiReplyId: saved?.id ?? null };
+  }
+
+  /**
+   * Mark a stored reply as having reached Twitch chat.
+   */
+  async markReplySent(aiReplyId: string | null) {
+    if (!aiReplyId) return;
+    await this.saveHistory(() => this.storage.updateAiReply(aiReplyId, { sentToChat: true }));
+  }
+
+  // History is best-effort; a database hiccup must not stop replies
+  private async saveHistory<T>(save: () => Promise<T>): Promise<T | null> {
+    try {
+      return await save();
+    } catch (error) {
+      console.error("Error saving DachiStream history:", error);
+      return null;
+    }
+  }
+
   logAIResponse(response: string) {
+    this.lastResponse = response;
     this.addLog("ai_response", `AI Response generated: ${response.substring(0, 100)}${response.length > 100 ? '...' : ''}`, {
       fullResponse: response,
       length: response.length
     });
     this.broadcastState();
   }
+
+  /**
+   * Record an error from the reply pipeline so it shows in the log and state.
+   */
+  logError(context: string, error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    this.lastError = errorMessage;
+    this.addLog("error", `${context}: ${errorMessage}`, { error });
+    this.broadcastState();
+    console.error(`${context}:`, error);
+  }
+}
+
+// Null when the provider reported no usage for any attempt
+function sumTokens(attempts: DachiStreamCompletion[], key: "promptTokens" | "completionTokens" | "totalTokens"): number | null {
+  const reported = attempts.filter(attempt => attempt.usage);
+  return reported.length > 0 ? reported.reduce((sum, attempt) => sum + attempt.usage![key], 0) : null;
+}
+
+function timeAgo(timestamp: Date): string {
+  const minutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  return days < 14 ? `${days} days ago` : `${Math.floor(days / 7)} weeks ago`;
 }
@@ -6,27 +6,39 @@ import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
-}
+function createDb() {
+  if (!process.env.DATABASE_URL) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database? (Set STORAGE_MODE=memory to run without one)",
+    );
+  }
+
+  const pool = new Pool({ 
+    connectionString: process.env.DATABASE_URL,
+    max: 10,
+    idleTimeoutMillis: 30000,
+    connectionTimeoutMillis: 10000,
+  });
 
-export const pool = new Pool({ 
-  connectionString: process.env.DATABASE_URL,
-  max: 10,
-  idleTimeoutMillis: 30000,
-  connectionTimeoutMillis: 10000,
-});
+  // Handle pool errors gracefully
+  pool.on('error', (err) => {
+    console.error('Unexpected database error on idle client', err);
+  });
 
-// Handle pool errors gracefully
-pool.on('error', (err) => {
-  console.error('Unexpected database error on idle client', err);
-});
+  // Handle connection errors
+  pool.on('connect', () => {
+    console.log('Database connection established');
+  });
 
-// Handle connection errors
-pool.on('connect', () => {
-  console.log('Database connection established');
-});
+  return drizzle({ client: pool, schema });
+}
 
-export const db = drizzle({ client: pool, schema });
+let dbInstance: ReturnType<typeof createDb> | null = null;
+
+// The pool is only created on first use so in-memory mode never needs DATABASE_URL
+export function getDb() {
+  if (!dbInstance) {
+    dbInstance = createDb();
+  }
+  return dbInstance;
+}
@@ -0,0 +1,256 @@
+import OpenAI from "openai";
+import type { IStorage } from "./storage";
+import type { ChatMessage, Settings } from "@shared/schema";
+import { VectorIndex } from "./vector-index";
+
+export type EmbeddingProviderName = "local" | "openai_compatible" | "off";
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string; // Stored with each vector; vectors of different models never mix
+  readonly minSimilarity: number; // Below this a match is treated as unrelated
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const HASH_DIMENSIONS = 512;
+
+const STOPWORDS = new Set([
+  "the", "a", "an", "and", "or", "but", "is", "are", "was", "were", "be", "to", "of", "in", "on",
+  "at", "for", "with", "it", "its", "this", "that", "i", "im", "you", "u", "me", "my", "your",
+  "we", "so", "just", "do", "did", "have", "has", "had", "what", "how", "lol", "oh", "yeah",
+]);
+
+/**
+ * Pure-TS feature hashing of words and word pairs. No model download and no
+ * network - it matches shared vocabulary ("my cat" ~ "cats are great") rather
+ * than meaning, which is enough to surface topics a chatter keeps coming back to.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "local" as const;
+  readonly model = `hashing-${HASH_DIMENSIONS}`;
+  readonly minSimilarity = 0.2;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(HASH_DIMENSIONS).fill(0);
+    const words = text
+      .toLowerCase()
+      .split(/[^a-z0-9\u00c0-\uffff']+/)
+      .map(word => word.replace(/'/g, ""))
+      .filter(word => word.length > 1 && !STOPWORDS.has(word))
+      .map(word => (word.length > 3 && word.endsWith("s") ? word.slice(0, -1) : word));
+
+    // Word pairs count half so one shared word still registers in short messages
+    const features: [string, number][] = [
+      ...words.map((word): [string, number] => [word, 1]),
+      ...words.slice(1).map((word, i): [string, number] => [`${words[i]} ${word}`, 0.5]),
+    ];
+    for (const [feature, weight] of features) {
+      const hash = fnv1a(feature);
+      // The top bit picks the sign so colliding features tend to cancel out
+      vector[hash % HASH_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm === 0 ? vector : vector.map(v => v / norm);
+  }
+}
+
+/**
+ * Any server exposing /v1/embeddings, e.g. Ollama with nomic-embed-text.
+ */
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai_compatible" as const;
+  readonly minSimilarity = 0.55;
+  private client: OpenAI;
+
+  constructor(baseUrl: string, readonly model: string, apiKey?: string | null) {
+    this.client = new OpenAI({
+      baseURL: baseUrl,
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: apiKey || process.env.LLM_API_KEY || "not-needed",
+    });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({ model: this.model, input: texts });
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+/**
+ * Provider from a settings row, or null when embeddings are turned off.
+ * A remote provider without an endpoint falls back to local hashing.
+ */
+export function createEmbeddingProvider(settings?: Settings | null): EmbeddingProvider | null {
+  switch (settings?.embeddingProvider) {
+    case "off":
+      return null;
+    case "openai_compatible": {
+      const baseUrl = settings.embeddingBaseUrl || settings.llmBaseUrl;
+      if (baseUrl) {
+        return new OpenAICompatibleEmbeddingProvider(baseUrl, settings.embeddingModel || "nomic-embed-text");
+      }
+      console.warn("Embedding endpoint not configured, using local hashing embeddings");
+      return new HashingEmbeddingProvider();
+    }
+    case "local":
+    default:
+      return new HashingEmbeddingProvider();
+  }
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+interface EmbeddedMessageMeta {
+  userId: string;
+  timestamp: number;
+}
+
+export interface RelevantMessage {
+  message: ChatMessage;
+  score: number;
+}
+
+// Short messages ("lol", "gg") carry no topic worth remembering
+const MIN_WORDS = 3;
+// The last few minutes are already in RECENT CHAT
+const RECENT_EXCLUDE_MS = 10 * 60 * 1000;
+// Embed this much of a user's history the first time they are looked up
+const BACKFILL_MESSAGES = 100;
+const BACKFILL_CHUNK = 32;
+// Past this the index is dropped and users are reloaded on demand
+const MAX_INDEXED_VECTORS = 20000;
+
+/**
+ * Embeds chat messages as they arrive and finds a user's past messages that
+ * relate to what they just said, for personalizing DachiStream replies.
+ */
+export class MessageEmbeddingService {
+  private storage: IStorage;
+  private provider: EmbeddingProvider | null = new HashingEmbeddingProvider();
+  private index = new VectorIndex<EmbeddedMessageMeta>();
+  private loadedUsers: Set<string> = new Set();
+
+  constructor(storage: IStorage) {
+    this.storage = storage;
+  }
+
+  configure(settings?: Settings | null) {
+    const provider = createEmbeddingProvider(settings);
+    if (provider?.model !== this.provider?.model || provider?.name !== this.provider?.name) {
+      this.index.clear();
+      this.loadedUsers.clear();
+    }
+    this.provider = provider;
+  }
+
+  getStatus() {
+    return {
+      provider: this.provider?.name ?? "off",
+      model: this.provider?.model ?? null,
+      indexedVectors: this.index.size,
+      loadedUsers: this.loadedUsers.size,
+    };
+  }
+
+  async indexMessage(message: ChatMessage) {
+    const provider = this.provider;
+    if (!provider || !message.userId || !isIndexable(message)) return;
+
+    const [vector] = await provider.embed([message.message]);
+    await this.store(provider, message, vector);
+  }
+
+  /**
+   * The user's past messages most similar to this one, best match first.
+   */
+  async findRelevantMessages(message: ChatMessage, limit: number = 3): Promise<RelevantMessage[]> {
+    const provider = this.provider;
+    if (!provider || !message.userId || !isIndexable(message)) return [];
+
+    await this.ensureUserLoaded(provider, message.userId);
+
+    const [query] = await provider.embed([message.message]);
+    const cutoff = new Date(message.timestamp).getTime() - RECENT_EXCLUDE_MS;
+    const matches = this.index.search(query, {
+      limit,
+      minScore: provider.minSimilarity,
+      filter: (meta, id) => meta.userId === message.userId && id !== message.id && meta.timestamp < cutoff,
+    });
+
+    const results: RelevantMessage[] = [];
+    for (const match of matches) {
+      const past = await this.storage.getChatMessageById(match.id);
+      if (past) {
+        results.push({ message: past, score: match.score });
+      }
+    }
+    return results;
+  }
+
+  private async store(provider: EmbeddingProvider, message: ChatMessage, vector: number[]) {
+    await this.storage.saveMessageEmbedding({
+      messageId: message.id,
+      userId: message.userId!,
+      channel: message.channel,
+      model: provider.model,
+      // 4 decimals is plenty for cosine ranking and keeps rows small
+      vector: vector.map(v => Math.round(v * 10000) / 10000),
+      messageTimestamp: message.timestamp,
+    });
+
+    if (this.loadedUsers.has(message.userId!)) {
+      this.addToIndex(message.id, vector, message.userId!, message.timestamp);
+    }
+  }
+
+  private addToIndex(id: string, vector: number[], userId: string, timestamp: Date) {
+    if (this.index.size >= MAX_INDEXED_VECTORS && !this.index.has(id)) {
+      this.index.clear();
+      this.loadedUsers.clear();
+      return;
+    }
+    this.index.add(id, vector, { userId, timestamp: new Date(timestamp).getTime() });
+  }
+
+  private async ensureUserLoaded(provider: EmbeddingProvider, userId: string) {
+    if (this.loadedUsers.has(userId)) return;
+
+    const stored = await this.storage.getMessageEmbeddingsByUser(userId, provider.model);
+    const embedded = new Set(stored.map(embedding => embedding.messageId));
+    this.loadedUsers.add(userId);
+    for (const embedding of stored) {
+      this.addToIndex(embedding.messageId, embedding.vector, userId, embedding.messageTimestamp);
+    }
+
+    // History from before embeddings were enabled (or under another model)
+    const history = (await this.storage.getMessagesByUser(userId, BACKFILL_MESSAGES)).filter(
+      message => isIndexable(message) && !embedded.has(message.id)
+    );
+    for (let i = 0; i < history.length; i += BACKFILL_CHUNK) {
+      const chunk = history.slice(i, i + BACKFILL_CHUNK);
+      const vectors = await provider.embed(chunk.map(message => message.message));
+      for (let j = 0; j < chunk.length; j++) {
+        await this.store(provider, chunk[j], vectors[j]);
+      }
+    }
+  }
+}
+
+function isIndexable(message: ChatMessage): boolean {
+  if (message.eventType !== "chat" || message.message.startsWith("!")) return false;
+  return message.message.trim().split(/\s+/).length >= MIN_WORDS;
+}
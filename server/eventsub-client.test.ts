@@ -0,0 +1,168 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { WebSocketServer, type WebSocket } from "ws";
+import { EventSubClient, type EventSubNotification } from "./eventsub-client";
+
+// A stand-in for Twitch: an EventSub WebSocket plus the Helix subscriptions endpoint
+async function startMockTwitch() {
+  const subscriptions: { authorization?: string; body: any }[] = [];
+  const sockets: WebSocket[] = [];
+
+  const http: Server = createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => {
+      subscriptions.push({ authorization: req.headers.authorization, body: JSON.parse(body) });
+      res.writeHead(202, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ data: [] }));
+    });
+  });
+  await new Promise<void>(resolve => http.listen(0, "127.0.0.1", resolve));
+
+  const wss = new WebSocketServer({ port: 0, host: "127.0.0.1" });
+  await new Promise<void>(resolve => wss.once("listening", resolve));
+  wss.on("connection", socket => sockets.push(socket));
+
+  return {
+    websocketUrl: `ws://127.0.0.1:${(wss.address() as AddressInfo).port}`,
+    subscriptionsUrl: `http://127.0.0.1:${(http.address() as AddressInfo).port}/eventsub/subscriptions`,
+    subscriptions,
+    sockets,
+    send(data: unknown) {
+      const raw = typeof data === "string" ? data : JSON.stringify(data);
+      sockets.forEach(socket => socket.send(raw));
+    },
+    async close() {
+      sockets.forEach(socket => socket.terminate());
+      await new Promise(resolve => wss.close(resolve));
+      await new Promise(resolve => http.close(resolve));
+    },
+  };
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 2000) {
+  const started = Date.now();
+  while (!check()) {
+    if (Date.now() - started > timeoutMs) throw new Error("Timed out waiting for condition");
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+function welcome(sessionId: string) {
+  return {
+    metadata: { message_id: `welcome-${sessionId}`, message_type: "session_welcome", message_timestamp: new Date().toISOString() },
+    payload: { session: { id: sessionId, status: "connected", keepalive_timeout_seconds: 10, reconnect_url: null } },
+  };
+}
+
+function notification(messageId: string, type: string, event: unknown) {
+  return {
+    metadata: {
+      message_id: messageId,
+      message_type: "notification",
+      message_timestamp: new Date().toISOString(),
+      subscription_type: type,
+      subscription_version: "2",
+    },
+    payload: { subscription: { id: "sub-1", type, status: "enabled", condition: {} }, event },
+  };
+}
+
+const follow = {
+  user_id: "1234",
+  user_login: "viewer",
+  user_name: "Viewer",
+  broadcaster_user_id: "1",
+  broadcaster_user_login: "streamer",
+  broadcaster_user_name: "Streamer",
+  followed_at: new Date().toISOString(),
+};
+
+test("subscribes on welcome and delivers valid notifications once", async () => {
+  const twitch = await startMockTwitch();
+  const received: EventSubNotification[] = [];
+  const client = new EventSubClient({
+    clientId: "client-id",
+    getAccessToken: async () => "token",
+    subscriptions: [{ type: "channel.follow", version: "2", condition: { broadcaster_user_id: "1", moderator_user_id: "1" } }],
+    onNotification: notification => {
+      received.push(notification);
+    },
+    websocketUrl: twitch.websocketUrl,
+    subscriptionsUrl: twitch.subscriptionsUrl,
+  });
+
+  try {
+    client.connect();
+    await waitFor(() => twitch.sockets.length === 1);
+
+    twitch.send(welcome("session-1"));
+    await waitFor(() => twitch.subscriptions.length === 1);
+    assert.equal(client.getSessionId(), "session-1");
+    assert.equal(twitch.subscriptions[0].authorization, "Bearer token");
+    assert.deepEqual(twitch.subscriptions[0].body.transport, { method: "websocket", session_id: "session-1" });
+    assert.equal(twitch.subscriptions[0].body.type, "channel.follow");
+
+    twitch.send(notification("n-1", "channel.follow", follow));
+    twitch.send(notification("n-1", "channel.follow", follow)); // Redelivered, must be ignored
+    twitch.send(notification("n-2", "channel.follow", { user_name: "missing fields" }));
+    twitch.send(notification("n-3", "channel.raid", { from_broadcaster_user_login: "someone" }));
+    twitch.send(notification("n-4", "channel.follow", { ...follow, user_name: "Second" }));
+    await waitFor(() => received.length === 2);
+
+    assert.deepEqual(
+      received.map(n => (n.type === "channel.follow" ? n.event.user_name : n.type)),
+      ["Viewer", "Second"]
+    );
+  } finally {
+    client.disconnect();
+    await twitch.close();
+  }
+});
+
+test("survives malformed messages and failing handlers without unhandled rejections", async () => {
+  const twitch = await startMockTwitch();
+  const rejections: unknown[] = [];
+  const onRejection = (reason: unknown) => rejections.push(reason);
+  process.on("unhandledRejection", onRejection);
+
+  let notified = 0;
+  const client = new EventSubClient({
+    clientId: "client-id",
+    getAccessToken: async () => {
+      throw new Error("token store unavailable");
+    },
+    subscriptions: [{ type: "channel.follow", version: "2", condition: { broadcaster_user_id: "1" } }],
+    onNotification: () => {
+      notified++;
+      throw new Error("handler failed");
+    },
+    websocketUrl: twitch.websocketUrl,
+    subscriptionsUrl: twitch.subscriptionsUrl,
+  });
+
+  try {
+    client.connect();
+    await waitFor(() => twitch.sockets.length === 1);
+
+    twitch.send("not json");
+    twitch.send({ hello: "world" });
+    twitch.send({ metadata: { message_id: "x", message_type: "session_welcome" }, payload: {} });
+    twitch.send(welcome("session-2"));
+    await waitFor(() => client.getSessionId() === "session-2");
+
+    twitch.send(notification("n-1", "channel.follow", follow));
+    await waitFor(() => notified === 1);
+    // Give any stray rejection a chance to surface
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    assert.equal(twitch.subscriptions.length, 0);
+    assert.deepEqual(rejections, []);
+  } finally {
+    process.off("unhandledRejection", onRejection);
+    client.disconnect();
+    await twitch.close();
+  }
+});
@@ -0,0 +1,392 @@
+import { WebSocket } from "ws";
+import { isRecord } from "@shared/guards";
+
+export const TWITCH_EVENTSUB_WS_URL = "wss://eventsub.wss.twitch.tv/ws";
+export const TWITCH_EVENTSUB_SUBSCRIPTIONS_URL = "https://api.twitch.tv/helix/eventsub/subscriptions";
+
+export interface EventSubSubscriptionRequest {
+  type: string;
+  version: string;
+  condition: Record<string, string>;
+}
+
+export interface EventSubMessage {
+  metadata: {
+    message_id: string;
+    message_type: "session_welcome" | "session_keepalive" | "session_reconnect" | "notification" | "revocation";
+    message_timestamp: string;
+    subscription_type?: string;
+    subscription_version?: string;
+  };
+  payload: {
+    session?: {
+      id: string;
+      status: string;
+      keepalive_timeout_seconds: number | null;
+      reconnect_url: string | null;
+    };
+    subscription?: {
+      id: string;
+      type: string;
+      status: string;
+      condition: Record<string, string>;
+    };
+    event?: unknown; // Shape depends on the subscription type, see EventSubNotification
+  };
+}
+
+export interface ChannelPointsRedemptionEvent {
+  id: string;
+  broadcaster_user_id: string;
+  broadcaster_user_login: string;
+  user_id: string;
+  user_login: string;
+  user_name: string;
+  user_input: string;
+  status: string;
+  reward: {
+    id: string;
+    title: string;
+    cost: number;
+    prompt: string;
+  };
+  redeemed_at: string;
+}
+
+export interface ChannelFollowEvent {
+  user_id: string;
+  user_login: string;
+  user_name: string;
+  broadcaster_user_id: string;
+  broadcaster_user_login: string;
+  broadcaster_user_name: string;
+  followed_at: string;
+}
+
+// Notifications for the subscription types we create, keyed by type
+export type EventSubNotification =
+  | { type: "channel.channel_points_custom_reward_redemption.add"; event: ChannelPointsRedemptionEvent }
+  | { type: "channel.follow"; event: ChannelFollowEvent };
+
+export interface EventSubClientOptions {
+  clientId: string;
+  getAccessToken: () => Promise<string | null>;
+  subscriptions: EventSubSubscriptionRequest[];
+  onNotification: (notification: EventSubNotification) => Promise<void> | void;
+  // Override both URLs to run against a local mock (e.g. `twitch event websocket start-server`)
+  websocketUrl?: string;
+  subscriptionsUrl?: string;
+}
+
+const KEEPALIVE_GRACE_MS = 5000;
+const RECONNECT_DELAY_MS = 5000;
+const MAX_SEEN_MESSAGE_IDS = 500;
+
+/**
+ * Minimal Twitch EventSub client over the WebSocket transport.
+ * Handles welcome/keepalive/reconnect and creates the configured
+ * subscriptions whenever a fresh session starts.
+ */
+export class EventSubClient {
+  private options: EventSubClientOptions;
+  private socket: WebSocket | null = null;
+  private sessionId: string | null = null;
+  private keepaliveTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private keepaliveTimeoutMs = 10000 + KEEPALIVE_GRACE_MS;
+  private seenMessageIds: string[] = [];
+  private stopped = true;
+
+  constructor(options: EventSubClientOptions) {
+    this.options = options;
+  }
+
+  get websocketUrl() {
+    return this.options.websocketUrl || process.env.TWITCH_EVENTSUB_WS_URL || TWITCH_EVENTSUB_WS_URL;
+  }
+
+  get subscriptionsUrl() {
+    return this.options.subscriptionsUrl || process.env.TWITCH_EVENTSUB_SUBSCRIPTIONS_URL || TWITCH_EVENTSUB_SUBSCRIPTIONS_URL;
+  }
+
+  connect() {
+    this.stopped = false;
+    this.openSocket(this.websocketUrl, false);
+  }
+
+  disconnect() {
+    this.stopped = true;
+    this.clearTimers();
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.close();
+      this.socket = null;
+    }
+    this.sessionId = null;
+  }
+
+  getSessionId() {
+    return this.sessionId;
+  }
+
+  isConnected() {
+    return this.sessionId !== null && this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * @param isReconnect true when following a session_reconnect - subscriptions
+   * carry over to the new session so they must not be recreated.
+   */
+  private openSocket(url: string, isReconnect: boolean) {
+    const previousSocket = this.socket;
+    const socket = new WebSocket(url);
+
+    socket.on("message", async (raw) => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(raw.toString());
+      } catch (error) {
+        console.error("EventSub: failed to parse message:", error);
+        return;
+      }
+
+      const message = toEventSubMessage(parsed);
+      if (!message) {
+        console.warn("EventSub: ignoring malformed message");
+        return;
+      }
+
+      // Nothing may escape an async listener: a rejection here would end the process
+      try {
+        if (message.metadata.message_type === "session_welcome") {
+          this.socket = socket;
+          // Twitch keeps the old connection open until the new one is welcomed
+          if (previousSocket && previousSocket !== socket) {
+            previousSocket.removeAllListeners();
+            previousSocket.close();
+          }
+        }
+
+        await this.handleMessage(message, isReconnect);
+      } catch (error) {
+        console.error(`EventSub: error handling ${message.metadata.message_type} message:`, error);
+      }
+    });
+
+    socket.on("open", () => {
+      // Twitch sends the welcome within seconds; treat silence like a missed keepalive
+      this.resetKeepalive();
+    });
+
+    socket.on("close", (code) => {
+      if (socket !== this.socket) return;
+      console.log(`EventSub connection closed (${code})`);
+      this.sessionId = null;
+      this.scheduleReconnect();
+    });
+
+    socket.on("error", (error) => {
+      console.error("EventSub socket error:", error);
+    });
+
+    if (!previousSocket) {
+      this.socket = socket;
+    }
+  }
+
+  private async handleMessage(message: EventSubMessage, isReconnect: boolean) {
+    this.resetKeepalive();
+
+    switch (message.metadata.message_type) {
+      case "session_welcome": {
+        const session = message.payload.session!;
+        this.sessionId = session.id;
+        if (session.keepalive_timeout_seconds) {
+          this.keepaliveTimeoutMs = session.keepalive_timeout_seconds * 1000 + KEEPALIVE_GRACE_MS;
+          this.resetKeepalive();
+        }
+        console.log(`✓ EventSub session started: ${session.id}`);
+        if (!isReconnect) {
+          await this.createSubscriptions();
+        }
+        break;
+      }
+
+      case "session_keepalive":
+        break;
+
+      case "session_reconnect": {
+        const reconnectUrl = message.payload.session?.reconnect_url;
+        if (reconnectUrl) {
+          console.log("EventSub reconnect requested, moving to new session");
+          this.openSocket(reconnectUrl, true);
+        }
+        break;
+      }
+
+      case "notification": {
+        if (this.isDuplicate(message.metadata.message_id)) return;
+        const type = message.metadata.subscription_type || message.payload.subscription?.type || "";
+        const notification = toNotification(type, message.payload.event);
+        if (!notification) {
+          console.warn(`EventSub: ignoring unexpected or malformed ${type || "untyped"} notification`);
+          return;
+        }
+        try {
+          await this.options.onNotification(notification);
+        } catch (error) {
+          console.error(`EventSub: error handling ${type} notification:`, error);
+        }
+        break;
+      }
+
+      case "revocation":
+        console.warn(
+          `EventSub subscription revoked: ${message.payload.subscription?.type} (${message.payload.subscription?.status})`
+        );
+        break;
+    }
+  }
+
+  private async createSubscriptions() {
+    const accessToken = await this.options.getAccessToken();
+    if (!accessToken || !this.sessionId) {
+      console.error("EventSub: cannot subscribe without an access token and session");
+      return;
+    }
+
+    for (const subscription of this.options.subscriptions) {
+      try {
+        const response = await fetch(this.subscriptionsUrl, {
+          method: "POST",
+          headers: {
+            "Authorization": `Bearer ${accessToken}`,
+            "Client-Id": this.options.clientId,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            ...subscription,
+            transport: { method: "websocket", session_id: this.sessionId },
+          }),
+        });
+
+        if (!response.ok) {
+          const error = await response.text();
+          console.error(`EventSub: failed to subscribe to ${subscription.type}: ${error}`);
+          continue;
+        }
+
+        console.log(`✓ EventSub subscribed to ${subscription.type}`);
+      } catch (error) {
+        console.error(`EventSub: error subscribing to ${subscription.type}:`, error);
+      }
+    }
+  }
+
+  private isDuplicate(messageId: string): boolean {
+    if (this.seenMessageIds.includes(messageId)) {
+      return true;
+    }
+    this.seenMessageIds.push(messageId);
+    if (this.seenMessageIds.length > MAX_SEEN_MESSAGE_IDS) {
+      this.seenMessageIds = this.seenMessageIds.slice(-MAX_SEEN_MESSAGE_IDS);
+    }
+    return false;
+  }
+
+  private resetKeepalive() {
+    if (this.keepaliveTimer) {
+      clearTimeout(this.keepaliveTimer);
+    }
+    this.keepaliveTimer = setTimeout(() => {
+      console.warn("EventSub keepalive timed out, reconnecting");
+      this.restart();
+    }, this.keepaliveTimeoutMs);
+  }
+
+  private scheduleReconnect() {
+    if (this.stopped || this.reconnectTimer) return;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.restart();
+    }, RECONNECT_DELAY_MS);
+  }
+
+  private restart() {
+    if (this.stopped) return;
+    this.clearTimers();
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.close();
+      this.socket = null;
+    }
+    this.sessionId = null;
+    this.openSocket(this.websocketUrl, false);
+  }
+
+  private clearTimers() {
+    if (this.keepaliveTimer) {
+      clearTimeout(this.keepaliveTimer);
+      this.keepaliveTimer = null;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+}
+
+const MESSAGE_TYPES: EventSubMessage["metadata"]["message_type"][] = [
+  "session_welcome",
+  "session_keepalive",
+  "session_reconnect",
+  "notification",
+  "revocation",
+];
+
+/**
+ * Check the envelope fields the client reads before trusting a message.
+ * Session messages must carry a session; notification events are checked
+ * separately by toNotification.
+ */
+function toEventSubMessage(value: unknown): EventSubMessage | null {
+  if (!isRecord(value) || !isRecord(value.metadata)) return null;
+
+  const { metadata } = value;
+  const payload = isRecord(value.payload) ? value.payload : {};
+  const messageType = MESSAGE_TYPES.find(type => type === metadata.message_type);
+  if (!messageType || typeof metadata.message_id !== "string") return null;
+
+  if (messageType === "session_welcome" || messageType === "session_reconnect") {
+    if (!isRecord(payload.session) || typeof payload.session.id !== "string") return null;
+  }
+
+  return { ...value, metadata, payload } as unknown as EventSubMessage;
+}
+
+/**
+ * Pair a notification event with its subscription type, checking the fields
+ * the handlers rely on. Anything else is assumed to match Twitch's schema.
+ */
+function toNotification(type: string, event: unknown): EventSubNotification | null {
+  if (!isRecord(event)) return null;
+
+  switch (type) {
+    case "channel.channel_points_custom_reward_redemption.add":
+      return hasStrings(event, ["broadcaster_user_login", "user_name"]) &&
+        isRecord(event.reward) &&
+        hasStrings(event.reward, ["title"])
+        ? { type, event: event as unknown as ChannelPointsRedemptionEvent }
+        : null;
+    case "channel.follow":
+      return hasStrings(event, ["user_id", "user_name", "broadcaster_user_login"])
+        ? { type, event: event as unknown as ChannelFollowEvent }
+        : null;
+    default:
+      return null;
+  }
+}
+
+function hasStrings(value: Record<string, unknown>, keys: string[]): boolean {
+  return keys.every(key => typeof value[key] === "string");
+}
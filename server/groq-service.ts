@@ -1,14 +1,23 @@
 // GroqCloud AI Service - Migrated from OpenAI
-import Groq from "groq-sdk";
+// Requests go through the active LLM provider (Groq by default, see llm-provider.ts)
+import { getLlmProvider, type LlmUsage } from "./llm-provider";
+import type { Settings } from "@shared/schema";
+import type { PersonaPrompt } from "./persona-service";
+import { analyzeChatMessageLocally } from "./local-sentiment-analyzer";
+import { isRecord, toOptionalString, toStringList } from "@shared/guards";
 
-// Initialize Groq client
-const groq = new Groq({ apiKey: process.env.GROQ_API_KEY });
+// Which analyzer produced a result; stored on each ai_analysis row
+export type AnalysisEngine = "llm" | "local";
+
+// "auto" uses the LLM and falls back to the local analyzer, "local" never calls the LLM
+export type AnalysisEngineSetting = "auto" | "local";
 
 export interface SentimentAnalysisResult {
   sentiment: "positive" | "neutral" | "negative";
   sentimentScore: number;
   toxicity: boolean;
   categories: string[];
+  engine: AnalysisEngine;
 }
 
 export interface EnhancedSpeechResult {
@@ -16,9 +25,39 @@ export interface EnhancedSpeechResult {
   enhanced: string;
 }
 
-export async function analyzeChatMessage(message: string): Promise<SentimentAnalysisResult> {
+const MAX_ANALYSIS_CATEGORIES = 10;
+
+// null when the LLM reply has no usable sentiment, so the caller can fall back
+function normalizeAnalysis(result: unknown): SentimentAnalysisResult | null {
+  if (!isRecord(result)) return null;
+
+  const { sentiment, sentimentScore, toxicity, categories } = result;
+  if (sentiment !== "positive" && sentiment !== "neutral" && sentiment !== "negative") {
+    return null;
+  }
+
+  // Models sometimes quote numbers and booleans
+  const score = typeof sentimentScore === "number" || typeof sentimentScore === "string" ? Number(sentimentScore) : NaN;
+
+  return {
+    sentiment,
+    sentimentScore: Math.max(1, Math.min(5, Number.isFinite(score) && score ? score : 3)),
+    toxicity: toxicity === true || toxicity === "true",
+    categories: toStringList(categories, MAX_ANALYSIS_CATEGORIES),
+    engine: "llm",
+  };
+}
+
+export async function analyzeChatMessage(
+  message: string,
+  engine: AnalysisEngineSetting = "auto"
+): Promise<SentimentAnalysisResult> {
+  if (engine === "local") {
+    return analyzeChatMessageLocally(message);
+  }
+
   try {
-    const response = await groq.chat.completions.create({
+    const response = await getLlmProvider().complete({
       model: "llama-3.3-70b-versatile",
       messages: [
         {
@@ -38,32 +77,88 @@ Respond with JSON in this exact format:
           content: `Analyze this Twitch chat message: "${message}"`,
         },
       ],
-      response_format: { type: "json_object" },
+      responseFormat: "json_object",
       temperature: 0.3,
     });
 
-    const result = JSON.parse(response.choices[0].message.content || "{}");
+    return normalizeAnalysis(JSON.parse(response.content || "{}")) ?? analyzeChatMessageLocally(message);
+  } catch (error) {
+    console.error("Error analyzing message with Groq, using local analyzer:", error);
+    return analyzeChatMessageLocally(message);
+  }
+}
 
-    return {
-      sentiment: result.sentiment || "neutral",
-      sentimentScore: Math.max(1, Math.min(5, result.sentimentScore || 3)),
-      toxicity: result.toxicity || false,
-      categories: result.categories || [],
-    };
+export interface BatchAnalysisResult {
+  results: SentimentAnalysisResult[]; // Same order and length as the input messages
+  totalTokens: number | null; // As reported by the provider, null when it doesn't say
+}
+
+/**
+ * Analyze several chat messages in one LLM request. JSON mode only returns
+ * objects, so the per-message array comes back wrapped in "results".
+ */
+export async function analyzeChatMessagesBatch(messages: string[]): Promise<BatchAnalysisResult> {
+  if (messages.length === 0) {
+    return { results: [], totalTokens: 0 };
+  }
+
+  try {
+    const numbered = messages.map((message, index) => `${index}: ${JSON.stringify(message)}`).join("\n");
+    const response = await getLlmProvider().complete({
+      model: "llama-3.3-70b-versatile",
+      messages: [
+        {
+          role: "system",
+          content: `You are a sentiment analysis expert for Twitch chat messages. Analyze the sentiment and toxicity of each numbered message independently.
+
+Respond with JSON in this exact format, one entry per message:
+{
+  "results": [
+    {
+      "index": 0,
+      "sentiment": "positive" | "neutral" | "negative",
+      "sentimentScore": 1-5 (1=very negative, 5=very positive),
+      "toxicity": true | false,
+      "categories": ["category1", "category2"] (e.g., ["friendly", "gaming"] or ["toxic", "spam"])
+    }
+  ]
+}`,
+        },
+        {
+          role: "user",
+          content: `Analyze these ${messages.length} Twitch chat messages:\n${numbered}`,
+        },
+      ],
+      responseFormat: "json_object",
+      temperature: 0.3,
+    });
+
+    const parsed: unknown = JSON.parse(response.content || "{}");
+    const entries: unknown[] = isRecord(parsed) && Array.isArray(parsed.results) ? parsed.results : [];
+
+    // Prefer the echoed index, fall back to position if the model dropped it
+    const results = messages.map((message, index) => {
+      const positional = entries[index];
+      const entry =
+        entries.find(e => isRecord(e) && e.index === index) ??
+        (isRecord(positional) && positional.index === undefined ? positional : undefined);
+      return normalizeAnalysis(entry) ?? analyzeChatMessageLocally(message);
+    });
+
+    return { results, totalTokens: response.usage?.totalTokens ?? null };
   } catch (error) {
-    console.error("Error analyzing message with Groq:", error);
-    return {
-      sentiment: "neutral",
-      sentimentScore: 3,
-      toxicity: false,
-      categories: ["error"],
-    };
+    console.error(`Error analyzing batch of ${messages.length} messages with Groq, using local analyzer:`, error);
+    return { results: messages.map(analyzeChatMessageLocally), totalTokens: null };
   }
 }
 
+/**
+ * One-off reply to a prompt. Returns an empty string on failure so callers
+ * can skip sending rather than post an error message to chat.
+ */
 export async function generateAiResponse(prompt: string, userMessage: string): Promise<string> {
   try {
-    const response = await groq.chat.completions.create({
+    const response = await getLlmProvider().complete({
       model: "llama-3.3-70b-versatile",
       messages: [
         {
@@ -75,14 +170,140 @@ export async function generateAiResponse(prompt: string, userMessage: string): P
           content: userMessage,
         },
       ],
-      max_tokens: 200,
+      maxTokens: 200,
       temperature: 0.7,
     });
 
-    return response.choices[0].message.content || "Unable to generate response.";
+    return response.content?.trim() || "";
   } catch (error) {
     console.error("Error generating AI response:", error);
-    return "Sorry, I couldn't process that request.";
+    return "";
+  }
+}
+
+/**
+ * Fold a stretch of chat into a rolling summary for DachiStream's memory.
+ * Returns an empty string on failure so the previous summary stays current.
+ */
+export async function summarizeChatHistory(previousSummary: string | null, chatLines: string[]): Promise<string> {
+  try {
+    const response = await getLlmProvider().complete({
+      model: "llama-3.3-70b-versatile",
+      messages: [
+        {
+          role: "system",
+          content:
+            "You maintain a running summary of a Twitch chat for the channel's AI chat companion. " +
+            "Merge the earlier summary with the new messages into one short paragraph (max 80 words). " +
+            "Keep ongoing topics, open questions, running jokes and who was involved; drop small talk.",
+        },
+        {
+          role: "user",
+          content:
+            `EARLIER SUMMARY: ${previousSummary || "(none)"}\n\n` +
+            `NEW MESSAGES:\n${chatLines.join("\n")}`,
+        },
+      ],
+      maxTokens: 200,
+      temperature: 0.3,
+    });
+
+    return response.content?.trim() || "";
+  } catch (error) {
+    console.error("Error summarizing chat history:", error);
+    return "";
+  }
+}
+
+export interface LearnedUserProfile {
+  summary: string;
+  tags: string[];
+  interests: string[];
+  games: string[];
+  tone: string | null;
+  preferredLanguage: string | null;
+  insideJokes: string[];
+}
+
+export interface PreviousUserProfile {
+  summary?: string | null;
+  recentTags?: string[] | null;
+  interests?: string[] | null;
+  games?: string[] | null;
+  tone?: string | null;
+  preferredLanguage?: string | null;
+  insideJokes?: string[] | null;
+}
+
+const MAX_PROFILE_ITEMS = 5;
+
+/**
+ * Build or update a chatter's profile from their messages. Returns null on
+ * failure or an empty summary so a bad reply never overwrites a good profile.
+ */
+export async function learnUserProfile(
+  username: string,
+  messages: string[],
+  previous?: PreviousUserProfile | null
+): Promise<LearnedUserProfile | null> {
+  try {
+    const response = await getLlmProvider().complete({
+      model: "llama-3.3-70b-versatile",
+      messages: [
+        {
+          role: "system",
+          content: `You build profiles of Twitch chatters so the channel's AI can personalize its replies. Use only what the messages show; leave a field empty rather than guess.
+
+Respond with JSON in this exact format:
+{
+  "summary": "1-2 sentences on their personality and chat style",
+  "tags": ["up to 3 single-word traits, e.g. playful, helpful, analytical"],
+  "interests": ["topics they care about"],
+  "games": ["games they mentioned"],
+  "tone": "one or two words, e.g. sarcastic, wholesome" or null,
+  "preferredLanguage": "language they chat in, e.g. English" or null,
+  "insideJokes": ["recurring jokes, memes or phrases they use"]
+}`,
+        },
+        {
+          role: "user",
+          content:
+            (previous?.summary
+              ? `PREVIOUS PROFILE (update it with the new messages, keep what still holds):\n${JSON.stringify({
+                summary: previous.summary,
+                tags: previous.recentTags ?? [],
+                interests: previous.interests ?? [],
+                games: previous.games ?? [],
+                tone: previous.tone ?? null,
+                preferredLanguage: previous.preferredLanguage ?? null,
+                insideJokes: previous.insideJokes ?? [],
+              })}\n\n`
+              : "") +
+            `MESSAGES FROM @${username}:\n${messages.join("\n")}`,
+        },
+      ],
+      responseFormat: "json_object",
+      maxTokens: 400,
+      temperature: 0.4,
+    });
+
+    const parsed: unknown = JSON.parse(response.content || "{}");
+    if (!isRecord(parsed)) return null;
+    const summary = toOptionalString(parsed.summary);
+    if (!summary) return null;
+
+    return {
+      summary,
+      tags: toStringList(toStringList(parsed.tags).map(tag => tag.toLowerCase()), 3),
+      interests: toStringList(parsed.interests, MAX_PROFILE_ITEMS),
+      games: toStringList(parsed.games, MAX_PROFILE_ITEMS),
+      tone: toOptionalString(parsed.tone),
+      preferredLanguage: toOptionalString(parsed.preferredLanguage),
+      insideJokes: toStringList(parsed.insideJokes, MAX_PROFILE_ITEMS),
+    };
+  } catch (error) {
+    console.error(`Error learning profile for ${username}:`, error);
+    return null;
   }
 }
 
@@ -91,42 +312,97 @@ export interface DachiStreamSettings {
   temperature: number;
   maxChars: number;
   energy: string;
-  personality: string;
+  persona: PersonaPrompt;
   topicAllowlist: string[];
   topicBlocklist: string[];
   streamerVoiceOnlyMode: boolean;
 }
 
+/**
+ * Map a settings row and the persona in effect onto the DachiStream
+ * generation options.
+ */
+export function dachiStreamSettingsFrom(settings: Settings | null | undefined, persona: PersonaPrompt): DachiStreamSettings {
+  return {
+    model: settings?.dachipoolAiModel || "llama-3.3-70b-versatile",
+    temperature: (settings?.dachipoolAiTemp || 7) / 10,
+    maxChars: settings?.dachipoolMaxChars || 1000,
+    energy: settings?.dachipoolEnergy || "Balanced",
+    persona,
+    topicAllowlist: settings?.topicAllowlist as string[] || [],
+    topicBlocklist: settings?.topicBlocklist as string[] || [],
+    streamerVoiceOnlyMode: settings?.streamerVoiceOnlyMode || false,
+  };
+}
+
+/**
+ * System prompt sections for a persona: who it is with the modifier for the
+ * current energy level, how it talks in example exchanges, and the phrases
+ * it leans on or must avoid.
+ */
+function personaPromptParts(persona: PersonaPrompt, energy: string): string[] {
+  const modifiers = (persona.energyModifiers || {}) as Record<string, string | undefined>;
+  const modifier = modifiers[energy]?.trim();
+  const parts = [modifier ? `${persona.systemPrompt} ${modifier}` : persona.systemPrompt];
+
+  const examples = persona.exampleExchanges || [];
+  if (examples.length > 0) {
+    parts.push(
+      "EXAMPLE EXCHANGES (match this voice, don't repeat them word for word):\n" +
+      examples.map(example => `Chat: ${example.user}\nYou: ${example.reply}`).join("\n\n")
+    );
+  }
+
+  if (persona.catchphrases?.length) {
+    parts.push(`CATCHPHRASES: Work in one of these now and then, never in every reply: ${persona.catchphrases.join(" | ")}`);
+  }
+
+  if (persona.bannedPhrases?.length) {
+    parts.push(`NEVER SAY: ${persona.bannedPhrases.join(" | ")}`);
+  }
+
+  return parts;
+}
+
+export interface DachiStreamCompletion {
+  reply: string; // Empty when generation failed or the model chose to skip
+  model: string;
+  temperature: number;
+  latencyMs: number;
+  usage?: LlmUsage;
+  error?: string;
+}
+
 export async function generateDachiStreamResponse(
   userMessage: string,
   context: string,
   settings: DachiStreamSettings
 ): Promise<string> {
+  return (await generateDachiStreamCompletion(userMessage, context, settings)).reply;
+}
+
+/**
+ * Same as generateDachiStreamResponse, plus the model, timing and token
+ * usage of the call for the reply history.
+ */
+export async function generateDachiStreamCompletion(
+  userMessage: string,
+  context: string,
+  settings: DachiStreamSettings
+): Promise<DachiStreamCompletion> {
+  const startedAt = Date.now();
+  const result: DachiStreamCompletion = {
+    reply: "",
+    model: settings.model,
+    temperature: settings.temperature,
+    latencyMs: 0,
+  };
+
   try {
     // Build system message with guardrails
     const systemParts: string[] = [];
 
-    // Core personality traits based on selected personality
-    const personalityPrompts: Record<string, string> = {
-      Casual: "You are DachiDachi, a friendly and relaxed AI chat companion. Respond like you're chatting with friends - keep it chill, casual, and conversational.",
-      Comedy: "You are DachiDachi, a witty and humorous AI chat companion. Make jokes, use puns, and keep the vibe light and funny. Don't be afraid to be silly!",
-      Quirky: "You are DachiDachi, a unique and playful AI chat companion. Be creative, unexpected, and add fun twists to your responses. Embrace the weird and wonderful!",
-      Serious: "You are DachiDachi, a professional and focused AI chat companion. Be direct, informative, and to-the-point. Keep responses clear and helpful.",
-      Gaming: "You are DachiDachi, an energetic gamer AI companion. Use gaming references, talk about strategies, and match the competitive gaming vibe. Let's go!",
-      Professional: "You are DachiDachi, a polished and business-like AI chat companion. Maintain a professional tone, be articulate, and communicate with clarity.",
-    };
-
-    const basePersonality = personalityPrompts[settings.personality] || personalityPrompts.Casual;
-    
-    // Modify energy level based on settings
-    let energyModifier = "";
-    if (settings.energy === "High") {
-      energyModifier = " Respond with extra energy, excitement, and enthusiasm!";
-    } else if (settings.energy === "Low") {
-      energyModifier = " Keep your responses brief and calm.";
-    }
-
-    systemParts.push(basePersonality + energyModifier);
+    systemParts.push(...personaPromptParts(settings.persona, settings.energy));
 
     // Topic guardrails
     if (settings.topicAllowlist.length > 0) {
@@ -163,7 +439,8 @@ export async function generateDachiStreamResponse(
       "- Be authentic and conversational\n" +
       "- Reference chat context when relevant\n" +
       "- Use the user's personality info to personalize your response\n" +
-      "- Avoid repetitive phrases\n" +
+      "- Avoid repetitive phrases, especially anything from YOUR RECENT REPLIES\n" +
+      "- Follow up on earlier threads when it's natural, instead of starting over\n" +
       "- Don't apologize excessively\n" +
       "- If you can't help with something, be direct and brief"
     );
@@ -175,7 +452,7 @@ export async function generateDachiStreamResponse(
       ? `${context}\n\n---\n\nRESPOND TO: ${userMessage}`
       : `RESPOND TO: ${userMessage}`;
 
-    const response = await groq.chat.completions.create({
+    const response = await getLlmProvider().complete({
       model: settings.model,
       temperature: settings.temperature,
       messages: [
@@ -188,31 +465,34 @@ export async function generateDachiStreamResponse(
           content: fullUserMessage,
         },
       ],
-      max_tokens: Math.ceil(settings.maxChars / 3),
+      maxTokens: Math.ceil(settings.maxChars / 3),
     });
+    result.model = response.model;
+    result.usage = response.usage;
 
-    const aiResponse = response.choices[0].message.content || "Unable to generate response.";
+    const aiResponse = response.content || "Unable to generate response.";
 
     // Check if AI wants to skip (streamer voice-only mode)
     if (aiResponse.includes("SKIP_RESPONSE")) {
-      return "";
-    }
-
-    // Trim to max characters
-    if (aiResponse.length > settings.maxChars) {
-      return aiResponse.substring(0, settings.maxChars - 3) + "...";
+      result.error = "Model skipped (streamer voice-only mode)";
+    } else if (aiResponse.length > settings.maxChars) {
+      // Trim to max characters
+      result.reply = aiResponse.substring(0, settings.maxChars - 3) + "...";
+    } else {
+      result.reply = aiResponse;
     }
-
-    return aiResponse;
   } catch (error) {
     console.error("Error generating DachiStream response:", error);
-    return "";
+    result.error = error instanceof Error ? error.message : String(error);
   }
+
+  result.latencyMs = Date.now() - startedAt;
+  return result;
 }
 
 export async function cleanupSpeechText(rawText: string): Promise<string> {
   try {
-    const response = await groq.chat.completions.create({
+    const response = await getLlmProvider().complete({
       model: "llama-3.1-8b-instant",
       messages: [
         {
@@ -228,11 +508,11 @@ export async function cleanupSpeechText(rawText: string): Promise<string> {
           content: rawText,
         },
       ],
-      max_tokens: 150,
+      maxTokens: 150,
       temperature: 0.3,
     });
 
-    return response.choices[0].message.content || rawText;
+    return response.content || rawText;
   } catch (error) {
     console.error("Error cleaning up speech text:", error);
     return rawText;
@@ -241,7 +521,7 @@ export async function cleanupSpeechText(rawText: string): Promise<string> {
 
 export async function enhanceSpeechForChat(rawText: string): Promise<EnhancedSpeechResult> {
   try {
-    const response = await groq.chat.completions.create({
+    const response = await getLlmProvider().complete({
       model: "llama-3.1-8b-instant",
       messages: [
         {
@@ -257,11 +537,11 @@ export async function enhanceSpeechForChat(rawText: string): Promise<EnhancedSpe
           content: rawText,
         },
       ],
-      max_tokens: 150,
+      maxTokens: 150,
       temperature: 0.3,
     });
 
-    const enhanced = response.choices[0].message.content || rawText;
+    const enhanced = response.content || rawText;
 
     return {
       original: rawText,
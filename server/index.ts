@@ -1,11 +1,19 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { startAiLearning } from "./ai-learning-service";
+import { AiLearningScheduler } from "./ai-learning-service";
 import { DachiStreamService } from "./dachistream-service";
+import { ReplyReviewService } from "./reply-review-service";
+import { seedDefaultPersonas } from "./persona-service";
 import { storage } from "./storage";
-import { generateDachiStreamResponse } from "./groq-service";
-import { setDachiStreamService } from "./twitch-client";
+import {
+  setDachiStreamService,
+  analysisQueueService,
+  activeChattersService,
+  broadcastToClients,
+  sendChatMessage,
+} from "./twitch-client";
+import { configureLlmProvider } from "./llm-provider";
 
 const app = express();
 app.use(express.json());
@@ -42,6 +50,16 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Pick the LLM provider before anything (routes auto-connect to Twitch) can call it
+  try {
+    const allSettings = await storage.getSettings();
+    configureLlmProvider(allSettings[0]);
+    analysisQueueService.configure(allSettings[0]);
+  } catch (error) {
+    console.error("Failed to load LLM provider settings, using defaults:", error);
+    configureLlmProvider();
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -71,8 +89,44 @@ app.use((req, res, next) => {
   // Connect DachiStream service to Twitch client
   setDachiStreamService(dachiStreamService);
 
+  const aiLearningScheduler = new AiLearningScheduler(storage, activeChattersService);
+
+  // Replies waiting for approval on the Monitor page (when approval is required)
+  const replyReviewService = new ReplyReviewService(
+    storage,
+    sendChatMessage,
+    async (review) => {
+      const settings = await storage.getSettingsForChannel(review.channel);
+      if (!settings) return null;
+      return dachiStreamService.generateReply(
+        { id: review.messageId, message: review.inReplyTo, channel: review.channel },
+        review.context || "",
+        settings,
+        "regenerate"
+      );
+    },
+    {
+      onChange: (review) => broadcastToClients("reply_review", review),
+      onSent: async (review) => {
+        await dachiStreamService.markReplySent(review.aiReplyId);
+        const message = review.messageId ? await storage.getChatMessageById(review.messageId) : undefined;
+        if (message) {
+          await dachiStreamService.rememberReply(message, review.reply);
+        }
+      },
+    }
+  );
+  await replyReviewService.expireLeftovers().catch(error => {
+    console.error("Failed to expire leftover reply reviews:", error);
+  });
+  await seedDefaultPersonas(storage).catch(error => {
+    console.error("Failed to seed default personas:", error);
+  });
+
   // Export services for use in routes
   (app as any).dachiStreamService = dachiStreamService;
+  (app as any).aiLearningScheduler = aiLearningScheduler;
+  (app as any).replyReviewService = replyReviewService;
 
   const port = parseInt(process.env.PORT || '5000', 10);
   server.listen({
@@ -82,46 +136,45 @@ app.use((req, res, next) => {
   }, async () => {
     log(`serving on port ${port}`);
     
-    // Start AI learning service
-    startAiLearning(10).catch(error => {
-      console.error("Failed to start AI learning service:", error);
+    // Start AI learning scheduler
+    aiLearningScheduler.start(10).catch(error => {
+      console.error("Failed to start AI learning scheduler:", error);
     });
 
     // Start DachiStream service with AI response callback and status updates
     await dachiStreamService.start(
       async (message, context) => {
         try {
-          const allSettings = await storage.getSettings();
-          const settings = allSettings[0];
+          const settings = await storage.getSettingsForChannel(message.channel);
           
           if (settings && settings.dachipoolEnabled) {
-            // Generate AI response with guardrails
-            const aiResponse = await generateDachiStreamResponse(
-              message.message,
-              context,
-              {
-                model: settings.dachipoolAiModel || "llama-3.3-70b-versatile",
-                temperature: (settings.dachipoolAiTemp || 7) / 10,
-                maxChars: settings.dachipoolMaxChars || 1000,
-                energy: settings.dachipoolEnergy || "Balanced",
-                personality: settings.aiPersonality || "Casual",
-                topicAllowlist: settings.topicAllowlist as string[] || [],
-                topicBlocklist: settings.topicBlocklist as string[] || [],
-                streamerVoiceOnlyMode: settings.streamerVoiceOnlyMode || false,
-              }
-            );
+            // Generate AI response with guardrails, then the output safety filter
+            const { reply: aiResponse, aiReplyId } = await dachiStreamService.generateReply(message, context, settings);
+
+            if (aiResponse && dachiStreamService.wasSkipped(message)) {
+              console.log(`DachiStream reply to ${message.username} skipped from the Monitor page`);
+              return;
+            }
 
             if (aiResponse) {
               console.log(`DachiStream AI Response: ${aiResponse}`);
               
               // Log the AI response
               dachiStreamService.logAIResponse(aiResponse);
+
+              if (settings.dachiastreamRequireApproval) {
+                // Held for the streamer; remembered once it is actually sent
+                await replyReviewService.submit(message, context, aiResponse, settings, aiReplyId);
+                return;
+              }
+
+              await dachiStreamService.rememberReply(message, aiResponse);
               
               // Send to Twitch chat if auto-send is enabled
               if (settings.dachiastreamAutoSendToChat) {
-                const { sendChatMessage } = await import("./twitch-client");
-                const sent = await sendChatMessage(aiResponse);
+                const sent = await sendChatMessage(aiResponse, message.channel);
                 if (sent) {
+                  await dachiStreamService.markReplySent(aiReplyId);
                   console.log("✓ AI response sent to Twitch chat");
                 } else {
                   console.error("✗ Failed to send AI response to Twitch chat");
@@ -130,12 +183,11 @@ app.use((req, res, next) => {
             }
           }
         } catch (error) {
-          console.error("Error in DachiStream callback:", error);
+          dachiStreamService.logError("Error in DachiStream callback", error);
         }
       },
-      (state) => {
-        // Status updates are handled internally, no need for additional broadcast here
-      }
+      (state) => broadcastToClients("dachistream_state", state),
+      (entry) => broadcastToClients("dachistream_log", entry)
     );
   });
 })();
@@ -0,0 +1,256 @@
+import Groq from "groq-sdk";
+import OpenAI from "openai";
+import type { Settings } from "@shared/schema";
+
+export const LLM_PROVIDER_NAMES = ["groq", "openai_compatible", "fake"] as const;
+
+export type LlmProviderName = (typeof LLM_PROVIDER_NAMES)[number];
+
+export interface LlmChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmCompletionRequest {
+  model: string;
+  messages: LlmChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: "text" | "json_object";
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmCompletionResult {
+  content: string | null;
+  model: string;
+  usage?: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  complete(request: LlmCompletionRequest): Promise<LlmCompletionResult>;
+}
+
+export interface LlmProviderConfig {
+  provider: LlmProviderName;
+  baseUrl?: string | null;
+  apiKey?: string | null;
+  modelOverride?: string | null;
+}
+
+// The part of the chat completions wire format both SDKs share
+interface ChatCompletionParams {
+  model: string;
+  messages: LlmChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  response_format?: { type: "json_object" };
+  stream?: false;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices: { message?: { content?: string | null } }[];
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+type ChatCompletionsClient = {
+  chat: {
+    completions: {
+      create(params: ChatCompletionParams): Promise<ChatCompletionResponse>;
+    };
+  };
+};
+
+function toResult(response: ChatCompletionResponse, fallbackModel: string): LlmCompletionResult {
+  const usage = response.usage
+    ? {
+        promptTokens: response.usage.prompt_tokens || 0,
+        completionTokens: response.usage.completion_tokens || 0,
+        totalTokens: response.usage.total_tokens || 0,
+      }
+    : undefined;
+
+  return {
+    content: response.choices?.[0]?.message?.content ?? null,
+    model: response.model || fallbackModel,
+    usage,
+  };
+}
+
+/**
+ * Shared implementation for providers that speak the OpenAI chat completions
+ * wire format (Groq, OpenAI, Ollama, llama.cpp server).
+ */
+class ChatCompletionsProvider implements LlmProvider {
+  constructor(
+    readonly name: LlmProviderName,
+    private client: ChatCompletionsClient,
+    private modelOverride?: string | null
+  ) {}
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletionResult> {
+    const model = this.modelOverride || request.model;
+    const response = await this.client.chat.completions.create({
+      model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.responseFormat === "json_object"
+        ? { response_format: { type: "json_object" as const } }
+        : {}),
+    });
+
+    return toResult(response, model);
+  }
+}
+
+export class GroqProvider extends ChatCompletionsProvider {
+  constructor(apiKey?: string | null, modelOverride?: string | null) {
+    super("groq", new Groq({ apiKey: apiKey || process.env.GROQ_API_KEY }), modelOverride);
+  }
+}
+
+/**
+ * Talks to any OpenAI-compatible HTTP endpoint, e.g. Ollama
+ * (http://localhost:11434/v1) or llama.cpp server (http://localhost:8080/v1).
+ */
+export class OpenAICompatibleProvider extends ChatCompletionsProvider {
+  constructor(baseUrl: string, apiKey?: string | null, modelOverride?: string | null) {
+    super(
+      "openai_compatible",
+      new OpenAI({
+        baseURL: baseUrl,
+        // Local servers usually ignore the key, but the SDK requires one
+        apiKey: apiKey || process.env.LLM_API_KEY || "not-needed",
+      }),
+      modelOverride
+    );
+  }
+}
+
+export type FakeResponder = (request: LlmCompletionRequest) => string;
+
+/**
+ * Deterministic offline provider. Returns "{}" in JSON mode (callers fall back
+ * to their defaults) and echoes the last line of the user prompt otherwise.
+ * Tests can pass their own responder to script replies.
+ */
+export class FakeLlmProvider implements LlmProvider {
+  readonly name = "fake" as const;
+  readonly requests: LlmCompletionRequest[] = [];
+
+  constructor(private responder?: FakeResponder) {}
+
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletionResult> {
+    this.requests.push(request);
+
+    const content = this.responder
+      ? this.responder(request)
+      : this.defaultResponse(request);
+
+    const promptChars = request.messages.reduce((sum, m) => sum + m.content.length, 0);
+    const promptTokens = Math.ceil(promptChars / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return {
+      content,
+      model: `fake:${request.model}`,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+    };
+  }
+
+  private defaultResponse(request: LlmCompletionRequest): string {
+    if (request.responseFormat === "json_object") {
+      return "{}";
+    }
+
+    const lastUser = [...request.messages].reverse().find(m => m.role === "user");
+    const lines = (lastUser?.content || "").trim().split("\n");
+    const lastLine = lines[lines.length - 1].replace(/^RESPOND TO:\s*/, "").trim();
+
+    return lastLine ? `[fake] ${lastLine.substring(0, 200)}` : "[fake] ok";
+  }
+}
+
+export function createLlmProvider(config: LlmProviderConfig): LlmProvider {
+  switch (config.provider) {
+    case "openai_compatible":
+      if (!config.baseUrl) {
+        throw new Error("openai_compatible provider requires a base URL");
+      }
+      return new OpenAICompatibleProvider(config.baseUrl, config.apiKey, config.modelOverride);
+    case "fake":
+      return new FakeLlmProvider();
+    case "groq":
+    default:
+      return new GroqProvider(config.apiKey, config.modelOverride);
+  }
+}
+
+function toProviderName(value: string | null | undefined, source: string): LlmProviderName | undefined {
+  if (!value) return undefined;
+  if ((LLM_PROVIDER_NAMES as readonly string[]).includes(value)) {
+    return value as LlmProviderName;
+  }
+  console.warn(`Unknown LLM provider "${value}" in ${source}, expected one of: ${LLM_PROVIDER_NAMES.join(", ")}`);
+  return undefined;
+}
+
+/**
+ * Resolve provider config from a settings row. The LLM_PROVIDER env var wins so
+ * the app can be forced offline without touching the database. API keys only
+ * come from the environment since settings rows are sent to the dashboard.
+ */
+export function llmConfigFromSettings(settings?: Settings | null): LlmProviderConfig {
+  const provider =
+    toProviderName(process.env.LLM_PROVIDER, "LLM_PROVIDER") ||
+    toProviderName(settings?.llmProvider, "settings") ||
+    "groq";
+
+  return {
+    provider,
+    baseUrl: process.env.LLM_BASE_URL || settings?.llmBaseUrl,
+    apiKey: provider === "groq" ? process.env.GROQ_API_KEY : process.env.LLM_API_KEY,
+    modelOverride: process.env.LLM_MODEL || settings?.llmModelOverride,
+  };
+}
+
+let activeProvider: LlmProvider | null = null;
+
+export function setLlmProvider(provider: LlmProvider) {
+  activeProvider = provider;
+  console.log(`LLM provider set to: ${provider.name}`);
+}
+
+export function getLlmProvider(): LlmProvider {
+  if (!activeProvider) {
+    activeProvider = createLlmProvider(llmConfigFromSettings());
+  }
+  return activeProvider;
+}
+
+/**
+ * Rebuild the active provider from settings, keeping the previous one if the
+ * new config is invalid.
+ */
+export function configureLlmProvider(settings?: Settings | null) {
+  try {
+    setLlmProvider(createLlmProvider(llmConfigFromSettings(settings)));
+  } catch (error) {
+    console.error("Invalid LLM provider config, keeping current provider:", error);
+  }
+}
@@ -0,0 +1,112 @@
+import type { SentimentAnalysisResult } from "./groq-service";
+
+// Lexicon weights: positive lifts the score, negative lowers it. Twitch
+// emotes are matched case-insensitively since chat often types them in lowercase.
+const SENTIMENT_LEXICON: Record<string, number> = {
+  // Emotes
+  pogchamp: 2, pog: 2, poggers: 2, pogu: 2, kreygasm: 1.5, seemsgood: 1, heyguys: 1,
+  vohiyo: 1, catjam: 1, peepohappy: 1.5, widepeepohappy: 1.5, feelsgoodman: 1.5,
+  kekw: 1, lul: 1, lulw: 1, omegalul: 1, pepelaugh: 1, "4head": 0.5, "<3": 1.5,
+  sadge: -1.5, biblethump: -1, feelsbadman: -1.5, pepehands: -1.5, notlikethis: -1,
+  residentsleeper: -1.5, dansgame: -1.5, wutface: -1, monkas: -0.5, babyrage: -1, swiftrage: -1.5,
+  // Words
+  love: 2, loved: 2, amazing: 2, awesome: 2, beautiful: 1.5, wholesome: 1.5, great: 1.5,
+  nice: 1, good: 1, best: 1.5, fun: 1, hype: 1.5, cute: 1, clutch: 1.5, gg: 1, ggs: 1,
+  thanks: 1.5, thank: 1.5, ty: 1, congrats: 1.5, wow: 1, lol: 0.5, lmao: 0.5, haha: 0.5,
+  hate: -2, worst: -2, terrible: -2, awful: -2, trash: -1.5, garbage: -1.5, boring: -1.5,
+  bad: -1, sad: -1, lame: -1, cringe: -1, annoying: -1.5, sucks: -1.5, ugly: -1.5, rip: -0.5,
+};
+
+const NEGATIONS = new Set(["not", "no", "never", "dont", "don't", "isnt", "isn't", "aint", "ain't"]);
+
+// Insults and harassment; deliberately conservative to avoid false timeouts
+const TOXIC_TERMS = ["idiot", "moron", "stupid", "dumb", "loser", "stfu", "clown", "pathetic"];
+const TOXIC_PATTERNS: { pattern: RegExp; category: string }[] = [
+  { pattern: /\bkys\b|\bkill\s+(your|ur)self\b/i, category: "self-harm" },
+  { pattern: /\bgo\s+die\b/i, category: "harassment" },
+  // Common banter, so only an insult rather than a severe category
+  { pattern: /\b(shut\s+up|uninstall)\b/i, category: "insult" },
+];
+
+const HUMOR = new Set(["kekw", "lul", "lulw", "omegalul", "pepelaugh", "lol", "lmao", "haha"]);
+const HYPE = new Set(["pogchamp", "pog", "poggers", "pogu", "hype", "kreygasm", "clutch"]);
+const GREETINGS = new Set(["hi", "hello", "hey", "heyguys", "vohiyo", "o7", "gm"]);
+const GAMING = new Set(["gg", "ggs", "boss", "build", "level", "raid", "speedrun", "ranked", "loot"]);
+
+/**
+ * Lexicon-based sentiment and toxicity check that runs without an LLM. Used
+ * as auto-moderation's first pass on every message, and for analysis when the
+ * provider fails, returns nothing usable, or analysis is set to local.
+ */
+export function analyzeChatMessageLocally(message: string): SentimentAnalysisResult {
+  const tokens = message
+    .split(/\s+/)
+    .map(token => token.replace(/^[^\w<@]+|[^\w>]+$/g, "").toLowerCase())
+    .filter(Boolean);
+
+  let score = 0;
+  let negateNext = 0;
+  const categories = new Set<string>();
+  let toxic = false;
+
+  for (const token of tokens) {
+    if (NEGATIONS.has(token)) {
+      negateNext = 2; // "not that good" still flips "good"
+      continue;
+    }
+
+    const weight = SENTIMENT_LEXICON[token];
+    if (weight !== undefined) {
+      score += negateNext > 0 ? -weight : weight;
+    }
+    if (negateNext > 0) negateNext--;
+
+    if (HUMOR.has(token)) categories.add("humor");
+    if (HYPE.has(token)) categories.add("hype");
+    if (GREETINGS.has(token)) categories.add("friendly");
+    if (GAMING.has(token)) categories.add("gaming");
+    if (TOXIC_TERMS.includes(token)) {
+      toxic = true;
+      categories.add("insult");
+    }
+  }
+
+  for (const { pattern, category } of TOXIC_PATTERNS) {
+    if (pattern.test(message)) {
+      toxic = true;
+      categories.add(category);
+    }
+  }
+
+  if (message.trim().endsWith("?")) categories.add("question");
+  if (isSpam(message, tokens)) categories.add("spam");
+
+  let sentimentScore = score >= 2 ? 5 : score >= 0.5 ? 4 : score > -0.5 ? 3 : score > -2 ? 2 : 1;
+  if (toxic) {
+    sentimentScore = Math.min(sentimentScore, 2);
+    categories.add("toxic");
+  }
+
+  return {
+    sentiment: sentimentScore >= 4 ? "positive" : sentimentScore <= 2 ? "negative" : "neutral",
+    sentimentScore,
+    toxicity: toxic,
+    categories: Array.from(categories),
+    engine: "local",
+  };
+}
+
+function isSpam(message: string, tokens: string[]): boolean {
+  if (/(.)\1{9,}/.test(message)) return true;
+
+  const letters = message.replace(/[^a-z]/gi, "");
+  if (letters.length >= 15 && letters === letters.toUpperCase()) return true;
+
+  // The same word over and over (emote walls count too)
+  if (tokens.length >= 6) {
+    const unique = new Set(tokens);
+    if (unique.size / tokens.length <= 0.25) return true;
+  }
+
+  return false;
+}
@@ -0,0 +1,181 @@
+import type { IStorage } from "./storage";
+import {
+  DEFAULT_SELECTION_WEIGHTS,
+  normalizeChannel,
+  type ChatMessage,
+  type SelectionWeights,
+  type Settings,
+} from "@shared/schema";
+
+export type ScoreFactor = keyof SelectionWeights;
+
+export interface MessageScore {
+  total: number; // Weighted average of the factors, 0-1
+  factors: Record<ScoreFactor, number>; // Each 0-1 before weighting
+  weights: SelectionWeights;
+}
+
+export type ScoredMessage = ChatMessage & { score: MessageScore };
+
+const QUESTION_WORDS = new Set([
+  "who", "what", "when", "where", "why", "how", "which", "can", "could", "would", "should",
+  "do", "does", "did", "is", "are", "was", "will", "have", "has", "any", "anyone",
+]);
+
+// Minutes after a reply before the same user counts as fully "unanswered" again
+const ANSWERED_RECOVERY_MINUTES = 30;
+// Messages shorter than this many words lose novelty (emote spam, "gg", "lol")
+const FULL_NOVELTY_WORDS = 4;
+
+/**
+ * Weights from a settings row, filling in any factor that is missing and
+ * clamping each to 0-10.
+ */
+export function selectionWeightsFrom(settings?: Settings | null): SelectionWeights {
+  const stored = settings?.dachiastreamSmartWeights ?? {};
+  const weights = { ...DEFAULT_SELECTION_WEIGHTS };
+  for (const factor of Object.keys(weights) as ScoreFactor[]) {
+    const value = (stored as Partial<SelectionWeights>)[factor];
+    if (typeof value === "number" && Number.isFinite(value)) {
+      weights[factor] = Math.max(0, Math.min(10, value));
+    }
+  }
+  return weights;
+}
+
+/**
+ * Score every buffered message of one channel for the smart selection
+ * strategy. Sentiment comes from the background analysis when it is ready
+ * and counts as neutral until then.
+ */
+export async function scoreMessages(
+  storage: IStorage,
+  messages: ChatMessage[],
+  settings?: Settings | null
+): Promise<ScoredMessage[]> {
+  if (messages.length === 0) return [];
+
+  const weights = selectionWeightsFrom(settings);
+  const names = mentionNames(messages[0].channel, settings);
+  const words = messages.map(message => tokenize(message.message));
+
+  // Two queries for the whole buffer, not one per message
+  const userIds = Array.from(new Set(messages.map(message => message.userId).filter((id): id is string => !!id)));
+  const [lastAnswered, analyses] = await Promise.all([
+    storage.getLastReplyTimes(messages[0].channel, userIds),
+    storage.getAiAnalysesByMessageIds(messages.map(message => message.id)),
+  ]);
+  const analysisByMessage = new Map(analyses.map(analysis => [analysis.messageId, analysis]));
+
+  const scored: ScoredMessage[] = [];
+  for (let i = 0; i < messages.length; i++) {
+    const message = messages[i];
+    const analysis = analysisByMessage.get(message.id);
+
+    const factors: Record<ScoreFactor, number> = {
+      question: questionScore(message.message, words[i]),
+      mention: names.some(name => mentions(message.message, name)) ? 1 : 0,
+      sentiment: analysis ? (analysis.toxicity ? 0 : (analysis.sentimentScore - 1) / 4) : 0.5,
+      role: roleScore(message.badges),
+      lastAnswered: answeredScore(message.userId ? lastAnswered.get(message.userId) ?? null : null),
+      novelty: noveltyScore(words, i),
+    };
+
+    scored.push({ ...message, score: { total: weightedTotal(factors, weights), factors, weights } });
+  }
+
+  return scored;
+}
+
+/**
+ * Highest total wins; ties go to the newest message.
+ */
+export function pickBestScored(scored: ScoredMessage[]): ScoredMessage | null {
+  let best: ScoredMessage | null = null;
+  for (const candidate of scored) {
+    if (!best || candidate.score.total >= best.score.total) {
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+function weightedTotal(factors: Record<ScoreFactor, number>, weights: SelectionWeights): number {
+  let sum = 0;
+  let weightSum = 0;
+  for (const factor of Object.keys(factors) as ScoreFactor[]) {
+    sum += factors[factor] * weights[factor];
+    weightSum += weights[factor];
+  }
+  return weightSum === 0 ? 0 : Math.round((sum / weightSum) * 1000) / 1000;
+}
+
+// The streamer plus everything that addresses the bot
+function mentionNames(channel: string, settings?: Settings | null): string[] {
+  return Array.from(new Set([normalizeChannel(channel), ...botNames(settings)]));
+}
+
+/**
+ * Names that address the bot: its account name and any configured wake-words.
+ */
+export function botNames(settings?: Settings | null): string[] {
+  const names = [settings?.twitchUsername || "", ...(settings?.dachiastreamWakeWords || [])];
+  return Array.from(new Set(names.map(name => name.trim().replace(/^@/, "").toLowerCase()).filter(Boolean)));
+}
+
+/**
+ * Whether the text contains the name or phrase as whole words, with or without "@".
+ */
+export function mentions(text: string, name: string): boolean {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^a-z0-9_])@?${escaped}([^a-z0-9_]|$)`, "i").test(text);
+}
+
+function questionScore(text: string, words: string[]): number {
+  const trimmed = text.trim();
+  if (trimmed.endsWith("?")) return 1;
+  if (trimmed.includes("?")) return 0.8;
+  return words.length > 1 && QUESTION_WORDS.has(words[0]) ? 0.6 : 0;
+}
+
+function roleScore(badges: Record<string, string> | null): number {
+  if (!badges) return 0.2;
+  if (badges.broadcaster) return 1;
+  if (badges.moderator) return 0.9;
+  if (badges.vip) return 0.8;
+  if (badges.subscriber || badges.founder) return 0.6;
+  return 0.2;
+}
+
+function answeredScore(lastReplyAt: Date | null): number {
+  if (!lastReplyAt) return 1;
+  const minutes = (Date.now() - new Date(lastReplyAt).getTime()) / 60000;
+  return Math.max(0, Math.min(1, minutes / ANSWERED_RECOVERY_MINUTES));
+}
+
+// Penalizes copypasta and repeats of what others in the buffer already said
+function noveltyScore(words: string[][], index: number): number {
+  const own = new Set(words[index]);
+  if (own.size === 0) return 0;
+
+  let maxSimilarity = 0;
+  for (let j = 0; j < words.length; j++) {
+    if (j === index || words[j].length === 0) continue;
+    const other = new Set(words[j]);
+    let shared = 0;
+    own.forEach(word => {
+      if (other.has(word)) shared++;
+    });
+    const similarity = shared / (own.size + other.size - shared);
+    maxSimilarity = Math.max(maxSimilarity, similarity);
+  }
+
+  return (1 - maxSimilarity) * Math.min(1, own.size / FULL_NOVELTY_WORDS);
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9\u00c0-\uffff']+/)
+    .filter(word => word.length > 0);
+}
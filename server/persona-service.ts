@@ -0,0 +1,270 @@
+import type { IStorage } from "./storage";
+import {
+  normalizeChannel,
+  type InsertPersona,
+  type Persona,
+  type PersonaExampleExchange,
+  type PersonaScheduleWindow,
+  type Settings,
+} from "@shared/schema";
+import { isRecord, toArray, toStringList } from "@shared/guards";
+
+// The parts of a persona that shape a reply prompt
+export type PersonaPrompt = Pick<
+  Persona,
+  "name" | "systemPrompt" | "energyModifiers" | "exampleExchanges" | "catchphrases" | "bannedPhrases"
+>;
+
+export type PersonaSelectionReason = "category" | "schedule" | "default" | "fallback";
+
+export interface ResolvedPersona {
+  persona: PersonaPrompt;
+  personaId: string | null; // Null for the built-in fallback when no persona is stored
+  reason: PersonaSelectionReason;
+}
+
+const BUILT_IN_ENERGY = {
+  High: "Respond with extra energy, excitement, and enthusiasm!",
+  Low: "Keep your responses brief and calm.",
+};
+
+/**
+ * The presets DachiStream shipped with before personas were editable.
+ * Seeded into an empty personas table so existing aiPersonality values
+ * keep working.
+ */
+export const DEFAULT_PERSONAS: InsertPersona[] = [
+  {
+    name: "Casual",
+    description: "Friendly and relaxed, like chatting with a friend",
+    systemPrompt: "You are DachiDachi, a friendly and relaxed AI chat companion. Respond like you're chatting with friends - keep it chill, casual, and conversational.",
+    energyModifiers: BUILT_IN_ENERGY,
+  },
+  {
+    name: "Comedy",
+    description: "Witty and humorous, always ready with a joke",
+    systemPrompt: "You are DachiDachi, a witty and humorous AI chat companion. Make jokes, use puns, and keep the vibe light and funny. Don't be afraid to be silly!",
+    energyModifiers: BUILT_IN_ENERGY,
+  },
+  {
+    name: "Quirky",
+    description: "Unique and playful with unexpected responses",
+    systemPrompt: "You are DachiDachi, a unique and playful AI chat companion. Be creative, unexpected, and add fun twists to your responses. Embrace the weird and wonderful!",
+    energyModifiers: BUILT_IN_ENERGY,
+  },
+  {
+    name: "Serious",
+    description: "Professional and focused, straight to the point",
+    systemPrompt: "You are DachiDachi, a professional and focused AI chat companion. Be direct, informative, and to-the-point. Keep responses clear and helpful.",
+    energyModifiers: BUILT_IN_ENERGY,
+  },
+  {
+    name: "Gaming",
+    description: "Energetic gamer vibes with gaming references",
+    systemPrompt: "You are DachiDachi, an energetic gamer AI companion. Use gaming references, talk about strategies, and match the competitive gaming vibe. Let's go!",
+    energyModifiers: BUILT_IN_ENERGY,
+  },
+  {
+    name: "Professional",
+    description: "Polished and business-like communication",
+    systemPrompt: "You are DachiDachi, a polished and business-like AI chat companion. Maintain a professional tone, be articulate, and communicate with clarity.",
+    energyModifiers: BUILT_IN_ENERGY,
+  },
+];
+
+const FALLBACK_PERSONA: PersonaPrompt = {
+  name: DEFAULT_PERSONAS[0].name,
+  systemPrompt: DEFAULT_PERSONAS[0].systemPrompt,
+  energyModifiers: BUILT_IN_ENERGY,
+  exampleExchanges: [],
+  catchphrases: [],
+  bannedPhrases: [],
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MAX_LIST_ITEMS = 20;
+
+/**
+ * Seed the built-in presets into an empty personas table, then point every
+ * settings row without an active persona at the one matching its legacy
+ * aiPersonality value.
+ */
+export async function seedDefaultPersonas(storage: IStorage) {
+  const personas = await storage.getPersonas();
+  if (personas.length === 0) {
+    for (const persona of DEFAULT_PERSONAS) {
+      personas.push(await storage.createPersona(persona));
+    }
+    console.log(`Seeded ${personas.length} default personas`);
+  }
+
+  for (const settings of await storage.getSettings()) {
+    if (settings.activePersonaId) continue;
+    const match = findByName(personas, settings.aiPersonality) || personas[0];
+    await storage.updateSettings(settings.id, { activePersonaId: match.id });
+  }
+}
+
+/**
+ * Pick the persona for a reply in this channel. A persona scheduled for the
+ * live stream's category wins, then one whose time window covers `now` in
+ * its own time zone, then the channel's active persona. Schedules limited to
+ * other channels are skipped. The first stored persona, or the built-in
+ * Casual preset, covers anything left.
+ */
+export async function resolvePersona(
+  storage: IStorage,
+  channel: string,
+  settings?: Settings | null,
+  now: Date = new Date()
+): Promise<ResolvedPersona> {
+  const personas = await storage.getPersonas();
+  const scheduledHere = personas.filter(persona => schedulesChannel(persona, channel));
+
+  const session = await storage.getActiveStreamSession(channel);
+  const category = session?.gameName?.trim().toLowerCase();
+  if (category) {
+    const scheduled = scheduledHere.find(persona =>
+      (persona.scheduleCategories || []).some(name => name.trim().toLowerCase() === category)
+    );
+    if (scheduled) return { persona: scheduled, personaId: scheduled.id, reason: "category" };
+  }
+
+  const timed = scheduledHere.find(persona =>
+    (persona.scheduleWindows || []).some(window => windowCovers(window, now, persona.scheduleTimezone))
+  );
+  if (timed) return { persona: timed, personaId: timed.id, reason: "schedule" };
+
+  const active =
+    personas.find(persona => persona.id === settings?.activePersonaId) ||
+    findByName(personas, settings?.aiPersonality);
+  if (active) return { persona: active, personaId: active.id, reason: "default" };
+
+  if (personas.length > 0) return { persona: personas[0], personaId: personas[0].id, reason: "fallback" };
+  return { persona: FALLBACK_PERSONA, personaId: null, reason: "fallback" };
+}
+
+/**
+ * Whether a weekly schedule window includes this moment, read as wall-clock
+ * time in `timeZone` (the server's zone when unset). Windows whose end is
+ * before their start run past midnight, and count toward the day they
+ * started on.
+ */
+export function windowCovers(window: PersonaScheduleWindow, now: Date, timeZone?: string | null): boolean {
+  if (!TIME_PATTERN.test(window.start) || !TIME_PATTERN.test(window.end)) return false;
+
+  const { day, minute } = wallClock(now, timeZone);
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  const onDay = (d: number) => !window.days?.length || window.days.includes(d);
+
+  if (start < end) return minute >= start && minute < end && onDay(day);
+  if (start === end) return onDay(day); // All day
+  return (minute >= start && onDay(day)) || (minute < end && onDay((day + 6) % 7));
+}
+
+/**
+ * Whether `timeZone` is an IANA zone this runtime knows, e.g. "Europe/Berlin".
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Trim and de-duplicate the list fields of a persona from the API, dropping
+ * empty entries and malformed schedule windows. The time zone is only
+ * trimmed; callers check it with isValidTimeZone.
+ */
+export function cleanPersonaInput<T extends Partial<InsertPersona>>(data: T): T {
+  const cleaned: T = { ...data };
+  if (typeof data.name === "string") cleaned.name = data.name.trim();
+  if (typeof data.systemPrompt === "string") cleaned.systemPrompt = data.systemPrompt.trim();
+
+  if (data.energyModifiers !== undefined) {
+    const modifiers = (data.energyModifiers || {}) as Record<string, unknown>;
+    const energy: Record<string, string> = {};
+    for (const level of ["High", "Balanced", "Low"]) {
+      const text = modifiers[level];
+      if (typeof text === "string" && text.trim()) energy[level] = text.trim();
+    }
+    cleaned.energyModifiers = energy;
+  }
+
+  if (data.exampleExchanges !== undefined) {
+    cleaned.exampleExchanges = toArray(data.exampleExchanges)
+      .filter((item): item is PersonaExampleExchange =>
+        isRecord(item) && typeof item.user === "string" && typeof item.reply === "string" &&
+        !!item.user.trim() && !!item.reply.trim()
+      )
+      .map(item => ({ user: item.user.trim(), reply: item.reply.trim() }))
+      .slice(0, MAX_LIST_ITEMS);
+  }
+
+  if (data.catchphrases !== undefined) cleaned.catchphrases = toStringList(data.catchphrases, MAX_LIST_ITEMS);
+  if (data.bannedPhrases !== undefined) cleaned.bannedPhrases = toStringList(data.bannedPhrases, MAX_LIST_ITEMS);
+  if (data.scheduleCategories !== undefined) cleaned.scheduleCategories = toStringList(data.scheduleCategories, MAX_LIST_ITEMS);
+  if (data.scheduleChannels !== undefined) {
+    cleaned.scheduleChannels = Array.from(new Set(toStringList(data.scheduleChannels, MAX_LIST_ITEMS).map(normalizeChannel)));
+  }
+  if (data.scheduleTimezone !== undefined) cleaned.scheduleTimezone = data.scheduleTimezone?.trim() || null;
+
+  if (data.scheduleWindows !== undefined) {
+    cleaned.scheduleWindows = toArray(data.scheduleWindows)
+      .filter((item): item is PersonaScheduleWindow =>
+        isRecord(item) && typeof item.start === "string" && typeof item.end === "string" &&
+        TIME_PATTERN.test(item.start) && TIME_PATTERN.test(item.end)
+      )
+      .map(item => ({
+        days: toArray(item.days).filter((d): d is number => typeof d === "number" && Number.isInteger(d) && d >= 0 && d <= 6),
+        start: item.start,
+        end: item.end,
+      }))
+      .slice(0, MAX_LIST_ITEMS);
+  }
+
+  return cleaned;
+}
+
+// An empty channel list means the schedule applies everywhere
+function schedulesChannel(persona: Persona, channel: string): boolean {
+  const channels = persona.scheduleChannels || [];
+  return channels.length === 0 || channels.includes(normalizeChannel(channel));
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+// Day of week and minute of day as a clock in this zone would show them
+function wallClock(now: Date, timeZone?: string | null): { day: number; minute: number } {
+  if (!timeZone || !isValidTimeZone(timeZone)) {
+    return { day: now.getDay(), minute: now.getHours() * 60 + now.getMinutes() };
+  }
+
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? "";
+
+  return {
+    day: WEEKDAY_INDEX[part("weekday")] ?? now.getDay(),
+    minute: Number(part("hour")) * 60 + Number(part("minute")),
+  };
+}
+
+function findByName(personas: Persona[], name?: string | null): Persona | undefined {
+  const wanted = name?.trim().toLowerCase();
+  return wanted ? personas.find(persona => persona.name.toLowerCase() === wanted) : undefined;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
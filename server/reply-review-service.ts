@@ -0,0 +1,187 @@
+import type { IStorage } from "./storage";
+import type { GeneratedReply } from "./dachistream-service";
+import type { ChatMessage, ReplyReview, ReplyReviewStatus, Settings } from "@shared/schema";
+
+export type ReplySender = (reply: string, channel: string) => Promise<boolean>;
+export type ReplyRegenerator = (review: ReplyReview) => Promise<GeneratedReply | null>;
+
+// Keeps a misconfigured timeout from expiring replies before anyone can see them
+const MIN_REVIEW_TIMEOUT_SECONDS = 10;
+
+/**
+ * Holds DachiStream replies for the streamer to approve, edit, reject or
+ * regenerate from the Monitor page. Pending replies expire after a timeout,
+ * or are sent automatically if auto-approve is configured. Every decision
+ * stays in storage so rejected replies can be reviewed later.
+ */
+export class ReplyReviewService {
+  private storage: IStorage;
+  private send: ReplySender;
+  private regenerator: ReplyRegenerator;
+  private onChange?: (review: ReplyReview) => void;
+  private onSent?: (review: ReplyReview) => Promise<void> | void;
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  // Reviews with a decision in flight, so a timer and a click can't both act
+  private deciding: Set<string> = new Set();
+
+  constructor(
+    storage: IStorage,
+    send: ReplySender,
+    regenerator: ReplyRegenerator,
+    callbacks: {
+      onChange?: (review: ReplyReview) => void;
+      onSent?: (review: ReplyReview) => Promise<void> | void;
+    } = {}
+  ) {
+    this.storage = storage;
+    this.send = send;
+    this.regenerator = regenerator;
+    this.onChange = callbacks.onChange;
+    this.onSent = callbacks.onSent;
+  }
+
+  /**
+   * Timers don't survive a restart, so anything still pending from a
+   * previous run is marked expired.
+   */
+  async expireLeftovers() {
+    const pending = await this.storage.getReplyReviews("pending", 500);
+    for (const review of pending) {
+      await this.storage.updateReplyReview(review.id, { status: "expired", decidedAt: new Date() });
+    }
+    if (pending.length > 0) {
+      console.log(`Expired ${pending.length} reply reviews left over from the last run`);
+    }
+  }
+
+  async submit(
+    message: ChatMessage,
+    context: string,
+    reply: string,
+    settings: Settings,
+    aiReplyId: string | null = null
+  ): Promise<ReplyReview> {
+    const timeoutSeconds = Math.max(MIN_REVIEW_TIMEOUT_SECONDS, settings.dachiastreamReviewTimeoutSeconds);
+    const review = await this.storage.createReplyReview({
+      channel: message.channel,
+      messageId: message.id,
+      addressedToUserId: message.userId,
+      addressedToUsername: message.username,
+      inReplyTo: message.message,
+      context,
+      reply,
+      originalReply: reply,
+      aiReplyId,
+      expiresAt: new Date(Date.now() + timeoutSeconds * 1000),
+    });
+
+    // Auto-approve only makes sense if it fires before the reply expires
+    const autoApproveSeconds = settings.dachiastreamAutoApproveSeconds;
+    if (autoApproveSeconds > 0 && autoApproveSeconds < timeoutSeconds) {
+      this.schedule(review.id, autoApproveSeconds * 1000, () => this.decide(review.id, "auto_approved"));
+    } else {
+      this.schedule(review.id, timeoutSeconds * 1000, () => this.decide(review.id, "expired"));
+    }
+
+    this.onChange?.(review);
+    return review;
+  }
+
+  /**
+   * Send the reply, optionally with edited text. Returns null if the review
+   * is no longer pending.
+   */
+  approve(id: string, editedReply?: string): Promise<ReplyReview | null> {
+    const text = editedReply?.trim();
+    return text ? this.decide(id, "edited", { reply: text }) : this.decide(id, "approved");
+  }
+
+  reject(id: string, reason?: string): Promise<ReplyReview | null> {
+    return this.decide(id, "rejected", { reason: reason?.trim() || null });
+  }
+
+  /**
+   * Replace the pending reply with a freshly generated one. The expiry
+   * stays as it was. Returns null if the review is no longer pending or
+   * generation failed.
+   */
+  async regenerate(id: string): Promise<ReplyReview | null> {
+    const review = await this.storage.getReplyReview(id);
+    if (!review || review.status !== "pending") return null;
+
+    const generated = await this.regenerator(review);
+    if (!generated?.reply) return null;
+
+    // It may have been decided or expired while the LLM was working
+    const current = await this.storage.getReplyReview(id);
+    if (!current || current.status !== "pending" || this.deciding.has(id)) return null;
+
+    const updated = await this.storage.updateReplyReview(id, {
+      reply: generated.reply,
+      aiReplyId: generated.aiReplyId,
+      regenerations: current.regenerations + 1,
+    });
+    this.onChange?.(updated);
+    return updated;
+  }
+
+  getReviews(status?: ReplyReviewStatus, limit?: number): Promise<ReplyReview[]> {
+    return this.storage.getReplyReviews(status, limit);
+  }
+
+  stop() {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  private schedule(id: string, delayMs: number, action: () => Promise<unknown>) {
+    this.timers.set(
+      id,
+      setTimeout(() => {
+        this.timers.delete(id);
+        action().catch(error => {
+          console.error(`Error resolving reply review ${id}:`, error);
+        });
+      }, delayMs)
+    );
+  }
+
+  private async decide(
+    id: string,
+    status: Exclude<ReplyReviewStatus, "pending">,
+    changes: { reply?: string; reason?: string | null } = {}
+  ): Promise<ReplyReview | null> {
+    if (this.deciding.has(id)) return null;
+    this.deciding.add(id);
+
+    try {
+      const review = await this.storage.getReplyReview(id);
+      if (!review || review.status !== "pending") return null;
+
+      const timer = this.timers.get(id);
+      if (timer) {
+        clearTimeout(timer);
+        this.timers.delete(id);
+      }
+
+      const reply = changes.reply ?? review.reply;
+      const shouldSend = status === "approved" || status === "edited" || status === "auto_approved";
+      const sent = shouldSend ? await this.send(reply, review.channel) : false;
+
+      const updated = await this.storage.updateReplyReview(id, {
+        ...changes,
+        status,
+        sent,
+        decidedAt: new Date(),
+      });
+
+      if (sent) {
+        await this.onSent?.(updated);
+      }
+      this.onChange?.(updated);
+      return updated;
+    } finally {
+      this.deciding.delete(id);
+    }
+  }
+}
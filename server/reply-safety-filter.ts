@@ -0,0 +1,103 @@
+import type { Settings } from "@shared/schema";
+import { analyzeChatMessage, type AnalysisEngineSetting } from "./groq-service";
+import type { PersonaPrompt } from "./persona-service";
+
+export type UnsafeReplyAction = "regenerate" | "block";
+
+export interface ReplySafetyOptions {
+  topicBlocklist: string[];
+  bannedWords: string[];
+  bannedPhrases: string[]; // From the persona in effect
+  analysisEngine: AnalysisEngineSetting;
+}
+
+export interface ReplySafetyResult {
+  safe: boolean;
+  reasons: string[];
+}
+
+const LINK_PATTERN = /\bhttps?:\/\/|\bwww\.|\b[a-z0-9-]+\.(com|net|org|tv|gg|io|ly|co|me|xyz|link|app)\b/i;
+const MASS_PING_PATTERN = /@(everyone|here|channel)\b/i;
+// Twitch slash/dot commands (/ban, .timeout) and other bots' !commands
+const COMMAND_PATTERN = /(^|\n)\s*[\/.!][a-z]+/i;
+const MAX_MENTIONS = 3;
+
+export function replySafetyOptionsFrom(settings?: Settings | null, persona?: PersonaPrompt | null): ReplySafetyOptions {
+  return {
+    topicBlocklist: (settings?.topicBlocklist as string[]) || [],
+    bannedWords: settings?.dachiastreamBannedWords || [],
+    bannedPhrases: persona?.bannedPhrases || [],
+    analysisEngine: settings?.analysisEngine === "local" ? "local" : "auto",
+  };
+}
+
+/**
+ * Check a generated reply before it goes to chat. Cheap pattern checks run
+ * first; the toxicity pass only runs when those pass.
+ */
+export async function checkReplySafety(reply: string, options: ReplySafetyOptions): Promise<ReplySafetyResult> {
+  const reasons: string[] = [];
+
+  const topic = options.topicBlocklist.find(term => containsTerm(reply, term));
+  if (topic) reasons.push(`blocked topic "${topic}"`);
+
+  const banned = options.bannedWords.find(word => containsTerm(reply, word));
+  if (banned) reasons.push(`banned word "${banned}"`);
+
+  const phrase = options.bannedPhrases.find(term => containsTerm(reply, term));
+  if (phrase) reasons.push(`persona banned phrase "${phrase}"`);
+
+  if (LINK_PATTERN.test(reply)) reasons.push("contains a link");
+  if (MASS_PING_PATTERN.test(reply)) reasons.push("mass ping");
+  if ((reply.match(/@\w+/g) || []).length > MAX_MENTIONS) reasons.push("too many @mentions");
+  if (COMMAND_PATTERN.test(reply)) reasons.push("looks like a chat command");
+
+  if (reasons.length === 0) {
+    const analysis = await analyzeChatMessage(reply, options.analysisEngine);
+    if (analysis.toxicity) {
+      const categories = analysis.categories.length > 0 ? ` (${analysis.categories.join(", ")})` : "";
+      reasons.push(`flagged as toxic${categories}`);
+    }
+  }
+
+  return { safe: reasons.length === 0, reasons };
+}
+
+/**
+ * Generate a reply and run it through the safety filter, including the
+ * persona's banned phrases. Depending on the settings a failing reply is
+ * either dropped or regenerated once with the reasons as a hint. Returns an empty string when nothing safe came back.
+ */
+export async function generateSafeReply(
+  generate: (safetyNote: string) => Promise<string>,
+  settings: Settings | null | undefined,
+  onUnsafe?: (reply: string, reasons: string[], retrying: boolean) => void,
+  persona?: PersonaPrompt | null
+): Promise<string> {
+  const options = replySafetyOptionsFrom(settings, persona);
+  const attempts = settings?.dachiastreamUnsafeReplyAction === "block" ? 1 : 2;
+
+  let safetyNote = "";
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const reply = await generate(safetyNote);
+    if (!reply) return "";
+
+    const result = await checkReplySafety(reply, options);
+    if (result.safe) return reply;
+
+    const retrying = attempt < attempts;
+    onUnsafe?.(reply, result.reasons, retrying);
+    safetyNote =
+      `SAFETY: Your previous reply was rejected (${result.reasons.join("; ")}). ` +
+      "Write a different reply without links, commands, mass pings or any of those terms.";
+  }
+
+  return "";
+}
+
+function containsTerm(text: string, term: string): boolean {
+  const trimmed = term.trim();
+  if (!trimmed) return false;
+  const escaped = trimmed.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^a-z0-9])${escaped}(s|es)?([^a-z0-9]|$)`, "i").test(text);
+}
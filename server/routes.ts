@@ -10,15 +10,34 @@ import {
   insertSettingsSchema,
   insertUserProfileSchema,
   insertUserInsightSchema,
+  insertPersonaSchema,
+  normalizeChannel,
+  type InsertSettings,
+  type StreamSession,
+  type StreamSessionWithStats,
 } from "@shared/schema";
-import { connectToTwitch, disconnectFromTwitch, addWebSocketClient, getTwitchClient } from "./twitch-client";
+import {
+  connectToTwitch,
+  disconnectFromTwitch,
+  addWebSocketClient,
+  getTwitchClient,
+  getJoinedChannels,
+  getPrimaryChannel,
+  joinChannel,
+  partChannel,
+  streamSessionService,
+} from "./twitch-client";
 import { twitchOAuthService } from "./twitch-oauth-service";
+import { configureLlmProvider } from "./llm-provider";
+import { SELECTION_STRATEGIES } from "./dachistream-service";
+import { cleanPersonaInput, isValidTimeZone, resolvePersona } from "./persona-service";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Chat Messages
   app.get("/api/messages", async (req, res) => {
     try {
-      const messages = await storage.getChatMessages(100);
+      const channel = req.query.channel as string | undefined;
+      const messages = await storage.getChatMessages(100, channel || undefined);
       res.json(messages);
     } catch (error) {
       console.error("Error fetching messages:", error);
@@ -40,7 +59,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // AI Analyses
   app.get("/api/analyses", async (req, res) => {
     try {
-      const analyses = await storage.getAiAnalyses();
+      const channel = req.query.channel as string | undefined;
+      const analyses = await storage.getAiAnalyses(channel || undefined);
       res.json(analyses);
     } catch (error) {
       console.error("Error fetching analyses:", error);
@@ -81,6 +101,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Dry-run a command definition without posting anything to chat
+  app.post("/api/commands/preview", async (req, res) => {
+    try {
+      const { trigger, prompt, responseType, sampleMessage, username } = req.body;
+      if (!prompt || !responseType) {
+        return res.status(400).json({ error: "Prompt and response type are required" });
+      }
+
+      const commandTrigger = trigger || "!preview";
+      const message = sampleMessage || commandTrigger;
+      const args = message.toLowerCase().startsWith(commandTrigger.toLowerCase())
+        ? message.substring(commandTrigger.length).trim()
+        : message;
+
+      const authenticatedUser = await storage.getAuthenticatedUser();
+      const { executeCommand } = await import("./command-service");
+      const response = await executeCommand(
+        { trigger: commandTrigger, prompt, responseType },
+        {
+          user: username || "PreviewViewer",
+          args,
+          channel: authenticatedUser?.twitchUsername || "yourchannel",
+          message,
+        },
+        storage
+      );
+
+      res.json({ response });
+    } catch (error) {
+      console.error("Error previewing command:", error);
+      res.status(500).json({ error: "Failed to preview command" });
+    }
+  });
+
   app.patch("/api/commands/:id", async (req, res) => {
     try {
       const { id } = req.params;
@@ -103,6 +157,118 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Personas
+  app.get("/api/personas", async (req, res) => {
+    try {
+      const personas = await storage.getPersonas();
+      res.json(personas);
+    } catch (error) {
+      console.error("Error fetching personas:", error);
+      res.status(500).json({ error: "Failed to fetch personas" });
+    }
+  });
+
+  // The persona replies in a channel use right now, and why (category, schedule, default)
+  app.get("/api/personas/active", async (req, res) => {
+    try {
+      const channel = (req.query.channel as string) || getPrimaryChannel() || "";
+      const settings = channel ? await storage.getSettingsForChannel(channel) : (await storage.getSettings())[0];
+      const resolved = await resolvePersona(storage, channel, settings);
+      res.json({ channel: channel ? normalizeChannel(channel) : null, ...resolved });
+    } catch (error) {
+      console.error("Error resolving active persona:", error);
+      res.status(500).json({ error: "Failed to resolve active persona" });
+    }
+  });
+
+  app.post("/api/personas", async (req, res) => {
+    const parsed = insertPersonaSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid persona data" });
+    }
+    const data = cleanPersonaInput(parsed.data);
+    if (!data.name || !data.systemPrompt) {
+      return res.status(400).json({ error: "Name and system prompt are required" });
+    }
+    if (data.scheduleTimezone && !isValidTimeZone(data.scheduleTimezone)) {
+      return res.status(400).json({ error: `Unknown time zone "${data.scheduleTimezone}"` });
+    }
+
+    try {
+      const personas = await storage.getPersonas();
+      if (personas.some(persona => persona.name.toLowerCase() === data.name.toLowerCase())) {
+        return res.status(409).json({ error: `A persona named "${data.name}" already exists` });
+      }
+
+      const persona = await storage.createPersona(data);
+      res.json(persona);
+    } catch (error) {
+      console.error("Error creating persona:", error);
+      res.status(500).json({ error: "Failed to create persona" });
+    }
+  });
+
+  app.patch("/api/personas/:id", async (req, res) => {
+    const parsed = insertPersonaSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid persona data" });
+    }
+    const data = cleanPersonaInput(parsed.data);
+    if (data.name === "" || data.systemPrompt === "") {
+      return res.status(400).json({ error: "Name and system prompt can't be empty" });
+    }
+    if (data.scheduleTimezone && !isValidTimeZone(data.scheduleTimezone)) {
+      return res.status(400).json({ error: `Unknown time zone "${data.scheduleTimezone}"` });
+    }
+
+    try {
+      const { id } = req.params;
+      const personas = await storage.getPersonas();
+      if (!personas.some(persona => persona.id === id)) {
+        return res.status(404).json({ error: "Persona not found" });
+      }
+      const name = data.name?.toLowerCase();
+      if (name && personas.some(persona => persona.id !== id && persona.name.toLowerCase() === name)) {
+        return res.status(409).json({ error: `A persona named "${data.name}" already exists` });
+      }
+
+      const persona = await storage.updatePersona(id, data);
+      res.json(persona);
+    } catch (error) {
+      console.error("Error updating persona:", error);
+      res.status(500).json({ error: "Failed to update persona" });
+    }
+  });
+
+  app.delete("/api/personas/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const personas = await storage.getPersonas();
+      if (!personas.some(persona => persona.id === id)) {
+        return res.status(404).json({ error: "Persona not found" });
+      }
+      // Replies always need a voice; an empty table is re-seeded with the presets on restart
+      if (personas.length === 1) {
+        return res.status(409).json({ error: "Can't delete the last persona" });
+      }
+
+      await storage.deletePersona(id);
+
+      // Channels that used it fall back to the first remaining persona
+      const fallback = personas.find(persona => persona.id !== id)!;
+      for (const setting of await storage.getSettings()) {
+        if (setting.activePersonaId === id) {
+          await storage.updateSettings(setting.id, { activePersonaId: fallback.id });
+        }
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting persona:", error);
+      res.status(500).json({ error: "Failed to delete persona" });
+    }
+  });
+
   // User Profiles
   app.get("/api/users", async (req, res) => {
     try {
@@ -212,8 +378,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Active Chatters
   app.get("/api/chatters/active", async (req, res) => {
     try {
-      const { getTwitchClient, activeChattersService } = await import("./twitch-client");
-      const chatters = activeChattersService.getActiveChatters();
+      const { activeChattersService } = await import("./twitch-client");
+      const channel = req.query.channel as string | undefined;
+      const chatters = activeChattersService.getActiveChatters(channel || undefined);
       res.json(chatters);
     } catch (error) {
       console.error("Error fetching active chatters:", error);
@@ -225,7 +392,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { activeChattersService } = await import("./twitch-client");
       const query = req.query.q as string || "";
-      const results = activeChattersService.searchChatters(query);
+      const channel = req.query.channel as string | undefined;
+      const results = activeChattersService.searchChatters(query, channel || undefined);
       res.json(results);
     } catch (error) {
       console.error("Error searching chatters:", error);
@@ -284,6 +452,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const data = insertSettingsSchema.parse(req.body);
       const setting = await storage.createSettings(data);
+      configureLlmProvider(setting);
+      const { analysisQueueService } = await import("./twitch-client");
+      analysisQueueService.configure(setting);
       
       if (data.twitchChannel && data.twitchUsername) {
         await connectToTwitch(data.twitchChannel, data.twitchUsername);
@@ -315,6 +486,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const dachiStreamService = (app as any).dachiStreamService;
         dachiStreamService.updateCycleInterval(req.body.dachiastreamCycleInterval);
       }
+
+      if (
+        (req.body.dachiastreamAdaptiveInterval !== undefined ||
+          req.body.dachiastreamMinCycleInterval !== undefined ||
+          req.body.dachiastreamMaxCycleInterval !== undefined ||
+          req.body.dachiastreamMaxRepliesPerCycle !== undefined) &&
+        (app as any).dachiStreamService
+      ) {
+        (app as any).dachiStreamService.configureAdaptive(setting);
+      }
+
+      // Swap the LLM provider if its config changed
+      if (
+        req.body.llmProvider !== undefined ||
+        req.body.llmBaseUrl !== undefined ||
+        req.body.llmModelOverride !== undefined
+      ) {
+        configureLlmProvider(setting);
+      }
+
+      if (
+        req.body.embeddingProvider !== undefined ||
+        req.body.embeddingBaseUrl !== undefined ||
+        req.body.embeddingModel !== undefined
+      ) {
+        (app as any).dachiStreamService?.embeddings.configure(setting);
+      }
+
+      if (
+        req.body.analysisBatchSize !== undefined ||
+        req.body.analysisTokensPerMinute !== undefined ||
+        req.body.analysisEngine !== undefined
+      ) {
+        const { analysisQueueService } = await import("./twitch-client");
+        analysisQueueService.configure(setting);
+      }
       
       res.json(setting);
     } catch (error) {
@@ -327,7 +534,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/moderation-actions", async (req, res) => {
     try {
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 100;
-      const actions = await storage.getModerationActions(limit);
+      const channel = req.query.channel as string | undefined;
+      const actions = await storage.getModerationActions(limit, channel || undefined);
       res.json(actions);
     } catch (error) {
       console.error("Error fetching moderation actions:", error);
@@ -335,6 +543,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/auto-moderation/decisions", async (req, res) => {
+    try {
+      const { autoModerationService } = await import("./twitch-client");
+      res.json(autoModerationService.getRecentDecisions());
+    } catch (error) {
+      console.error("Error fetching auto-moderation decisions:", error);
+      res.status(500).json({ error: "Failed to fetch auto-moderation decisions" });
+    }
+  });
+
+  app.get("/api/analysis-queue", async (req, res) => {
+    try {
+      const { analysisQueueService } = await import("./twitch-client");
+      res.json(analysisQueueService.getStats());
+    } catch (error) {
+      console.error("Error fetching analysis queue stats:", error);
+      res.status(500).json({ error: "Failed to fetch analysis queue stats" });
+    }
+  });
+
   // Twitch OAuth Routes
   app.get("/api/auth/twitch", (req, res) => {
     try {
@@ -470,10 +698,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const channels = client.getChannels();
+      const channels = getJoinedChannels();
       res.json({
         connected: client.readyState() === "OPEN",
-        channel: channels.length > 0 ? channels[0].replace('#', '') : null,
+        channel: getPrimaryChannel() || channels[0] || null,
+        channels,
         messageCount: messageCount.length,
       });
     } catch (error) {
@@ -482,6 +711,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Joined channels - every channel except the primary has its own settings row
+  app.get("/api/twitch/channels", async (req, res) => {
+    try {
+      const allSettings = await storage.getSettings();
+      const joined = getJoinedChannels();
+      const primary = getPrimaryChannel();
+
+      const names = Array.from(new Set([
+        ...(primary ? [primary] : []),
+        ...joined,
+        ...allSettings.filter(s => s.twitchChannel).map(s => normalizeChannel(s.twitchChannel!)),
+      ]));
+
+      res.json(names.map(name => ({
+        channel: name,
+        primary: name === primary,
+        joined: joined.includes(name),
+        settingsId: allSettings.find(s => s.twitchChannel && normalizeChannel(s.twitchChannel) === name)?.id || null,
+      })));
+    } catch (error) {
+      console.error("Error fetching Twitch channels:", error);
+      res.status(500).json({ error: "Failed to fetch channels" });
+    }
+  });
+
+  app.post("/api/twitch/channels", async (req, res) => {
+    try {
+      const channel = normalizeChannel(req.body.channel || "");
+      if (!channel) {
+        return res.status(400).json({ error: "Channel name is required" });
+      }
+
+      const allSettings = await storage.getSettings();
+      let setting = allSettings.find(s => s.twitchChannel && normalizeChannel(s.twitchChannel) === channel);
+
+      if (!setting) {
+        // New channels start from the primary channel's configuration; parsing
+        // drops its id and timestamps
+        const primary = allSettings[0];
+        const inherited: Partial<InsertSettings> = primary ? insertSettingsSchema.partial().parse(primary) : {};
+        setting = await storage.createSettings(insertSettingsSchema.parse({
+          ...inherited,
+          twitchChannel: channel,
+          browserSourceEnabled: false,
+          // Per-channel state, never copied
+          browserSourceToken: null,
+          streamSessionStarted: null,
+        }));
+      }
+
+      const joined = await joinChannel(channel);
+      res.json({ channel, settingsId: setting.id, joined });
+    } catch (error) {
+      console.error("Error adding Twitch channel:", error);
+      res.status(400).json({ error: "Failed to add channel" });
+    }
+  });
+
+  app.delete("/api/twitch/channels/:channel", async (req, res) => {
+    try {
+      const channel = normalizeChannel(req.params.channel);
+      if (channel === getPrimaryChannel()) {
+        return res.status(400).json({ error: "Cannot remove the primary channel" });
+      }
+
+      const allSettings = await storage.getSettings();
+      const setting = allSettings.find(s => s.twitchChannel && normalizeChannel(s.twitchChannel) === channel);
+      // Never delete the primary settings row
+      if (setting && setting.id !== allSettings[0]?.id) {
+        await storage.deleteSettings(setting.id);
+      }
+
+      await partChannel(channel);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing Twitch channel:", error);
+      res.status(500).json({ error: "Failed to remove channel" });
+    }
+  });
+
   app.get("/api/twitch/search-users", async (req, res) => {
     try {
       const { query } = req.query;
@@ -519,6 +828,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Stream Sessions - compare broadcasts over time
+  const withStats = async (session: StreamSession): Promise<StreamSessionWithStats> => ({
+    ...session,
+    stats: await storage.getStreamSessionStats(session.id),
+  });
+
+  app.get("/api/stream-sessions", async (req, res) => {
+    try {
+      const channel = req.query.channel as string | undefined;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const sessions = await storage.getStreamSessions(limit, channel || undefined);
+      res.json(await Promise.all(sessions.map(withStats)));
+    } catch (error) {
+      console.error("Error fetching stream sessions:", error);
+      res.status(500).json({ error: "Failed to fetch stream sessions" });
+    }
+  });
+
+  app.get("/api/stream-sessions/current", async (req, res) => {
+    try {
+      const channel = (req.query.channel as string) || getPrimaryChannel();
+      if (!channel) {
+        return res.json(null);
+      }
+
+      const session = streamSessionService.getActiveSession(channel)
+        || (await storage.getActiveStreamSession(channel))
+        || null;
+      res.json(session ? await withStats(session) : null);
+    } catch (error) {
+      console.error("Error fetching current stream session:", error);
+      res.status(500).json({ error: "Failed to fetch current stream session" });
+    }
+  });
+
+  app.post("/api/stream-sessions/start", async (req, res) => {
+    try {
+      const channel = req.body.channel || getPrimaryChannel();
+      if (!channel) {
+        return res.status(400).json({ error: "Not connected to a channel" });
+      }
+
+      const session = await streamSessionService.startManualSession(channel);
+      res.json(session);
+    } catch (error) {
+      console.error("Error starting stream session:", error);
+      res.status(500).json({ error: "Failed to start stream session" });
+    }
+  });
+
+  app.post("/api/stream-sessions/:id/end", async (req, res) => {
+    try {
+      const session = await streamSessionService.endSessionById(req.params.id);
+      if (!session) {
+        return res.status(404).json({ error: "Stream session not found" });
+      }
+      res.json(session);
+    } catch (error) {
+      console.error("Error ending stream session:", error);
+      res.status(500).json({ error: "Failed to end stream session" });
+    }
+  });
+
+  app.get("/api/stream-sessions/:id", async (req, res) => {
+    try {
+      const session = await storage.getStreamSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ error: "Stream session not found" });
+      }
+      res.json(await withStats(session));
+    } catch (error) {
+      console.error("Error fetching stream session:", error);
+      res.status(500).json({ error: "Failed to fetch stream session" });
+    }
+  });
+
+  app.get("/api/stream-sessions/:id/messages", async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 500, 5000);
+      const messages = await storage.getChatMessagesByStream(req.params.id, limit);
+      res.json(messages);
+    } catch (error) {
+      console.error("Error fetching stream session messages:", error);
+      res.status(500).json({ error: "Failed to fetch stream session messages" });
+    }
+  });
+
+  app.get("/api/stream-sessions/:id/analyses", async (req, res) => {
+    try {
+      const analyses = await storage.getAiAnalysesByStream(req.params.id);
+      res.json(analyses);
+    } catch (error) {
+      console.error("Error fetching stream session analyses:", error);
+      res.status(500).json({ error: "Failed to fetch stream session analyses" });
+    }
+  });
+
   // Raid Management
   app.get("/api/raids", async (req, res) => {
     try {
@@ -617,11 +1023,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // DachiStream Controls - imported from index.ts where service is initialized
+  // DachiStream Controls - act on the service instance attached in index.ts
   app.post("/api/dachistream/pause", async (req, res) => {
     try {
-      // This will be handled by the DachiStream service instance in index.ts
-      res.json({ success: true, message: "DachiStream paused" });
+      const dachiStreamService = (req.app as any).dachiStreamService;
+      if (!dachiStreamService) {
+        return res.status(503).json({ error: "DachiStream service not available" });
+      }
+
+      await dachiStreamService.pause();
+      res.json(dachiStreamService.getState());
     } catch (error) {
       console.error("Error pausing DachiStream:", error);
       res.status(500).json({ error: "Failed to pause DachiStream" });
@@ -630,13 +1041,98 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/dachistream/resume", async (req, res) => {
     try {
-      // This will be handled by the DachiStream service instance in index.ts
-      res.json({ success: true, message: "DachiStream resumed" });
+      const dachiStreamService = (req.app as any).dachiStreamService;
+      if (!dachiStreamService) {
+        return res.status(503).json({ error: "DachiStream service not available" });
+      }
+
+      await dachiStreamService.resume();
+      res.json(dachiStreamService.getState());
     } catch (error) {
       console.error("Error resuming DachiStream:", error);
       res.status(500).json({ error: "Failed to resume DachiStream" });
     }
   });
+
+  app.post("/api/dachistream/trigger", (req, res) => {
+    try {
+      const dachiStreamService = (req.app as any).dachiStreamService;
+      if (!dachiStreamService) {
+        return res.status(503).json({ error: "DachiStream service not available" });
+      }
+      if (dachiStreamService.getState().paused) {
+        return res.status(409).json({ error: "DachiStream is paused" });
+      }
+      if (!dachiStreamService.triggerCycle()) {
+        return res.status(409).json({ error: "A cycle is already running" });
+      }
+
+      res.json(dachiStreamService.getState());
+    } catch (error) {
+      console.error("Error triggering DachiStream cycle:", error);
+      res.status(500).json({ error: "Failed to trigger cycle" });
+    }
+  });
+
+  app.post("/api/dachistream/skip", (req, res) => {
+    try {
+      const dachiStreamService = (req.app as any).dachiStreamService;
+      if (!dachiStreamService) {
+        return res.status(503).json({ error: "DachiStream service not available" });
+      }
+
+      const skipped = dachiStreamService.skipCurrent();
+      if (!skipped) {
+        return res.status(409).json({ error: "No reply in progress" });
+      }
+
+      res.json({ skipped, state: dachiStreamService.getState() });
+    } catch (error) {
+      console.error("Error skipping DachiStream reply:", error);
+      res.status(500).json({ error: "Failed to skip reply" });
+    }
+  });
+
+  app.post("/api/dachistream/flush", (req, res) => {
+    try {
+      const dachiStreamService = (req.app as any).dachiStreamService;
+      if (!dachiStreamService) {
+        return res.status(503).json({ error: "DachiStream service not available" });
+      }
+
+      const channel = typeof req.body?.channel === "string" ? req.body.channel : undefined;
+      const dropped = dachiStreamService.flushBuffer(channel);
+      res.json({ dropped, state: dachiStreamService.getState() });
+    } catch (error) {
+      console.error("Error flushing DachiStream buffer:", error);
+      res.status(500).json({ error: "Failed to flush buffer" });
+    }
+  });
+
+  app.post("/api/dachistream/strategy", async (req, res) => {
+    try {
+      const dachiStreamService = (req.app as any).dachiStreamService;
+      if (!dachiStreamService) {
+        return res.status(503).json({ error: "DachiStream service not available" });
+      }
+
+      const { strategy, channel } = req.body || {};
+      if (!SELECTION_STRATEGIES.includes(strategy)) {
+        return res.status(400).json({ error: `strategy must be one of: ${SELECTION_STRATEGIES.join(", ")}` });
+      }
+
+      const updated = await dachiStreamService.setStrategy(strategy, typeof channel === "string" ? channel : undefined);
+      if (!updated) {
+        return res.status(404).json({ error: "Settings not found" });
+      }
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error setting DachiStream strategy:", error);
+      res.status(500).json({ error: "Failed to set selection strategy" });
+    }
+  });
+
   // Speech-to-Text for Streamer Voice
   app.post("/api/stt/transcribe", async (req, res) => {
     try {
@@ -772,25 +1268,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (data.event === 'auto_shoutout') {
           showShoutout(data.data.username);
         }
+        
+        // AI command replies routed to the overlay
+        if (data.event === 'command_response' && data.data.target === 'overlay') {
+          showText(\`@\${data.data.username}: \${data.data.response}\`, 10000);
+        }
       } catch (error) {
         console.error('Error parsing message:', error);
       }
     };
     
     function showShoutout(username) {
+      showText(\`Welcome VIP @\${username}! Thanks for being amazing!\`, 5000);
+    }
+    
+    function showText(message, durationMs) {
       // Clear any existing timeout
       if (hideTimeout) {
         clearTimeout(hideTimeout);
       }
       
       // Update text and show
-      text.textContent = \`Welcome VIP @\${username}! Thanks for being amazing!\`;
+      text.textContent = message;
       container.classList.add('show');
       
-      // Hide after 5 seconds
+      // Hide after the given duration
       hideTimeout = setTimeout(() => {
         container.classList.remove('show');
-      }, 5000);
+      }, durationMs);
     }
     
     ws.onerror = (error) => {
@@ -897,14 +1402,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/dachistream/buffer", (req, res) => {
+  // DachiStream history, newest first: ?limit=&offset=&channel=
+  app.get("/api/dachistream/cycles", async (req, res) => {
+    try {
+      const { limit, offset } = pageParams(req.query);
+      const channel = (req.query.channel as string | undefined) || undefined;
+      const [items, total] = await Promise.all([
+        storage.getDachiStreamCycles(limit, offset, channel),
+        storage.countDachiStreamCycles(channel),
+      ]);
+      res.json({ items, total, limit, offset });
+    } catch (error) {
+      console.error("Error fetching DachiStream cycles:", error);
+      res.status(500).json({ error: "Failed to fetch cycles" });
+    }
+  });
+
+  // Also filterable by &cycleId=
+  app.get("/api/dachistream/replies", async (req, res) => {
+    try {
+      const { limit, offset } = pageParams(req.query);
+      const channel = (req.query.channel as string | undefined) || undefined;
+      const cycleId = (req.query.cycleId as string | undefined) || undefined;
+      const [items, total] = await Promise.all([
+        storage.getAiReplies(limit, offset, channel, cycleId),
+        storage.countAiReplies(channel, cycleId),
+      ]);
+      res.json({ items, total, limit, offset });
+    } catch (error) {
+      console.error("Error fetching AI replies:", error);
+      res.status(500).json({ error: "Failed to fetch replies" });
+    }
+  });
+
+  app.get("/api/dachistream/buffer", async (req, res) => {
     try {
       const dachiStreamService = (req.app as any).dachiStreamService;
       if (!dachiStreamService) {
         return res.status(503).json({ error: "DachiStream service not available" });
       }
       
-      const messages = dachiStreamService.getBufferMessages();
+      // Each message carries its smart-strategy score breakdown
+      const channel = req.query.channel as string | undefined;
+      const messages = await dachiStreamService.getScoredBufferMessages(channel || undefined);
       res.json(messages);
     } catch (error) {
       console.error("Error fetching DachiStream buffer:", error);
@@ -912,6 +1452,168 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Reply Reviews
+  app.get("/api/dachistream/reviews", async (req, res) => {
+    try {
+      const replyReviewService = (req.app as any).replyReviewService;
+      if (!replyReviewService) {
+        return res.status(503).json({ error: "Reply review service not available" });
+      }
+
+      const status = req.query.status as string | undefined;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+      const reviews = await replyReviewService.getReviews(status || undefined, limit);
+      res.json(reviews);
+    } catch (error) {
+      console.error("Error fetching reply reviews:", error);
+      res.status(500).json({ error: "Failed to fetch reply reviews" });
+    }
+  });
+
+  app.post("/api/dachistream/reviews/:id/:action", async (req, res) => {
+    try {
+      const replyReviewService = (req.app as any).replyReviewService;
+      if (!replyReviewService) {
+        return res.status(503).json({ error: "Reply review service not available" });
+      }
+
+      const { id, action } = req.params;
+      if (!["approve", "reject", "regenerate"].includes(action)) {
+        return res.status(400).json({ error: "Action must be approve, reject or regenerate" });
+      }
+
+      const review = await storage.getReplyReview(id);
+      if (!review) {
+        return res.status(404).json({ error: "Reply review not found" });
+      }
+      if (review.status !== "pending") {
+        return res.status(409).json({ error: `Reply was already ${review.status.replace("_", " ")}` });
+      }
+
+      let updated;
+      if (action === "approve") {
+        updated = await replyReviewService.approve(id, typeof req.body?.reply === "string" ? req.body.reply : undefined);
+      } else if (action === "reject") {
+        updated = await replyReviewService.reject(id, typeof req.body?.reason === "string" ? req.body.reason : undefined);
+      } else {
+        updated = await replyReviewService.regenerate(id);
+        if (!updated && (await storage.getReplyReview(id))?.status === "pending") {
+          return res.status(502).json({ error: "Failed to generate a new reply" });
+        }
+      }
+
+      if (!updated) {
+        return res.status(409).json({ error: "Reply is no longer pending" });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating reply review:", error);
+      res.status(500).json({ error: "Failed to update reply review" });
+    }
+  });
+
+  // AI Learning Scheduler
+  app.get("/api/learning/status", (req, res) => {
+    try {
+      const aiLearningScheduler = (req.app as any).aiLearningScheduler;
+      if (!aiLearningScheduler) {
+        return res.status(503).json({ error: "AI learning scheduler not available" });
+      }
+
+      res.json(aiLearningScheduler.getStatus());
+    } catch (error) {
+      console.error("Error fetching AI learning status:", error);
+      res.status(500).json({ error: "Failed to fetch learning status" });
+    }
+  });
+
+  app.post("/api/learning/run", (req, res) => {
+    try {
+      const aiLearningScheduler = (req.app as any).aiLearningScheduler;
+      if (!aiLearningScheduler) {
+        return res.status(503).json({ error: "AI learning scheduler not available" });
+      }
+
+      if (!aiLearningScheduler.triggerCycle()) {
+        return res.status(409).json({ error: "A learning cycle is already running" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error starting AI learning cycle:", error);
+      res.status(500).json({ error: "Failed to start learning cycle" });
+    }
+  });
+
+  app.post("/api/learning/users/:userId", (req, res) => {
+    try {
+      const aiLearningScheduler = (req.app as any).aiLearningScheduler;
+      if (!aiLearningScheduler) {
+        return res.status(503).json({ error: "AI learning scheduler not available" });
+      }
+
+      // Queued for the next cycle; pass ?now=true to start that cycle immediately
+      aiLearningScheduler.requestUser(req.params.userId);
+      const started = req.query.now === "true" ? aiLearningScheduler.triggerCycle() : false;
+      res.json({ success: true, started });
+    } catch (error) {
+      console.error("Error queueing user for AI learning:", error);
+      res.status(500).json({ error: "Failed to queue user" });
+    }
+  });
+
+  app.get("/api/dachistream/embeddings", (req, res) => {
+    try {
+      const dachiStreamService = (req.app as any).dachiStreamService;
+      if (!dachiStreamService) {
+        return res.status(503).json({ error: "DachiStream service not available" });
+      }
+
+      res.json(dachiStreamService.embeddings.getStatus());
+    } catch (error) {
+      console.error("Error fetching embedding status:", error);
+      res.status(500).json({ error: "Failed to fetch embedding status" });
+    }
+  });
+
+  app.get("/api/dachistream/memory", async (req, res) => {
+    try {
+      const dachiStreamService = (req.app as any).dachiStreamService;
+      if (!dachiStreamService) {
+        return res.status(503).json({ error: "DachiStream service not available" });
+      }
+
+      const channel = (req.query.channel as string) || getPrimaryChannel();
+      if (!channel) {
+        return res.status(400).json({ error: "Channel is required" });
+      }
+
+      res.json(await dachiStreamService.memory.getMemory(channel));
+    } catch (error) {
+      console.error("Error fetching DachiStream memory:", error);
+      res.status(500).json({ error: "Failed to fetch memory" });
+    }
+  });
+
+  app.delete("/api/dachistream/memory", async (req, res) => {
+    try {
+      const dachiStreamService = (req.app as any).dachiStreamService;
+      if (!dachiStreamService) {
+        return res.status(503).json({ error: "DachiStream service not available" });
+      }
+
+      const channel = (req.query.channel as string) || getPrimaryChannel();
+      if (!channel) {
+        return res.status(400).json({ error: "Channel is required" });
+      }
+
+      await dachiStreamService.memory.clear(channel);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error clearing DachiStream memory:", error);
+      res.status(500).json({ error: "Failed to clear memory" });
+    }
+  });
+
   // Voice Enhancement API - with database logging
   app.post("/api/voice/enhance", async (req, res) => {
     try {
@@ -957,3 +1659,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   return httpServer;
 }
+
+// limit (1-100, default 25) and offset from a query string
+function pageParams(query: Record<string, unknown>): { limit: number; offset: number } {
+  const limit = parseInt(String(query.limit ?? ""), 10);
+  const offset = parseInt(String(query.offset ?? ""), 10);
+  return {
+    limit: Number.isFinite(limit) ? Math.max(1, Math.min(100, limit)) : 25,
+    offset: Number.isFinite(offset) ? Math.max(0, offset) : 0,
+  };
+}
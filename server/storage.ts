@@ -10,6 +10,13 @@ import {
   raids,
   voiceAiResponses,
   moderationActions,
+  streamSessions,
+  conversationMemory,
+  replyReviews,
+  dachistreamCycles,
+  aiReplies,
+  personas,
+  messageEmbeddings,
   type ChatMessage,
   type InsertChatMessage,
   type AiAnalysis,
@@ -17,6 +24,7 @@ import {
   type AiCommand,
   type InsertAiCommand,
   type Settings,
+  type SelectionWeights,
   type InsertSettings,
   type ChatMessageWithAnalysis,
   type UserProfile,
@@ -32,9 +40,36 @@ import {
   type InsertVoiceAiResponse,
   type ModerationAction,
   type InsertModerationAction,
+  type StreamSession,
+  type InsertStreamSession,
+  type StreamSessionStats,
+  type UserMessageStats,
+  type ConversationMemory,
+  type InsertConversationMemory,
+  type ConversationMemoryKind,
+  type ReplyReview,
+  type InsertReplyReview,
+  type ReplyReviewStatus,
+  type DachiStreamCycle,
+  type InsertDachiStreamCycle,
+  type AiReply,
+  type InsertAiReply,
+  type Persona,
+  type InsertPersona,
+  type PersonaEnergyModifiers,
+  type PersonaExampleExchange,
+  type PersonaScheduleWindow,
+  type MessageEmbedding,
+  type InsertMessageEmbedding,
+  normalizeChannel,
+  DEFAULT_SELECTION_WEIGHTS,
+  DEFAULT_TOPIC_ALLOWLIST,
+  DEFAULT_TOPIC_BLOCKLIST,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { getDb } from "./db";
+import { eq, and, asc, desc, isNull, inArray, max, sql, is, SQL, getTableColumns, getTableName } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import { randomUUID } from "crypto";
 
 export interface IStorage {
   // User Profiles
@@ -53,14 +88,19 @@ export interface IStorage {
   getAllUserInsights(): Promise<UserInsight[]>;
   
   // Chat Messages
-  getChatMessages(limit?: number): Promise<ChatMessageWithAnalysis[]>;
+  getChatMessages(limit?: number, channel?: string): Promise<ChatMessageWithAnalysis[]>;
   getChatMessageById(id: string): Promise<ChatMessage | undefined>;
   createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
   getMessagesByUser(userId: string, limit?: number): Promise<ChatMessage[]>;
+  getUserMessageStats(): Promise<UserMessageStats[]>;
+  countMessagesByUser(userId: string, since?: Date): Promise<number>;
+  // Oldest first, only messages strictly newer than `since` (all when null)
+  getChatMessagesSince(channel: string, since: Date | null, limit?: number): Promise<ChatMessage[]>;
   
   // AI Analysis
-  getAiAnalyses(): Promise<AiAnalysis[]>;
+  getAiAnalyses(channel?: string): Promise<AiAnalysis[]>;
   getAiAnalysisByMessageId(messageId: string): Promise<AiAnalysis | undefined>;
+  getAiAnalysesByMessageIds(messageIds: string[]): Promise<AiAnalysis[]>;
   createAiAnalysis(analysis: InsertAiAnalysis): Promise<AiAnalysis>;
   
   // AI Commands
@@ -74,8 +114,10 @@ export interface IStorage {
   // Settings
   getSettings(): Promise<Settings[]>;
   getSettingsById(id: string): Promise<Settings | undefined>;
+  getSettingsForChannel(channel: string): Promise<Settings | undefined>;
   createSettings(settings: InsertSettings): Promise<Settings>;
   updateSettings(id: string, settings: Partial<InsertSettings>): Promise<Settings>;
+  deleteSettings(id: string): Promise<void>;
   
   // Authenticated Users
   getAuthenticatedUser(): Promise<AuthenticatedUser | undefined>;
@@ -97,14 +139,65 @@ export interface IStorage {
   
   // Moderation Actions
   createModerationAction(action: InsertModerationAction): Promise<ModerationAction>;
-  getModerationActions(limit?: number): Promise<ModerationAction[]>;
+  getModerationActions(limit?: number, channel?: string): Promise<ModerationAction[]>;
   getModerationActionsSince(timestamp: Date): Promise<ModerationAction[]>;
+  
+  // Stream Sessions
+  createStreamSession(session: InsertStreamSession): Promise<StreamSession>;
+  updateStreamSession(id: string, data: Partial<InsertStreamSession>): Promise<StreamSession>;
+  getStreamSession(id: string): Promise<StreamSession | undefined>;
+  getStreamSessions(limit?: number, channel?: string): Promise<StreamSession[]>;
+  getActiveStreamSession(channel: string): Promise<StreamSession | undefined>;
+  getChatMessagesByStream(streamId: string, limit?: number): Promise<ChatMessageWithAnalysis[]>;
+  getAiAnalysesByStream(streamId: string): Promise<AiAnalysis[]>;
+  getStreamSessionStats(streamId: string): Promise<StreamSessionStats>;
+
+  // Conversation Memory (newest first)
+  createConversationMemory(entry: InsertConversationMemory): Promise<ConversationMemory>;
+  getConversationMemory(
+    channel: string,
+    kind: ConversationMemoryKind,
+    limit?: number,
+    addressedToUserId?: string
+  ): Promise<ConversationMemory[]>;
+  // When each user last got a reply in the channel; users never answered are absent
+  getLastReplyTimes(channel: string, userIds: string[]): Promise<Map<string, Date>>;
+  clearConversationMemory(channel: string): Promise<void>;
+
+  // Message Embeddings
+  saveMessageEmbedding(embedding: InsertMessageEmbedding): Promise<MessageEmbedding>;
+  getMessageEmbeddingsByUser(userId: string, model: string): Promise<MessageEmbedding[]>;
+
+  // Reply Reviews (newest first)
+  createReplyReview(review: InsertReplyReview): Promise<ReplyReview>;
+  updateReplyReview(id: string, data: Partial<InsertReplyReview>): Promise<ReplyReview>;
+  getReplyReview(id: string): Promise<ReplyReview | undefined>;
+  getReplyReviews(status?: ReplyReviewStatus, limit?: number): Promise<ReplyReview[]>;
+
+  // DachiStream History (newest first, paged with limit/offset)
+  createDachiStreamCycle(cycle: InsertDachiStreamCycle): Promise<DachiStreamCycle>;
+  updateDachiStreamCycle(id: string, data: Partial<InsertDachiStreamCycle>): Promise<DachiStreamCycle>;
+  getDachiStreamCycles(limit?: number, offset?: number, channel?: string): Promise<DachiStreamCycle[]>;
+  countDachiStreamCycles(channel?: string): Promise<number>;
+  createAiReply(reply: InsertAiReply): Promise<AiReply>;
+  updateAiReply(id: string, data: Partial<InsertAiReply>): Promise<AiReply>;
+  getAiReplies(limit?: number, offset?: number, channel?: string, cycleId?: string): Promise<AiReply[]>;
+  countAiReplies(channel?: string, cycleId?: string): Promise<number>;
+
+  // Personas (oldest first)
+  getPersonas(): Promise<Persona[]>;
+  getPersona(id: string): Promise<Persona | undefined>;
+  createPersona(persona: InsertPersona): Promise<Persona>;
+  updatePersona(id: string, data: Partial<InsertPersona>): Promise<Persona>;
+  deletePersona(id: string): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
+  private db = getDb();
+
   // User Profiles
   async getUserProfile(userId: string): Promise<UserProfile | undefined> {
-    const [profile] = await db
+    const [profile] = await this.db
       .select()
       .from(userProfiles)
       .where(eq(userProfiles.userId, userId));
@@ -112,7 +205,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getUserProfileByUsername(username: string): Promise<UserProfile | undefined> {
-    const [profile] = await db
+    const [profile] = await this.db
       .select()
       .from(userProfiles)
       .where(eq(userProfiles.username, username));
@@ -120,11 +213,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAllUserProfiles(): Promise<UserProfile[]> {
-    return await db.select().from(userProfiles).orderBy(desc(userProfiles.lastSeen));
+    return await this.db.select().from(userProfiles).orderBy(desc(userProfiles.lastSeen));
   }
 
   async getVipUsers(): Promise<UserProfile[]> {
-    return await db
+    return await this.db
       .select()
       .from(userProfiles)
       .where(eq(userProfiles.isVip, true))
@@ -135,7 +228,7 @@ export class DatabaseStorage implements IStorage {
     const existing = await this.getUserProfile(profile.userId);
     
     if (existing) {
-      const [updated] = await db
+      const [updated] = await this.db
         .update(userProfiles)
         .set({ 
           ...profile, 
@@ -145,7 +238,7 @@ export class DatabaseStorage implements IStorage {
         .returning();
       return updated;
     } else {
-      const [created] = await db
+      const [created] = await this.db
         .insert(userProfiles)
         .values(profile)
         .returning();
@@ -154,7 +247,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async toggleVip(userId: string, isVip: boolean): Promise<UserProfile> {
-    const [updated] = await db
+    const [updated] = await this.db
       .update(userProfiles)
       .set({ isVip })
       .where(eq(userProfiles.userId, userId))
@@ -163,14 +256,14 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateUserLastSeen(userId: string): Promise<void> {
-    await db
+    await this.db
       .update(userProfiles)
       .set({ lastSeen: new Date() })
       .where(eq(userProfiles.userId, userId));
   }
 
   async updateShoutoutTimestamp(userId: string): Promise<void> {
-    await db
+    await this.db
       .update(userProfiles)
       .set({ shoutoutLastGiven: new Date() })
       .where(eq(userProfiles.userId, userId));
@@ -178,7 +271,7 @@ export class DatabaseStorage implements IStorage {
 
   // User Insights
   async getUserInsight(userId: string): Promise<UserInsight | undefined> {
-    const [insight] = await db
+    const [insight] = await this.db
       .select()
       .from(userInsights)
       .where(eq(userInsights.userId, userId));
@@ -189,26 +282,36 @@ export class DatabaseStorage implements IStorage {
     const existing = await this.getUserInsight(insight.userId);
     
     if (existing) {
-      const [updated] = await db
+      const [updated] = await this.db
         .update(userInsights)
         .set({ 
           userId: insight.userId,
           summary: insight.summary,
           totalMessages: insight.totalMessages,
           recentTags: insight.recentTags as string[] | undefined,
+          interests: insight.interests as string[] | undefined,
+          games: insight.games as string[] | undefined,
+          tone: insight.tone,
+          preferredLanguage: insight.preferredLanguage,
+          insideJokes: insight.insideJokes as string[] | undefined,
           lastUpdated: new Date() 
         })
         .where(eq(userInsights.userId, insight.userId))
         .returning();
       return updated;
     } else {
-      const [created] = await db
+      const [created] = await this.db
         .insert(userInsights)
         .values({
           userId: insight.userId,
           summary: insight.summary,
           totalMessages: insight.totalMessages,
           recentTags: insight.recentTags as string[] | undefined,
+          interests: insight.interests as string[] | undefined,
+          games: insight.games as string[] | undefined,
+          tone: insight.tone,
+          preferredLanguage: insight.preferredLanguage,
+          insideJokes: insight.insideJokes as string[] | undefined,
         })
         .returning();
       return created;
@@ -216,14 +319,15 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAllUserInsights(): Promise<UserInsight[]> {
-    return await db.select().from(userInsights);
+    return await this.db.select().from(userInsights);
   }
 
   // Chat Messages
-  async getChatMessages(limit: number = 100): Promise<ChatMessageWithAnalysis[]> {
-    const messages = await db
+  async getChatMessages(limit: number = 100, channel?: string): Promise<ChatMessageWithAnalysis[]> {
+    const messages = await this.db
       .select()
       .from(chatMessages)
+      .where(channel ? eq(chatMessages.channel, `#${normalizeChannel(channel)}`) : undefined)
       .orderBy(desc(chatMessages.timestamp))
       .limit(limit);
     
@@ -240,12 +344,12 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getChatMessageById(id: string): Promise<ChatMessage | undefined> {
-    const [message] = await db.select().from(chatMessages).where(eq(chatMessages.id, id));
+    const [message] = await this.db.select().from(chatMessages).where(eq(chatMessages.id, id));
     return message || undefined;
   }
 
   async createChatMessage(insertMessage: InsertChatMessage): Promise<ChatMessage> {
-    const [message] = await db
+    const [message] = await this.db
       .insert(chatMessages)
       .values(insertMessage)
       .returning();
@@ -253,7 +357,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getMessagesByUser(userId: string, limit: number = 50): Promise<ChatMessage[]> {
-    return await db
+    return await this.db
       .select()
       .from(chatMessages)
       .where(eq(chatMessages.userId, userId))
@@ -261,28 +365,85 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  async getUserMessageStats(): Promise<UserMessageStats[]> {
+    const rows = await this.db
+      .select({
+        userId: chatMessages.userId,
+        // The name from the newest message, so renamed users show their current name
+        username: sql<string>`(array_agg(${chatMessages.username} order by ${chatMessages.timestamp} desc))[1]`,
+        messageCount: sql<number>`count(*)::int`,
+        lastMessageAt: sql<Date>`max(${chatMessages.timestamp})`,
+      })
+      .from(chatMessages)
+      .where(sql`${chatMessages.userId} is not null`)
+      .groupBy(chatMessages.userId);
+
+    return rows.map(row => ({
+      userId: row.userId!,
+      username: row.username,
+      messageCount: row.messageCount,
+      lastMessageAt: new Date(row.lastMessageAt),
+    }));
+  }
+
+  async countMessagesByUser(userId: string, since?: Date): Promise<number> {
+    const byUser = eq(chatMessages.userId, userId);
+    const [row] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(chatMessages)
+      .where(since ? and(byUser, sql`${chatMessages.timestamp} > ${since}`) : byUser);
+    return row?.count ?? 0;
+  }
+
+  async getChatMessagesSince(channel: string, since: Date | null, limit: number = 200): Promise<ChatMessage[]> {
+    const inChannel = eq(chatMessages.channel, `#${normalizeChannel(channel)}`);
+    return await this.db
+      .select()
+      .from(chatMessages)
+      .where(since ? and(inChannel, sql`${chatMessages.timestamp} > ${since}`) : inChannel)
+      .orderBy(asc(chatMessages.timestamp))
+      .limit(limit);
+  }
+
   // AI Analysis
-  async getAiAnalyses(): Promise<AiAnalysis[]> {
-    return await db.select().from(aiAnalysis).orderBy(desc(aiAnalysis.timestamp));
+  async getAiAnalyses(channel?: string): Promise<AiAnalysis[]> {
+    if (!channel) {
+      return await this.db.select().from(aiAnalysis).orderBy(desc(aiAnalysis.timestamp));
+    }
+
+    const rows = await this.db
+      .select({ analysis: aiAnalysis })
+      .from(aiAnalysis)
+      .innerJoin(chatMessages, eq(aiAnalysis.messageId, chatMessages.id))
+      .where(eq(chatMessages.channel, `#${normalizeChannel(channel)}`))
+      .orderBy(desc(aiAnalysis.timestamp));
+    return rows.map(row => row.analysis);
   }
 
   async getAiAnalysisByMessageId(messageId: string): Promise<AiAnalysis | undefined> {
-    const [analysis] = await db
+    const [analysis] = await this.db
       .select()
       .from(aiAnalysis)
       .where(eq(aiAnalysis.messageId, messageId));
     return analysis || undefined;
   }
 
+  async getAiAnalysesByMessageIds(messageIds: string[]): Promise<AiAnalysis[]> {
+    if (messageIds.length === 0) return [];
+    return await this.db.select().from(aiAnalysis).where(inArray(aiAnalysis.messageId, messageIds));
+  }
+
   async createAiAnalysis(insertAnalysis: InsertAiAnalysis): Promise<AiAnalysis> {
-    const [analysis] = await db
+    const [analysis] = await this.db
       .insert(aiAnalysis)
       .values({
         messageId: insertAnalysis.messageId,
+        streamId: insertAnalysis.streamId,
         sentiment: insertAnalysis.sentiment,
         sentimentScore: insertAnalysis.sentimentScore,
         toxicity: insertAnalysis.toxicity,
         categories: insertAnalysis.categories as string[] | undefined,
+        engine: insertAnalysis.engine,
       })
       .returning();
     return analysis;
@@ -290,11 +451,11 @@ export class DatabaseStorage implements IStorage {
 
   // AI Commands
   async getAiCommands(): Promise<AiCommand[]> {
-    return await db.select().from(aiCommands).orderBy(desc(aiCommands.createdAt));
+    return await this.db.select().from(aiCommands).orderBy(desc(aiCommands.createdAt));
   }
 
   async getAiCommandByTrigger(trigger: string): Promise<AiCommand | undefined> {
-    const [command] = await db
+    const [command] = await this.db
       .select()
       .from(aiCommands)
       .where(eq(aiCommands.trigger, trigger));
@@ -302,34 +463,40 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createAiCommand(insertCommand: InsertAiCommand): Promise<AiCommand> {
-    const [command] = await db
+    const [command] = await this.db
       .insert(aiCommands)
-      .values(insertCommand)
+      .values({
+        ...insertCommand,
+        allowedRoles: insertCommand.allowedRoles as string[] | undefined,
+      })
       .returning();
     return command;
   }
 
   async updateAiCommand(id: string, data: Partial<InsertAiCommand>): Promise<AiCommand> {
-    const [command] = await db
+    const [command] = await this.db
       .update(aiCommands)
-      .set(data)
+      .set({
+        ...data,
+        allowedRoles: data.allowedRoles as string[] | undefined,
+      })
       .where(eq(aiCommands.id, id))
       .returning();
     return command;
   }
 
   async deleteAiCommand(id: string): Promise<void> {
-    await db.delete(aiCommands).where(eq(aiCommands.id, id));
+    await this.db.delete(aiCommands).where(eq(aiCommands.id, id));
   }
 
   async incrementCommandUsage(id: string): Promise<void> {
-    const [command] = await db
+    const [command] = await this.db
       .select()
       .from(aiCommands)
       .where(eq(aiCommands.id, id));
     
     if (command) {
-      await db
+      await this.db
         .update(aiCommands)
         .set({ usageCount: command.usageCount + 1 })
         .where(eq(aiCommands.id, id));
@@ -338,33 +505,43 @@ export class DatabaseStorage implements IStorage {
 
   // Settings
   async getSettings(): Promise<Settings[]> {
-    return await db.select().from(settings);
+    return await this.db.select().from(settings).orderBy(asc(settings.createdAt));
   }
 
   async getSettingsById(id: string): Promise<Settings | undefined> {
-    const [setting] = await db.select().from(settings).where(eq(settings.id, id));
+    const [setting] = await this.db.select().from(settings).where(eq(settings.id, id));
     return setting || undefined;
   }
 
+  async getSettingsForChannel(channel: string): Promise<Settings | undefined> {
+    return settingsForChannel(await this.getSettings(), channel);
+  }
+
   async createSettings(insertSettings: InsertSettings): Promise<Settings> {
-    const [setting] = await db
+    const [setting] = await this.db
       .insert(settings)
       .values({
         ...insertSettings,
         topicAllowlist: insertSettings.topicAllowlist as string[] | undefined,
         topicBlocklist: insertSettings.topicBlocklist as string[] | undefined,
+        dachiastreamSmartWeights: insertSettings.dachiastreamSmartWeights as SelectionWeights | undefined,
+        dachiastreamWakeWords: insertSettings.dachiastreamWakeWords as string[] | undefined,
+        dachiastreamBannedWords: insertSettings.dachiastreamBannedWords as string[] | undefined,
       })
       .returning();
     return setting;
   }
 
   async updateSettings(id: string, updateData: Partial<InsertSettings>): Promise<Settings> {
-    const [setting] = await db
+    const [setting] = await this.db
       .update(settings)
       .set({ 
         ...updateData, 
         topicAllowlist: updateData.topicAllowlist as string[] | undefined,
         topicBlocklist: updateData.topicBlocklist as string[] | undefined,
+        dachiastreamSmartWeights: updateData.dachiastreamSmartWeights as SelectionWeights | undefined,
+        dachiastreamWakeWords: updateData.dachiastreamWakeWords as string[] | undefined,
+        dachiastreamBannedWords: updateData.dachiastreamBannedWords as string[] | undefined,
         updatedAt: new Date() 
       })
       .where(eq(settings.id, id))
@@ -372,9 +549,13 @@ export class DatabaseStorage implements IStorage {
     return setting;
   }
 
+  async deleteSettings(id: string): Promise<void> {
+    await this.db.delete(settings).where(eq(settings.id, id));
+  }
+
   // Authenticated Users
   async getAuthenticatedUser(): Promise<AuthenticatedUser | undefined> {
-    const [user] = await db
+    const [user] = await this.db
       .select()
       .from(authenticatedUsers)
       .limit(1);
@@ -385,7 +566,7 @@ export class DatabaseStorage implements IStorage {
     const existing = await this.getAuthenticatedUser();
     
     if (existing) {
-      const [updated] = await db
+      const [updated] = await this.db
         .update(authenticatedUsers)
         .set({ 
           ...insertUser, 
@@ -395,7 +576,7 @@ export class DatabaseStorage implements IStorage {
         .returning();
       return updated;
     } else {
-      const [created] = await db
+      const [created] = await this.db
         .insert(authenticatedUsers)
         .values(insertUser)
         .returning();
@@ -404,11 +585,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteAuthenticatedUser(): Promise<void> {
-    await db.delete(authenticatedUsers);
+    await this.db.delete(authenticatedUsers);
   }
 
   async updateAuthenticatedUserTokens(userId: string, accessToken: string, refreshToken: string, expiresAt: Date): Promise<AuthenticatedUser> {
-    const [updated] = await db
+    const [updated] = await this.db
       .update(authenticatedUsers)
       .set({ 
         accessToken,
@@ -423,7 +604,7 @@ export class DatabaseStorage implements IStorage {
 
   // Raids
   async getRaids(limit: number = 50): Promise<Raid[]> {
-    return await db
+    return await this.db
       .select()
       .from(raids)
       .orderBy(desc(raids.timestamp))
@@ -431,7 +612,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createRaid(raid: InsertRaid): Promise<Raid> {
-    const [created] = await db
+    const [created] = await this.db
       .insert(raids)
       .values(raid)
       .returning();
@@ -441,7 +622,7 @@ export class DatabaseStorage implements IStorage {
   // Browser Source
   async generateBrowserSourceToken(settingsId: string): Promise<string> {
     const token = crypto.randomUUID();
-    await db
+    await this.db
       .update(settings)
       .set({ 
         browserSourceToken: token,
@@ -452,7 +633,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getBrowserSourceSettings(token: string): Promise<Settings | undefined> {
-    const [setting] = await db
+    const [setting] = await this.db
       .select()
       .from(settings)
       .where(eq(settings.browserSourceToken, token));
@@ -461,7 +642,7 @@ export class DatabaseStorage implements IStorage {
 
   // Voice AI Responses
   async createVoiceAiResponse(response: InsertVoiceAiResponse): Promise<VoiceAiResponse> {
-    const [created] = await db
+    const [created] = await this.db
       .insert(voiceAiResponses)
       .values(response)
       .returning();
@@ -469,7 +650,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getVoiceAiResponses(limit: number = 50): Promise<VoiceAiResponse[]> {
-    return await db
+    return await this.db
       .select()
       .from(voiceAiResponses)
       .orderBy(desc(voiceAiResponses.timestamp))
@@ -478,28 +659,1089 @@ export class DatabaseStorage implements IStorage {
 
   // Moderation Actions
   async createModerationAction(action: InsertModerationAction): Promise<ModerationAction> {
-    const [created] = await db
+    const [created] = await this.db
       .insert(moderationActions)
-      .values(action)
+      .values({ ...action, channel: action.channel ? normalizeChannel(action.channel) : null })
       .returning();
     return created;
   }
 
-  async getModerationActions(limit: number = 50): Promise<ModerationAction[]> {
-    return await db
+  async getModerationActions(limit: number = 50, channel?: string): Promise<ModerationAction[]> {
+    return await this.db
       .select()
       .from(moderationActions)
+      .where(channel ? eq(moderationActions.channel, normalizeChannel(channel)) : undefined)
       .orderBy(desc(moderationActions.timestamp))
       .limit(limit);
   }
 
   async getModerationActionsSince(timestamp: Date): Promise<ModerationAction[]> {
-    return await db
+    return await this.db
       .select()
       .from(moderationActions)
       .where(sql`${moderationActions.timestamp} > ${timestamp}`)
       .orderBy(desc(moderationActions.timestamp));
   }
+
+  // Stream Sessions
+  async createStreamSession(session: InsertStreamSession): Promise<StreamSession> {
+    const [created] = await this.db
+      .insert(streamSessions)
+      .values({ ...session, channel: normalizeChannel(session.channel) })
+      .returning();
+    return created;
+  }
+
+  async updateStreamSession(id: string, data: Partial<InsertStreamSession>): Promise<StreamSession> {
+    const [updated] = await this.db
+      .update(streamSessions)
+      .set(data)
+      .where(eq(streamSessions.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getStreamSession(id: string): Promise<StreamSession | undefined> {
+    const [session] = await this.db.select().from(streamSessions).where(eq(streamSessions.id, id));
+    return session || undefined;
+  }
+
+  async getStreamSessions(limit: number = 20, channel?: string): Promise<StreamSession[]> {
+    return await this.db
+      .select()
+      .from(streamSessions)
+      .where(channel ? eq(streamSessions.channel, normalizeChannel(channel)) : undefined)
+      .orderBy(desc(streamSessions.startedAt))
+      .limit(limit);
+  }
+
+  async getActiveStreamSession(channel: string): Promise<StreamSession | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(streamSessions)
+      .where(and(eq(streamSessions.channel, normalizeChannel(channel)), isNull(streamSessions.endedAt)))
+      .orderBy(desc(streamSessions.startedAt))
+      .limit(1);
+    return session || undefined;
+  }
+
+  async getChatMessagesByStream(streamId: string, limit: number = 500): Promise<ChatMessageWithAnalysis[]> {
+    const messages = await this.db
+      .select()
+      .from(chatMessages)
+      .where(eq(chatMessages.streamId, streamId))
+      .orderBy(desc(chatMessages.timestamp))
+      .limit(limit);
+
+    const analyses = await this.getAiAnalysesByStream(streamId);
+    const analysisByMessage = new Map(analyses.map(analysis => [analysis.messageId, analysis]));
+
+    return messages
+      .map(message => ({ ...message, analysis: analysisByMessage.get(message.id) }))
+      .reverse();
+  }
+
+  async getAiAnalysesByStream(streamId: string): Promise<AiAnalysis[]> {
+    return await this.db
+      .select()
+      .from(aiAnalysis)
+      .where(eq(aiAnalysis.streamId, streamId))
+      .orderBy(desc(aiAnalysis.timestamp));
+  }
+
+  async getStreamSessionStats(streamId: string): Promise<StreamSessionStats> {
+    const [messageStats] = await this.db
+      .select({
+        messageCount: sql<number>`count(*)::int`,
+        uniqueChatters: sql<number>`count(distinct ${chatMessages.username})::int`,
+      })
+      .from(chatMessages)
+      .where(eq(chatMessages.streamId, streamId));
+
+    const [analysisStats] = await this.db
+      .select({
+        analyzedCount: sql<number>`count(*)::int`,
+        averageSentiment: sql<number | null>`avg(${aiAnalysis.sentimentScore})::float`,
+        toxicCount: sql<number>`count(*) filter (where ${aiAnalysis.toxicity})::int`,
+      })
+      .from(aiAnalysis)
+      .where(eq(aiAnalysis.streamId, streamId));
+
+    const [raidStats] = await this.db
+      .select({ raidCount: sql<number>`count(*)::int` })
+      .from(raids)
+      .where(eq(raids.streamId, streamId));
+
+    return {
+      messageCount: messageStats?.messageCount ?? 0,
+      uniqueChatters: messageStats?.uniqueChatters ?? 0,
+      analyzedCount: analysisStats?.analyzedCount ?? 0,
+      averageSentiment: analysisStats?.averageSentiment ?? null,
+      toxicCount: analysisStats?.toxicCount ?? 0,
+      raidCount: raidStats?.raidCount ?? 0,
+    };
+  }
+
+  // Conversation Memory
+  async createConversationMemory(entry: InsertConversationMemory): Promise<ConversationMemory> {
+    const [created] = await this.db
+      .insert(conversationMemory)
+      .values({ ...entry, channel: normalizeChannel(entry.channel) })
+      .returning();
+    return created;
+  }
+
+  async getConversationMemory(
+    channel: string,
+    kind: ConversationMemoryKind,
+    limit: number = 10,
+    addressedToUserId?: string
+  ): Promise<ConversationMemory[]> {
+    const conditions = [
+      eq(conversationMemory.channel, normalizeChannel(channel)),
+      eq(conversationMemory.kind, kind),
+    ];
+    if (addressedToUserId) {
+      conditions.push(eq(conversationMemory.addressedToUserId, addressedToUserId));
+    }
+
+    return await this.db
+      .select()
+      .from(conversationMemory)
+      .where(and(...conditions))
+      .orderBy(desc(conversationMemory.createdAt))
+      .limit(limit);
+  }
+
+  async getLastReplyTimes(channel: string, userIds: string[]): Promise<Map<string, Date>> {
+    if (userIds.length === 0) return new Map();
+
+    const rows = await this.db
+      .select({ userId: conversationMemory.addressedToUserId, repliedAt: max(conversationMemory.createdAt) })
+      .from(conversationMemory)
+      .where(and(
+        eq(conversationMemory.channel, normalizeChannel(channel)),
+        eq(conversationMemory.kind, "reply"),
+        inArray(conversationMemory.addressedToUserId, userIds)
+      ))
+      .groupBy(conversationMemory.addressedToUserId);
+
+    const times = new Map<string, Date>();
+    for (const row of rows) {
+      if (row.userId && row.repliedAt) times.set(row.userId, row.repliedAt);
+    }
+    return times;
+  }
+
+  async clearConversationMemory(channel: string): Promise<void> {
+    await this.db.delete(conversationMemory).where(eq(conversationMemory.channel, normalizeChannel(channel)));
+  }
+
+  // Message Embeddings
+  async saveMessageEmbedding(embedding: InsertMessageEmbedding): Promise<MessageEmbedding> {
+    const values = { ...embedding, vector: embedding.vector as number[] };
+    const [saved] = await this.db
+      .insert(messageEmbeddings)
+      .values(values)
+      .onConflictDoUpdate({ target: messageEmbeddings.messageId, set: values })
+      .returning();
+    return saved;
+  }
+
+  async getMessageEmbeddingsByUser(userId: string, model: string): Promise<MessageEmbedding[]> {
+    return await this.db
+      .select()
+      .from(messageEmbeddings)
+      .where(and(eq(messageEmbeddings.userId, userId), eq(messageEmbeddings.model, model)));
+  }
+
+  // Reply Reviews
+  async createReplyReview(review: InsertReplyReview): Promise<ReplyReview> {
+    const [created] = await this.db
+      .insert(replyReviews)
+      .values({ ...review, channel: normalizeChannel(review.channel) })
+      .returning();
+    return created;
+  }
+
+  async updateReplyReview(id: string, data: Partial<InsertReplyReview>): Promise<ReplyReview> {
+    const [updated] = await this.db
+      .update(replyReviews)
+      .set(data)
+      .where(eq(replyReviews.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getReplyReview(id: string): Promise<ReplyReview | undefined> {
+    const [review] = await this.db.select().from(replyReviews).where(eq(replyReviews.id, id));
+    return review || undefined;
+  }
+
+  async getReplyReviews(status?: ReplyReviewStatus, limit: number = 50): Promise<ReplyReview[]> {
+    return await this.db
+      .select()
+      .from(replyReviews)
+      .where(status ? eq(replyReviews.status, status) : undefined)
+      .orderBy(desc(replyReviews.createdAt))
+      .limit(limit);
+  }
+
+  // DachiStream History
+  async createDachiStreamCycle(cycle: InsertDachiStreamCycle): Promise<DachiStreamCycle> {
+    const [created] = await this.db
+      .insert(dachistreamCycles)
+      .values({ ...cycle, channel: normalizeChannel(cycle.channel) })
+      .returning();
+    return created;
+  }
+
+  async updateDachiStreamCycle(id: string, data: Partial<InsertDachiStreamCycle>): Promise<DachiStreamCycle> {
+    const [updated] = await this.db
+      .update(dachistreamCycles)
+      .set(data)
+      .where(eq(dachistreamCycles.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getDachiStreamCycles(limit: number = 50, offset: number = 0, channel?: string): Promise<DachiStreamCycle[]> {
+    return await this.db
+      .select()
+      .from(dachistreamCycles)
+      .where(channel ? eq(dachistreamCycles.channel, normalizeChannel(channel)) : undefined)
+      .orderBy(desc(dachistreamCycles.startedAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async countDachiStreamCycles(channel?: string): Promise<number> {
+    const [result] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(dachistreamCycles)
+      .where(channel ? eq(dachistreamCycles.channel, normalizeChannel(channel)) : undefined);
+    return result?.count || 0;
+  }
+
+  async createAiReply(reply: InsertAiReply): Promise<AiReply> {
+    const [created] = await this.db
+      .insert(aiReplies)
+      .values({ ...reply, channel: normalizeChannel(reply.channel) })
+      .returning();
+    return created;
+  }
+
+  async updateAiReply(id: string, data: Partial<InsertAiReply>): Promise<AiReply> {
+    const [updated] = await this.db
+      .update(aiReplies)
+      .set(data)
+      .where(eq(aiReplies.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getAiReplies(limit: number = 50, offset: number = 0, channel?: string, cycleId?: string): Promise<AiReply[]> {
+    return await this.db
+      .select()
+      .from(aiReplies)
+      .where(this.aiReplyFilter(channel, cycleId))
+      .orderBy(desc(aiReplies.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async countAiReplies(channel?: string, cycleId?: string): Promise<number> {
+    const [result] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(aiReplies)
+      .where(this.aiReplyFilter(channel, cycleId));
+    return result?.count || 0;
+  }
+
+  private aiReplyFilter(channel?: string, cycleId?: string): SQL | undefined {
+    return and(
+      channel ? eq(aiReplies.channel, normalizeChannel(channel)) : undefined,
+      cycleId ? eq(aiReplies.cycleId, cycleId) : undefined
+    );
+  }
+
+  // Personas
+  async getPersonas(): Promise<Persona[]> {
+    return await this.db.select().from(personas).orderBy(asc(personas.createdAt));
+  }
+
+  async getPersona(id: string): Promise<Persona | undefined> {
+    const [persona] = await this.db.select().from(personas).where(eq(personas.id, id));
+    return persona || undefined;
+  }
+
+  async createPersona(persona: InsertPersona): Promise<Persona> {
+    const [created] = await this.db
+      .insert(personas)
+      .values({ ...persona, ...personaJson(persona) })
+      .returning();
+    return created;
+  }
+
+  async updatePersona(id: string, data: Partial<InsertPersona>): Promise<Persona> {
+    const [updated] = await this.db
+      .update(personas)
+      .set({ ...data, ...personaJson(data), updatedAt: new Date() })
+      .where(eq(personas.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deletePersona(id: string): Promise<void> {
+    await this.db.delete(personas).where(eq(personas.id, id));
+  }
+}
+
+// What Postgres generates for columns whose defaults are SQL expressions
+// (gen_random_uuid(), now() and jsonb literals). Keep in step with
+// shared/schema.ts; buildRow throws for any SQL default missing here.
+const GENERATED_DEFAULTS = new Map<PgTable, () => Record<string, unknown>>([
+  [userProfiles, () => ({ id: randomUUID(), firstSeen: new Date(), lastSeen: new Date() })],
+  [userInsights, () => ({ recentTags: [], interests: [], games: [], insideJokes: [], lastUpdated: new Date() })],
+  [chatMessages, () => ({ id: randomUUID(), timestamp: new Date() })],
+  [aiAnalysis, () => ({ id: randomUUID(), timestamp: new Date() })],
+  [aiCommands, () => ({ id: randomUUID(), allowedRoles: [], createdAt: new Date() })],
+  [voiceAiResponses, () => ({ id: randomUUID(), timestamp: new Date() })],
+  [authenticatedUsers, () => ({ id: randomUUID(), createdAt: new Date(), updatedAt: new Date() })],
+  [raids, () => ({ id: randomUUID(), timestamp: new Date() })],
+  [streamSessions, () => ({ id: randomUUID(), startedAt: new Date() })],
+  [conversationMemory, () => ({ id: randomUUID(), createdAt: new Date() })],
+  [messageEmbeddings, () => ({ createdAt: new Date() })],
+  [replyReviews, () => ({ id: randomUUID(), createdAt: new Date() })],
+  [dachistreamCycles, () => ({ id: randomUUID(), startedAt: new Date() })],
+  [aiReplies, () => ({ id: randomUUID(), createdAt: new Date() })],
+  [
+    personas,
+    () => ({
+      id: randomUUID(),
+      energyModifiers: {},
+      exampleExchanges: [],
+      catchphrases: [],
+      bannedPhrases: [],
+      scheduleCategories: [],
+      scheduleWindows: [],
+      scheduleChannels: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }),
+  ],
+  [moderationActions, () => ({ id: randomUUID(), timestamp: new Date() })],
+  [
+    settings,
+    () => ({
+      id: randomUUID(),
+      topicAllowlist: [...DEFAULT_TOPIC_ALLOWLIST],
+      topicBlocklist: [...DEFAULT_TOPIC_BLOCKLIST],
+      dachiastreamSmartWeights: { ...DEFAULT_SELECTION_WEIGHTS },
+      dachiastreamWakeWords: [],
+      dachiastreamBannedWords: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }),
+  ],
+]);
+
+/**
+ * The entries of an update that are actually set. Drizzle skips undefined
+ * values in .set(), so the in-memory merge has to as well.
+ */
+function definedOnly<T extends object>(data: T): Partial<T> {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+/**
+ * Fill in column defaults the way Postgres would for an inserted row:
+ * plain defaults come from the column, SQL ones from GENERATED_DEFAULTS.
+ */
+function buildRow<T extends PgTable>(table: T, values: Record<string, unknown>): T["$inferSelect"] {
+  const generated = GENERATED_DEFAULTS.get(table)?.() ?? {};
+  const row: Record<string, unknown> = {};
+
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    if (values[key] !== undefined) {
+      row[key] = values[key];
+    } else if (key in generated) {
+      row[key] = generated[key];
+    } else if (!column.hasDefault) {
+      row[key] = null;
+    } else if (is(column.default, SQL)) {
+      throw new Error(`No in-memory default for ${getTableName(table)}.${key}`);
+    } else {
+      row[key] = column.default;
+    }
+  }
+
+  return row as T["$inferSelect"];
+}
+
+/**
+ * Pick the settings row for a channel, falling back to the primary (oldest)
+ * row so channels without their own row share the main configuration.
+ */
+function settingsForChannel(rows: Settings[], channel: string): Settings | undefined {
+  const name = normalizeChannel(channel);
+  return rows.find(row => row.twitchChannel && normalizeChannel(row.twitchChannel) === name) || rows[0];
+}
+
+// drizzle-zod types jsonb columns as plain JSON; narrow them for the insert/update builders
+function personaJson(data: Partial<InsertPersona>) {
+  return {
+    energyModifiers: data.energyModifiers as PersonaEnergyModifiers | undefined,
+    exampleExchanges: data.exampleExchanges as PersonaExampleExchange[] | undefined,
+    catchphrases: data.catchphrases as string[] | undefined,
+    bannedPhrases: data.bannedPhrases as string[] | undefined,
+    scheduleCategories: data.scheduleCategories as string[] | undefined,
+    scheduleWindows: data.scheduleWindows as PersonaScheduleWindow[] | undefined,
+    scheduleChannels: data.scheduleChannels as string[] | undefined,
+  };
+}
+
+function newestFirst<T>(rows: T[], getTime: (row: T) => Date): T[] {
+  // Reverse first so rows sharing a timestamp keep newest-inserted first
+  return [...rows].reverse().sort((a, b) => getTime(b).getTime() - getTime(a).getTime());
+}
+
+/**
+ * In-memory storage for tests and offline mode (STORAGE_MODE=memory).
+ * Data lives for the lifetime of the process only.
+ */
+export class MemStorage implements IStorage {
+  private userProfiles: Map<string, UserProfile> = new Map();
+  private userInsights: Map<string, UserInsight> = new Map();
+  private chatMessages: ChatMessage[] = [];
+  private aiAnalyses: AiAnalysis[] = [];
+  private aiCommands: Map<string, AiCommand> = new Map();
+  private settings: Map<string, Settings> = new Map();
+  private authenticatedUser: AuthenticatedUser | undefined;
+  private raids: Raid[] = [];
+  private voiceAiResponses: VoiceAiResponse[] = [];
+  private moderationActions: ModerationAction[] = [];
+  private streamSessions: Map<string, StreamSession> = new Map();
+  private conversationMemory: ConversationMemory[] = [];
+  private messageEmbeddings: Map<string, MessageEmbedding> = new Map();
+  private replyReviews: Map<string, ReplyReview> = new Map();
+  private dachistreamCycles: Map<string, DachiStreamCycle> = new Map();
+  private aiReplies: Map<string, AiReply> = new Map();
+  private personas: Map<string, Persona> = new Map();
+
+  // User Profiles
+  async getUserProfile(userId: string): Promise<UserProfile | undefined> {
+    return this.userProfiles.get(userId);
+  }
+
+  async getUserProfileByUsername(username: string): Promise<UserProfile | undefined> {
+    return Array.from(this.userProfiles.values()).find(profile => profile.username === username);
+  }
+
+  async getAllUserProfiles(): Promise<UserProfile[]> {
+    return newestFirst(Array.from(this.userProfiles.values()), profile => profile.lastSeen);
+  }
+
+  async getVipUsers(): Promise<UserProfile[]> {
+    return (await this.getAllUserProfiles()).filter(profile => profile.isVip);
+  }
+
+  async createOrUpdateUserProfile(profile: InsertUserProfile): Promise<UserProfile> {
+    const existing = this.userProfiles.get(profile.userId);
+
+    const saved: UserProfile = existing
+      ? { ...existing, ...definedOnly(profile), lastSeen: new Date() }
+      : buildRow(userProfiles, profile);
+
+    this.userProfiles.set(profile.userId, saved);
+    return saved;
+  }
+
+  async toggleVip(userId: string, isVip: boolean): Promise<UserProfile> {
+    const existing = this.userProfiles.get(userId);
+    if (!existing) {
+      throw new Error(`User profile not found: ${userId}`);
+    }
+
+    const updated = { ...existing, isVip };
+    this.userProfiles.set(userId, updated);
+    return updated;
+  }
+
+  async updateUserLastSeen(userId: string): Promise<void> {
+    const existing = this.userProfiles.get(userId);
+    if (existing) {
+      this.userProfiles.set(userId, { ...existing, lastSeen: new Date() });
+    }
+  }
+
+  async updateShoutoutTimestamp(userId: string): Promise<void> {
+    const existing = this.userProfiles.get(userId);
+    if (existing) {
+      this.userProfiles.set(userId, { ...existing, shoutoutLastGiven: new Date() });
+    }
+  }
+
+  // User Insights
+  async getUserInsight(userId: string): Promise<UserInsight | undefined> {
+    return this.userInsights.get(userId);
+  }
+
+  async saveUserInsight(insight: InsertUserInsight): Promise<UserInsight> {
+    const existing = this.userInsights.get(insight.userId);
+
+    const saved: UserInsight = existing
+      ? { ...existing, ...definedOnly(insight), lastUpdated: new Date() } as UserInsight
+      : buildRow(userInsights, insight);
+
+    this.userInsights.set(insight.userId, saved);
+    return saved;
+  }
+
+  async getAllUserInsights(): Promise<UserInsight[]> {
+    return Array.from(this.userInsights.values());
+  }
+
+  // Chat Messages
+  async getChatMessages(limit: number = 100, channel?: string): Promise<ChatMessageWithAnalysis[]> {
+    const channelMessages = channel
+      ? this.chatMessages.filter(message => message.channel === `#${normalizeChannel(channel)}`)
+      : this.chatMessages;
+    const messages = newestFirst(channelMessages, message => message.timestamp).slice(0, limit);
+
+    const messagesWithAnalysis: ChatMessageWithAnalysis[] = [];
+    for (const message of messages) {
+      const analysis = await this.getAiAnalysisByMessageId(message.id);
+      messagesWithAnalysis.push({
+        ...message,
+        analysis,
+      });
+    }
+
+    return messagesWithAnalysis.reverse();
+  }
+
+  async getChatMessageById(id: string): Promise<ChatMessage | undefined> {
+    return this.chatMessages.find(message => message.id === id);
+  }
+
+  async createChatMessage(insertMessage: InsertChatMessage): Promise<ChatMessage> {
+    const message = buildRow(chatMessages, insertMessage);
+    this.chatMessages.push(message);
+    return message;
+  }
+
+  async getMessagesByUser(userId: string, limit: number = 50): Promise<ChatMessage[]> {
+    return newestFirst(
+      this.chatMessages.filter(message => message.userId === userId),
+      message => message.timestamp
+    ).slice(0, limit);
+  }
+
+  async getUserMessageStats(): Promise<UserMessageStats[]> {
+    const stats = new Map<string, UserMessageStats>();
+    for (const message of this.chatMessages) {
+      if (!message.userId) continue;
+
+      const existing = stats.get(message.userId);
+      if (!existing) {
+        stats.set(message.userId, {
+          userId: message.userId,
+          username: message.username,
+          messageCount: 1,
+          lastMessageAt: message.timestamp,
+        });
+      } else {
+        existing.messageCount++;
+        if (message.timestamp.getTime() >= existing.lastMessageAt.getTime()) {
+          existing.lastMessageAt = message.timestamp;
+          existing.username = message.username;
+        }
+      }
+    }
+    return Array.from(stats.values());
+  }
+
+  async countMessagesByUser(userId: string, since?: Date): Promise<number> {
+    return this.chatMessages.filter(
+      message => message.userId === userId && (!since || message.timestamp.getTime() > since.getTime())
+    ).length;
+  }
+
+  async getChatMessagesSince(channel: string, since: Date | null, limit: number = 200): Promise<ChatMessage[]> {
+    return newestFirst(
+      this.chatMessages.filter(
+        message =>
+          message.channel === `#${normalizeChannel(channel)}` &&
+          (!since || message.timestamp.getTime() > since.getTime())
+      ),
+      message => message.timestamp
+    )
+      .reverse()
+      .slice(0, limit);
+  }
+
+  // AI Analysis
+  async getAiAnalyses(channel?: string): Promise<AiAnalysis[]> {
+    if (!channel) {
+      return newestFirst(this.aiAnalyses, analysis => analysis.timestamp);
+    }
+
+    const channelName = `#${normalizeChannel(channel)}`;
+    const messageIds = new Set(
+      this.chatMessages.filter(message => message.channel === channelName).map(message => message.id)
+    );
+    return newestFirst(
+      this.aiAnalyses.filter(analysis => messageIds.has(analysis.messageId)),
+      analysis => analysis.timestamp
+    );
+  }
+
+  async getAiAnalysisByMessageId(messageId: string): Promise<AiAnalysis | undefined> {
+    return this.aiAnalyses.find(analysis => analysis.messageId === messageId);
+  }
+
+  async getAiAnalysesByMessageIds(messageIds: string[]): Promise<AiAnalysis[]> {
+    const ids = new Set(messageIds);
+    return this.aiAnalyses.filter(analysis => ids.has(analysis.messageId));
+  }
+
+  async createAiAnalysis(insertAnalysis: InsertAiAnalysis): Promise<AiAnalysis> {
+    if (!this.chatMessages.some(message => message.id === insertAnalysis.messageId)) {
+      throw new Error(`Chat message not found: ${insertAnalysis.messageId}`);
+    }
+
+    const analysis = buildRow(aiAnalysis, insertAnalysis);
+    this.aiAnalyses.push(analysis);
+    return analysis;
+  }
+
+  // AI Commands
+  async getAiCommands(): Promise<AiCommand[]> {
+    return newestFirst(Array.from(this.aiCommands.values()), command => command.createdAt);
+  }
+
+  async getAiCommandByTrigger(trigger: string): Promise<AiCommand | undefined> {
+    return Array.from(this.aiCommands.values()).find(command => command.trigger === trigger);
+  }
+
+  async createAiCommand(insertCommand: InsertAiCommand): Promise<AiCommand> {
+    if (await this.getAiCommandByTrigger(insertCommand.trigger)) {
+      throw new Error(`Command trigger already exists: ${insertCommand.trigger}`);
+    }
+
+    const command = buildRow(aiCommands, insertCommand);
+    this.aiCommands.set(command.id, command);
+    return command;
+  }
+
+  async updateAiCommand(id: string, data: Partial<InsertAiCommand>): Promise<AiCommand> {
+    const existing = this.aiCommands.get(id);
+    if (!existing) {
+      throw new Error(`Command not found: ${id}`);
+    }
+
+    const updated = { ...existing, ...definedOnly(data) } as AiCommand;
+    this.aiCommands.set(id, updated);
+    return updated;
+  }
+
+  async deleteAiCommand(id: string): Promise<void> {
+    this.aiCommands.delete(id);
+  }
+
+  async incrementCommandUsage(id: string): Promise<void> {
+    const command = this.aiCommands.get(id);
+    if (command) {
+      this.aiCommands.set(id, { ...command, usageCount: command.usageCount + 1 });
+    }
+  }
+
+  // Settings
+  async getSettings(): Promise<Settings[]> {
+    return Array.from(this.settings.values());
+  }
+
+  async getSettingsById(id: string): Promise<Settings | undefined> {
+    return this.settings.get(id);
+  }
+
+  async getSettingsForChannel(channel: string): Promise<Settings | undefined> {
+    return settingsForChannel(await this.getSettings(), channel);
+  }
+
+  async createSettings(insertSettings: InsertSettings): Promise<Settings> {
+    const setting = buildRow(settings, insertSettings);
+    this.settings.set(setting.id, setting);
+    return setting;
+  }
+
+  async updateSettings(id: string, updateData: Partial<InsertSettings>): Promise<Settings> {
+    const existing = this.settings.get(id);
+    if (!existing) {
+      throw new Error(`Settings not found: ${id}`);
+    }
+
+    const updated = { ...existing, ...definedOnly(updateData), updatedAt: new Date() } as Settings;
+    this.settings.set(id, updated);
+    return updated;
+  }
+
+  async deleteSettings(id: string): Promise<void> {
+    this.settings.delete(id);
+  }
+
+  // Authenticated Users
+  async getAuthenticatedUser(): Promise<AuthenticatedUser | undefined> {
+    return this.authenticatedUser;
+  }
+
+  async saveAuthenticatedUser(insertUser: InsertAuthenticatedUser): Promise<AuthenticatedUser> {
+    this.authenticatedUser = this.authenticatedUser
+      ? { ...this.authenticatedUser, ...insertUser, updatedAt: new Date() } as AuthenticatedUser
+      : buildRow(authenticatedUsers, insertUser);
+    return this.authenticatedUser;
+  }
+
+  async deleteAuthenticatedUser(): Promise<void> {
+    this.authenticatedUser = undefined;
+  }
+
+  async updateAuthenticatedUserTokens(userId: string, accessToken: string, refreshToken: string, expiresAt: Date): Promise<AuthenticatedUser> {
+    if (!this.authenticatedUser || this.authenticatedUser.id !== userId) {
+      throw new Error(`Authenticated user not found: ${userId}`);
+    }
+
+    this.authenticatedUser = {
+      ...this.authenticatedUser,
+      accessToken,
+      refreshToken,
+      tokenExpiresAt: expiresAt,
+      updatedAt: new Date(),
+    };
+    return this.authenticatedUser;
+  }
+
+  // Raids
+  async getRaids(limit: number = 50): Promise<Raid[]> {
+    return newestFirst(this.raids, raid => raid.timestamp).slice(0, limit);
+  }
+
+  async createRaid(raid: InsertRaid): Promise<Raid> {
+    const created = buildRow(raids, raid);
+    this.raids.push(created);
+    return created;
+  }
+
+  // Browser Source
+  async generateBrowserSourceToken(settingsId: string): Promise<string> {
+    const token = randomUUID();
+    const existing = this.settings.get(settingsId);
+    if (existing) {
+      this.settings.set(settingsId, { ...existing, browserSourceToken: token, updatedAt: new Date() });
+    }
+    return token;
+  }
+
+  async getBrowserSourceSettings(token: string): Promise<Settings | undefined> {
+    return Array.from(this.settings.values()).find(setting => setting.browserSourceToken === token);
+  }
+
+  // Voice AI Responses
+  async createVoiceAiResponse(response: InsertVoiceAiResponse): Promise<VoiceAiResponse> {
+    const created = buildRow(voiceAiResponses, response);
+    this.voiceAiResponses.push(created);
+    return created;
+  }
+
+  async getVoiceAiResponses(limit: number = 50): Promise<VoiceAiResponse[]> {
+    return newestFirst(this.voiceAiResponses, response => response.timestamp).slice(0, limit);
+  }
+
+  // Moderation Actions
+  async createModerationAction(action: InsertModerationAction): Promise<ModerationAction> {
+    const created = buildRow(moderationActions, {
+      ...action,
+      channel: action.channel ? normalizeChannel(action.channel) : null,
+    });
+    this.moderationActions.push(created);
+    return created;
+  }
+
+  async getModerationActions(limit: number = 50, channel?: string): Promise<ModerationAction[]> {
+    const name = channel ? normalizeChannel(channel) : undefined;
+    return newestFirst(
+      this.moderationActions.filter(action => !name || action.channel === name),
+      action => action.timestamp
+    ).slice(0, limit);
+  }
+
+  async getModerationActionsSince(timestamp: Date): Promise<ModerationAction[]> {
+    return newestFirst(
+      this.moderationActions.filter(action => action.timestamp > timestamp),
+      action => action.timestamp
+    );
+  }
+
+  // Stream Sessions
+  async createStreamSession(session: InsertStreamSession): Promise<StreamSession> {
+    const created = buildRow(streamSessions, { ...session, channel: normalizeChannel(session.channel) });
+    this.streamSessions.set(created.id, created);
+    return created;
+  }
+
+  async updateStreamSession(id: string, data: Partial<InsertStreamSession>): Promise<StreamSession> {
+    const existing = this.streamSessions.get(id);
+    if (!existing) {
+      throw new Error(`Stream session not found: ${id}`);
+    }
+
+    const updated = { ...existing, ...definedOnly(data) };
+    this.streamSessions.set(id, updated);
+    return updated;
+  }
+
+  async getStreamSession(id: string): Promise<StreamSession | undefined> {
+    return this.streamSessions.get(id);
+  }
+
+  async getStreamSessions(limit: number = 20, channel?: string): Promise<StreamSession[]> {
+    const sessions = Array.from(this.streamSessions.values()).filter(
+      session => !channel || session.channel === normalizeChannel(channel)
+    );
+    return newestFirst(sessions, session => session.startedAt).slice(0, limit);
+  }
+
+  async getActiveStreamSession(channel: string): Promise<StreamSession | undefined> {
+    const sessions = await this.getStreamSessions(Infinity, channel);
+    return sessions.find(session => session.endedAt === null);
+  }
+
+  async getChatMessagesByStream(streamId: string, limit: number = 500): Promise<ChatMessageWithAnalysis[]> {
+    const messages = newestFirst(
+      this.chatMessages.filter(message => message.streamId === streamId),
+      message => message.timestamp
+    ).slice(0, limit);
+
+    return messages
+      .map(message => ({
+        ...message,
+        analysis: this.aiAnalyses.find(analysis => analysis.messageId === message.id),
+      }))
+      .reverse();
+  }
+
+  async getAiAnalysesByStream(streamId: string): Promise<AiAnalysis[]> {
+    return newestFirst(
+      this.aiAnalyses.filter(analysis => analysis.streamId === streamId),
+      analysis => analysis.timestamp
+    );
+  }
+
+  async getStreamSessionStats(streamId: string): Promise<StreamSessionStats> {
+    const messages = this.chatMessages.filter(message => message.streamId === streamId);
+    const analyses = this.aiAnalyses.filter(analysis => analysis.streamId === streamId);
+
+    return {
+      messageCount: messages.length,
+      uniqueChatters: new Set(messages.map(message => message.username)).size,
+      analyzedCount: analyses.length,
+      averageSentiment: analyses.length > 0
+        ? analyses.reduce((sum, analysis) => sum + analysis.sentimentScore, 0) / analyses.length
+        : null,
+      toxicCount: analyses.filter(analysis => analysis.toxicity).length,
+      raidCount: this.raids.filter(raid => raid.streamId === streamId).length,
+    };
+  }
+
+  // Conversation Memory
+  async createConversationMemory(entry: InsertConversationMemory): Promise<ConversationMemory> {
+    const created = buildRow(conversationMemory, { ...entry, channel: normalizeChannel(entry.channel) });
+    this.conversationMemory.push(created);
+    return created;
+  }
+
+  async getConversationMemory(
+    channel: string,
+    kind: ConversationMemoryKind,
+    limit: number = 10,
+    addressedToUserId?: string
+  ): Promise<ConversationMemory[]> {
+    const name = normalizeChannel(channel);
+    return newestFirst(
+      this.conversationMemory.filter(
+        entry =>
+          entry.channel === name &&
+          entry.kind === kind &&
+          (!addressedToUserId || entry.addressedToUserId === addressedToUserId)
+      ),
+      entry => entry.createdAt
+    ).slice(0, limit);
+  }
+
+  async getLastReplyTimes(channel: string, userIds: string[]): Promise<Map<string, Date>> {
+    const name = normalizeChannel(channel);
+    const ids = new Set(userIds);
+    const times = new Map<string, Date>();
+    for (const entry of this.conversationMemory) {
+      if (entry.channel !== name || entry.kind !== "reply" || !entry.addressedToUserId || !ids.has(entry.addressedToUserId)) continue;
+      const previous = times.get(entry.addressedToUserId);
+      if (!previous || entry.createdAt > previous) times.set(entry.addressedToUserId, entry.createdAt);
+    }
+    return times;
+  }
+
+  async clearConversationMemory(channel: string): Promise<void> {
+    const name = normalizeChannel(channel);
+    this.conversationMemory = this.conversationMemory.filter(entry => entry.channel !== name);
+  }
+
+  // Message Embeddings
+  async saveMessageEmbedding(embedding: InsertMessageEmbedding): Promise<MessageEmbedding> {
+    const saved = buildRow(messageEmbeddings, embedding);
+    this.messageEmbeddings.set(saved.messageId, saved);
+    return saved;
+  }
+
+  async getMessageEmbeddingsByUser(userId: string, model: string): Promise<MessageEmbedding[]> {
+    return Array.from(this.messageEmbeddings.values()).filter(
+      embedding => embedding.userId === userId && embedding.model === model
+    );
+  }
+
+  // Reply Reviews
+  async createReplyReview(review: InsertReplyReview): Promise<ReplyReview> {
+    const created = buildRow(replyReviews, { ...review, channel: normalizeChannel(review.channel) });
+    this.replyReviews.set(created.id, created);
+    return created;
+  }
+
+  async updateReplyReview(id: string, data: Partial<InsertReplyReview>): Promise<ReplyReview> {
+    const existing = this.replyReviews.get(id);
+    if (!existing) {
+      throw new Error(`Reply review not found: ${id}`);
+    }
+
+    const updated = { ...existing, ...definedOnly(data) };
+    this.replyReviews.set(id, updated);
+    return updated;
+  }
+
+  async getReplyReview(id: string): Promise<ReplyReview | undefined> {
+    return this.replyReviews.get(id);
+  }
+
+  async getReplyReviews(status?: ReplyReviewStatus, limit: number = 50): Promise<ReplyReview[]> {
+    return newestFirst(
+      Array.from(this.replyReviews.values()).filter(review => !status || review.status === status),
+      review => review.createdAt
+    ).slice(0, limit);
+  }
+
+  // DachiStream History
+  async createDachiStreamCycle(cycle: InsertDachiStreamCycle): Promise<DachiStreamCycle> {
+    const created = buildRow(dachistreamCycles, { ...cycle, channel: normalizeChannel(cycle.channel) });
+    this.dachistreamCycles.set(created.id, created);
+    return created;
+  }
+
+  async updateDachiStreamCycle(id: string, data: Partial<InsertDachiStreamCycle>): Promise<DachiStreamCycle> {
+    const existing = this.dachistreamCycles.get(id);
+    if (!existing) {
+      throw new Error(`DachiStream cycle not found: ${id}`);
+    }
+
+    const updated = { ...existing, ...definedOnly(data) };
+    this.dachistreamCycles.set(id, updated);
+    return updated;
+  }
+
+  async getDachiStreamCycles(limit: number = 50, offset: number = 0, channel?: string): Promise<DachiStreamCycle[]> {
+    return newestFirst(this.filterCycles(channel), cycle => cycle.startedAt).slice(offset, offset + limit);
+  }
+
+  async countDachiStreamCycles(channel?: string): Promise<number> {
+    return this.filterCycles(channel).length;
+  }
+
+  private filterCycles(channel?: string): DachiStreamCycle[] {
+    const name = channel ? normalizeChannel(channel) : undefined;
+    return Array.from(this.dachistreamCycles.values()).filter(cycle => !name || cycle.channel === name);
+  }
+
+  async createAiReply(reply: InsertAiReply): Promise<AiReply> {
+    const created = buildRow(aiReplies, { ...reply, channel: normalizeChannel(reply.channel) });
+    this.aiReplies.set(created.id, created);
+    return created;
+  }
+
+  async updateAiReply(id: string, data: Partial<InsertAiReply>): Promise<AiReply> {
+    const existing = this.aiReplies.get(id);
+    if (!existing) {
+      throw new Error(`AI reply not found: ${id}`);
+    }
+
+    const updated = { ...existing, ...definedOnly(data) };
+    this.aiReplies.set(id, updated);
+    return updated;
+  }
+
+  async getAiReplies(limit: number = 50, offset: number = 0, channel?: string, cycleId?: string): Promise<AiReply[]> {
+    return newestFirst(this.filterAiReplies(channel, cycleId), reply => reply.createdAt).slice(offset, offset + limit);
+  }
+
+  async countAiReplies(channel?: string, cycleId?: string): Promise<number> {
+    return this.filterAiReplies(channel, cycleId).length;
+  }
+
+  private filterAiReplies(channel?: string, cycleId?: string): AiReply[] {
+    const name = channel ? normalizeChannel(channel) : undefined;
+    return Array.from(this.aiReplies.values()).filter(
+      reply => (!name || reply.channel === name) && (!cycleId || reply.cycleId === cycleId)
+    );
+  }
+
+  // Personas
+  async getPersonas(): Promise<Persona[]> {
+    return Array.from(this.personas.values());
+  }
+
+  async getPersona(id: string): Promise<Persona | undefined> {
+    return this.personas.get(id);
+  }
+
+  async createPersona(persona: InsertPersona): Promise<Persona> {
+    if (Array.from(this.personas.values()).some(existing => existing.name === persona.name)) {
+      throw new Error(`Persona name already exists: ${persona.name}`);
+    }
+
+    const created = buildRow(personas, persona);
+    this.personas.set(created.id, created);
+    return created;
+  }
+
+  async updatePersona(id: string, data: Partial<InsertPersona>): Promise<Persona> {
+    const existing = this.personas.get(id);
+    if (!existing) {
+      throw new Error(`Persona not found: ${id}`);
+    }
+
+    const updated = { ...existing, ...definedOnly(data), updatedAt: new Date() } as Persona;
+    this.personas.set(id, updated);
+    return updated;
+  }
+
+  async deletePersona(id: string): Promise<void> {
+    this.personas.delete(id);
+  }
+}
+
+function createStorage(): IStorage {
+  if (process.env.STORAGE_MODE === "memory") {
+    console.log("Using in-memory storage (STORAGE_MODE=memory) - data will not persist");
+    return new MemStorage();
+  }
+  return new DatabaseStorage();
 }
 
-export const storage = new DatabaseStorage();
+export const storage = createStorage();
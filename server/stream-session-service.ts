@@ -0,0 +1,232 @@
+import type { IStorage } from "./storage";
+import { normalizeChannel, type StreamSession } from "@shared/schema";
+
+export interface StreamStatus {
+  isLive: boolean;
+  viewerCount?: number;
+  game?: string;
+  title?: string;
+  streamId?: string;
+  startedAt?: string;
+}
+
+// null means the status is unknown (e.g. no Twitch app credentials) - nothing changes
+export type StreamStatusFetcher = (channel: string) => Promise<StreamStatus | null>;
+
+export type StreamSessionEvent = "started" | "updated" | "ended";
+
+const POLL_INTERVAL_MS = 60 * 1000;
+
+// Helix errors read as "offline", and streams drop briefly on bad connections,
+// so a live session only ends after several offline polls in a row
+const OFFLINE_POLLS_BEFORE_END = 3;
+
+/**
+ * Opens and closes stream_sessions rows by polling Helix for each joined
+ * channel, and hands out the current session id so incoming messages,
+ * analyses and raids can be stamped with it.
+ */
+export class StreamSessionService {
+  private storage: IStorage;
+  private fetchStatus: StreamStatusFetcher;
+  private onChange?: (event: StreamSessionEvent, session: StreamSession) => void;
+  private channels: Set<string> = new Set();
+  private activeSessions: Map<string, StreamSession> = new Map();
+  private offlinePolls: Map<string, number> = new Map();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(
+    storage: IStorage,
+    fetchStatus: StreamStatusFetcher,
+    onChange?: (event: StreamSessionEvent, session: StreamSession) => void
+  ) {
+    this.storage = storage;
+    this.fetchStatus = fetchStatus;
+    this.onChange = onChange;
+  }
+
+  async start(channels: string[]) {
+    this.stop();
+    this.channels = new Set(channels.map(normalizeChannel));
+
+    for (const channel of Array.from(this.channels)) {
+      await this.loadActiveSession(channel);
+    }
+
+    this.pollTimer = setInterval(() => {
+      this.poll();
+    }, POLL_INTERVAL_MS);
+    await this.poll();
+  }
+
+  stop() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    // Open sessions stay open in storage and are picked up again on the next start
+    this.channels.clear();
+    this.activeSessions.clear();
+    this.offlinePolls.clear();
+  }
+
+  async trackChannel(channel: string) {
+    const name = normalizeChannel(channel);
+    if (this.channels.has(name)) return;
+
+    this.channels.add(name);
+    await this.loadActiveSession(name);
+    await this.pollChannel(name);
+  }
+
+  untrackChannel(channel: string) {
+    const name = normalizeChannel(channel);
+    this.channels.delete(name);
+    this.activeSessions.delete(name);
+    this.offlinePolls.delete(name);
+  }
+
+  getCurrentStreamId(channel: string): string | null {
+    return this.activeSessions.get(normalizeChannel(channel))?.id ?? null;
+  }
+
+  getActiveSession(channel: string): StreamSession | null {
+    return this.activeSessions.get(normalizeChannel(channel)) ?? null;
+  }
+
+  /**
+   * Start a session by hand (e.g. before going live). It is adopted by the
+   * Helix stream once the channel actually goes live.
+   */
+  async startManualSession(channel: string): Promise<StreamSession> {
+    const name = normalizeChannel(channel);
+    const active = this.activeSessions.get(name);
+    if (active) {
+      await this.endSession(name, active);
+    }
+
+    return this.startSession(name, { startedAt: new Date() });
+  }
+
+  async endSessionById(id: string): Promise<StreamSession | null> {
+    for (const [channel, session] of Array.from(this.activeSessions.entries())) {
+      if (session.id === id) {
+        return this.endSession(channel, session);
+      }
+    }
+
+    // Not tracked in memory (e.g. a channel we left) - close it in storage only
+    const session = await this.storage.getStreamSession(id);
+    if (!session || session.endedAt) return session ?? null;
+    return this.storage.updateStreamSession(id, { endedAt: new Date() });
+  }
+
+  private async loadActiveSession(channel: string) {
+    try {
+      const session = await this.storage.getActiveStreamSession(channel);
+      if (session) {
+        this.activeSessions.set(channel, session);
+      }
+    } catch (error) {
+      console.error(`Failed to load active stream session for ${channel}:`, error);
+    }
+  }
+
+  private async poll() {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      for (const channel of Array.from(this.channels)) {
+        await this.pollChannel(channel);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async pollChannel(channel: string) {
+    try {
+      const status = await this.fetchStatus(channel);
+      if (status) {
+        await this.reconcile(channel, status);
+      }
+    } catch (error) {
+      console.error(`Error polling stream status for ${channel}:`, error);
+    }
+  }
+
+  private async reconcile(channel: string, status: StreamStatus) {
+    const active = this.activeSessions.get(channel);
+
+    if (!status.isLive) {
+      // Manual sessions are only ended by hand or by the next live stream
+      if (!active || !active.twitchStreamId) return;
+
+      const polls = (this.offlinePolls.get(channel) || 0) + 1;
+      if (polls >= OFFLINE_POLLS_BEFORE_END) {
+        this.offlinePolls.delete(channel);
+        await this.endSession(channel, active);
+      } else {
+        this.offlinePolls.set(channel, polls);
+      }
+      return;
+    }
+
+    this.offlinePolls.delete(channel);
+
+    const sameStream = active && (!active.twitchStreamId || active.twitchStreamId === status.streamId);
+    if (active && sameStream) {
+      const changes = {
+        twitchStreamId: status.streamId ?? active.twitchStreamId,
+        title: status.title ?? active.title,
+        gameName: status.game ?? active.gameName,
+        peakViewers: Math.max(active.peakViewers, status.viewerCount || 0),
+      };
+
+      const changed = (Object.keys(changes) as (keyof typeof changes)[]).some(
+        key => changes[key] !== active[key]
+      );
+      if (changed) {
+        const updated = await this.storage.updateStreamSession(active.id, changes);
+        this.activeSessions.set(channel, updated);
+        this.onChange?.("updated", updated);
+      }
+      return;
+    }
+
+    if (active) {
+      await this.endSession(channel, active);
+    }
+
+    await this.startSession(channel, {
+      twitchStreamId: status.streamId ?? null,
+      title: status.title ?? null,
+      gameName: status.game ?? null,
+      peakViewers: status.viewerCount || 0,
+      startedAt: status.startedAt ? new Date(status.startedAt) : new Date(),
+    });
+  }
+
+  private async startSession(
+    channel: string,
+    data: Partial<Pick<StreamSession, "twitchStreamId" | "title" | "gameName" | "peakViewers" | "startedAt">>
+  ): Promise<StreamSession> {
+    const session = await this.storage.createStreamSession({ channel, ...data });
+    this.activeSessions.set(channel, session);
+    console.log(`▶ Stream session started for ${channel}${session.title ? `: ${session.title}` : ""}`);
+    this.onChange?.("started", session);
+    return session;
+  }
+
+  private async endSession(channel: string, session: StreamSession): Promise<StreamSession> {
+    const ended = await this.storage.updateStreamSession(session.id, { endedAt: new Date() });
+    if (this.activeSessions.get(channel)?.id === session.id) {
+      this.activeSessions.delete(channel);
+    }
+    console.log(`■ Stream session ended for ${channel}`);
+    this.onChange?.("ended", ended);
+    return ended;
+  }
+}
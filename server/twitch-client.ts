@@ -1,15 +1,94 @@
 import tmi from "tmi.js";
 import { storage } from "./storage";
-import { analyzeChatMessage, generateAiResponse } from "./groq-service";
+import { analyzeChatMessagesBatch, type SentimentAnalysisResult } from "./groq-service";
 import { WebSocket } from "ws";
 import type { DachiStreamService } from "./dachistream-service";
 import { twitchOAuthService } from "./twitch-oauth-service";
 import { ActiveChattersService } from "./active-chatters-service";
+import { AutoModerationService, type AutoModModerator } from "./auto-moderation-service";
+import { EventSubClient, type ChannelFollowEvent, type ChannelPointsRedemptionEvent } from "./eventsub-client";
+import { StreamSessionService } from "./stream-session-service";
+import { AnalysisQueueService } from "./analysis-queue-service";
+import { analyzeChatMessageLocally } from "./local-sentiment-analyzer";
+import {
+  CommandCooldowns,
+  executeCommand,
+  isRoleAllowed,
+  matchCommand,
+  type CommandOutputTarget,
+} from "./command-service";
+import {
+  normalizeChannel,
+  type AiCommand,
+  type InsertModerationAction,
+  type SupportEventType,
+  type SupportEventMetadata,
+} from "@shared/schema";
 
 let twitchClient: tmi.Client | null = null;
+// The channel passed to connectToTwitch - replies go here unless told otherwise
+let primaryChannel: string | null = null;
+let eventSubClient: EventSubClient | null = null;
 const connectedClients: Set<WebSocket> = new Set();
 let dachiStreamService: DachiStreamService | null = null;
 export const activeChattersService = new ActiveChattersService();
+// Broadcaster ids by bare channel name, for Helix moderation calls
+const broadcasterIds: Map<string, string> = new Map();
+
+/**
+ * Helix credentials for moderating a channel as the authenticated user, who
+ * must be the broadcaster or one of its moderators.
+ */
+async function getModerationContext(channel: string) {
+  const accessToken = await ensureValidAccessToken();
+  const user = await storage.getAuthenticatedUser();
+  if (!accessToken || !user) {
+    console.warn("AutoMod: no authenticated Twitch user to moderate with");
+    return null;
+  }
+
+  const name = normalizeChannel(channel);
+  let broadcasterId = broadcasterIds.get(name);
+  if (!broadcasterId) {
+    broadcasterId = (await twitchOAuthService.getUserByUsername(name, accessToken))?.id;
+    if (!broadcasterId) {
+      console.warn(`AutoMod: could not resolve broadcaster id for ${name}`);
+      return null;
+    }
+    broadcasterIds.set(name, broadcasterId);
+  }
+
+  return { accessToken, broadcasterId, moderatorId: user.twitchUserId };
+}
+
+const helixModerator: AutoModModerator = {
+  async deleteMessage(channel, messageId) {
+    const context = await getModerationContext(channel);
+    return context
+      ? twitchOAuthService.deleteChatMessage(context.broadcasterId, context.moderatorId, messageId, context.accessToken)
+      : false;
+  },
+  async timeoutUser(channel, userId, duration, reason) {
+    const context = await getModerationContext(channel);
+    return context
+      ? twitchOAuthService.timeoutUser(context.broadcasterId, context.moderatorId, userId, duration, reason, context.accessToken)
+      : false;
+  },
+};
+
+export const autoModerationService = new AutoModerationService(storage, helixModerator);
+export const commandCooldowns = new CommandCooldowns();
+export const streamSessionService = new StreamSessionService(
+  storage,
+  // Helix polling needs app credentials; without them sessions are manual only
+  async (channel) => (twitchOAuthService.getClientId() ? twitchOAuthService.getStreamStatus(channel) : null),
+  (event, session) => broadcastToClients(`stream_session_${event}`, session)
+);
+export const analysisQueueService = new AnalysisQueueService(
+  storage,
+  analyzeChatMessagesBatch,
+  (analysis, message) => broadcastToClients("analysis_ready", { ...analysis, channel: message.channel })
+);
 
 export function setDachiStreamService(service: DachiStreamService) {
   dachiStreamService = service;
@@ -22,7 +101,7 @@ export function addWebSocketClient(ws: WebSocket) {
   });
 }
 
-function broadcastToClients(event: string, data: any) {
+export function broadcastToClients(event: string, data: any) {
   const message = JSON.stringify({ event, data });
   connectedClients.forEach((client) => {
     if (client.readyState === WebSocket.OPEN) {
@@ -31,6 +110,217 @@ function broadcastToClients(event: string, data: any) {
   });
 }
 
+/**
+ * Persist a moderation event and push it to dashboard clients.
+ * IRC doesn't say which moderator acted, so moderator fields stay null
+ * unless the caller knows better.
+ */
+async function recordModerationAction(channel: string, action: Omit<InsertModerationAction, "channel" | "streamId">) {
+  try {
+    const created = await storage.createModerationAction({
+      ...action,
+      channel: normalizeChannel(channel),
+      streamId: streamSessionService.getCurrentStreamId(channel),
+    });
+    broadcastToClients("moderation_action", created);
+    return created;
+  } catch (error) {
+    console.error(`Error recording ${action.actionType} moderation action:`, error);
+    return null;
+  }
+}
+
+// Gift subs from a mystery gift share its origin id - thank the gifter once, not per recipient
+const mysteryGiftOrigins: Set<string> = new Set();
+
+function tierFromMethods(methods?: tmi.SubMethods): Pick<SupportEventMetadata, "tier" | "tierName"> {
+  if (!methods) return {};
+  return {
+    tier: methods.prime ? "Prime" : methods.plan,
+    tierName: methods.planName,
+  };
+}
+
+function toNumber(value: string | boolean | undefined): number | undefined {
+  if (typeof value !== "string") return undefined;
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Store a sub/cheer/gift as a chat_messages row, broadcast it, and queue it
+ * for a DachiStream thank-you unless it's part of a larger mystery gift.
+ */
+async function recordSupportEvent(
+  channel: string,
+  eventType: SupportEventType,
+  event: {
+    userId?: string;
+    username: string;
+    color?: string;
+    message: string;
+    metadata: SupportEventMetadata;
+  }
+) {
+  try {
+    const chatMessage = await storage.createChatMessage({
+      userId: event.userId || event.username,
+      username: event.username,
+      message: event.message,
+      channel,
+      streamId: streamSessionService.getCurrentStreamId(channel),
+      eventType,
+      userColor: event.color || "#9146FF",
+      badges: {},
+      emotes: null,
+      metadata: event.metadata,
+    });
+
+    broadcastToClients(`twitch_${eventType}`, chatMessage);
+    broadcastToClients("new_message", chatMessage);
+
+    if (dachiStreamService && !event.metadata.fromMysteryGift) {
+      dachiStreamService.addSupportEvent(chatMessage);
+    }
+
+    return chatMessage;
+  } catch (error) {
+    console.error(`Error processing ${eventType} event:`, error);
+    return null;
+  }
+}
+
+/**
+ * Send a command reply where the command says it should go. Dashboard clients
+ * always get a copy; overlay replies are picked up by the browser source page.
+ */
+async function deliverCommandResponse(command: AiCommand, channel: string, username: string, response: string) {
+  if (!response) return;
+
+  const target = (command.outputTarget || "chat") as CommandOutputTarget;
+
+  broadcastToClients("command_response", {
+    command: command.trigger,
+    username,
+    response,
+    target,
+  });
+
+  if (target === "chat") {
+    await sendChatMessage(`@${username} ${response}`, channel);
+  }
+}
+
+/**
+ * Store a channel point redemption as a "redeem" event and, if an AI command
+ * is mapped to the reward title, answer the viewer's input in chat.
+ */
+async function handleRedemption(event: ChannelPointsRedemptionEvent) {
+  const channel = `#${event.broadcaster_user_login}`;
+  console.log(`🎟 ${event.user_name} redeemed "${event.reward.title}" (${event.reward.cost} points)`);
+
+  try {
+    const chatMessage = await storage.createChatMessage({
+      userId: event.user_id,
+      username: event.user_name,
+      message: event.user_input || event.reward.title,
+      channel,
+      streamId: streamSessionService.getCurrentStreamId(channel),
+      eventType: "redeem",
+      userColor: "#9146FF",
+      badges: {},
+      emotes: null,
+      metadata: {
+        redemptionId: event.id,
+        rewardId: event.reward.id,
+        rewardTitle: event.reward.title,
+        cost: event.reward.cost,
+        userInput: event.user_input || null,
+        status: event.status,
+      },
+    });
+
+    broadcastToClients("channel_points_redemption", chatMessage);
+    broadcastToClients("new_message", chatMessage);
+
+    const commands = await storage.getAiCommands();
+    const rewardTitle = event.reward.title.toLowerCase();
+    const matchedCommand = commands.find(
+      (cmd) => cmd.enabled && cmd.rewardTitle && cmd.rewardTitle.toLowerCase() === rewardTitle
+    );
+
+    if (!matchedCommand) return;
+
+    // Points were already spent, so redeems skip cooldowns and role checks
+    await storage.incrementCommandUsage(matchedCommand.id);
+    const response = await executeCommand(
+      matchedCommand,
+      {
+        user: event.user_name,
+        args: event.user_input || "",
+        channel: event.broadcaster_user_login,
+        message: event.user_input || event.reward.title,
+      },
+      storage
+    );
+
+    await deliverCommandResponse(matchedCommand, channel, event.user_name, response);
+  } catch (error) {
+    console.error("Error processing channel point redemption:", error);
+  }
+}
+
+async function handleFollow(event: ChannelFollowEvent) {
+  console.log(`💜 ${event.user_name} followed ${event.broadcaster_user_login}`);
+  await recordSupportEvent(`#${event.broadcaster_user_login}`, "follow", {
+    userId: event.user_id,
+    username: event.user_name,
+    message: `💜 ${event.user_name} followed!`,
+    metadata: {},
+  });
+}
+
+function startEventSub(broadcasterUserId: string) {
+  stopEventSub();
+
+  eventSubClient = new EventSubClient({
+    clientId: twitchOAuthService.getClientId(),
+    getAccessToken: ensureValidAccessToken,
+    subscriptions: [
+      {
+        type: "channel.channel_points_custom_reward_redemption.add",
+        version: "1",
+        condition: { broadcaster_user_id: broadcasterUserId },
+      },
+      {
+        // v2 requires a moderator id; the broadcaster counts as one
+        type: "channel.follow",
+        version: "2",
+        condition: { broadcaster_user_id: broadcasterUserId, moderator_user_id: broadcasterUserId },
+      },
+    ],
+    onNotification: async (notification) => {
+      switch (notification.type) {
+        case "channel.channel_points_custom_reward_redemption.add":
+          await handleRedemption(notification.event);
+          break;
+        case "channel.follow":
+          await handleFollow(notification.event);
+          break;
+      }
+    },
+  });
+
+  eventSubClient.connect();
+}
+
+function stopEventSub() {
+  if (eventSubClient) {
+    eventSubClient.disconnect();
+    eventSubClient = null;
+  }
+}
+
 /**
  * Ensures the access token is valid, refreshing if necessary
  */
@@ -81,6 +371,17 @@ async function ensureValidAccessToken() {
   return user.accessToken;
 }
 
+/**
+ * The primary channel plus every channel that has its own settings row.
+ */
+async function channelsToJoin(primary: string): Promise<string[]> {
+  const allSettings = await storage.getSettings();
+  const names = [primary, ...allSettings.map(setting => setting.twitchChannel)]
+    .filter((name): name is string => !!name)
+    .map(normalizeChannel);
+  return Array.from(new Set(names));
+}
+
 export async function connectToTwitch(channel: string, username: string = "justinfan12345") {
   if (twitchClient) {
     try {
@@ -120,6 +421,9 @@ export async function connectToTwitch(channel: string, username: string = "justi
     identity = undefined;
   }
 
+  primaryChannel = normalizeChannel(channel);
+  const channels = await channelsToJoin(primaryChannel);
+
   twitchClient = new tmi.Client({
     options: { debug: false },
     connection: {
@@ -127,7 +431,7 @@ export async function connectToTwitch(channel: string, username: string = "justi
       secure: true,
     },
     identity: identity,
-    channels: [channel],
+    channels,
   });
 
   twitchClient.on("message", async (channel, tags, message, self) => {
@@ -154,8 +458,7 @@ export async function connectToTwitch(channel: string, username: string = "justi
 
       await storage.updateUserLastSeen(userId);
 
-      const settingsList = await storage.getSettings();
-      const settings = settingsList.length > 0 ? settingsList[0] : null;
+      const settings = (await storage.getSettingsForChannel(channel)) || null;
       
       if (settings && settings.autoShoutoutsEnabled && isVip) {
         const userProfile = await storage.getUserProfile(userId);
@@ -181,6 +484,7 @@ export async function connectToTwitch(channel: string, username: string = "justi
         username,
         message,
         channel,
+        streamId: streamSessionService.getCurrentStreamId(channel),
         userColor,
         badges: tags.badges ? Object.fromEntries(
           Object.entries(tags.badges).filter(([_, v]) => v !== undefined)
@@ -192,44 +496,96 @@ export async function connectToTwitch(channel: string, username: string = "justi
       const userProfile = await storage.getUserProfile(userId);
       activeChattersService.addMessage(chatMessage, userProfile || undefined);
 
-      // Add message to DachiStream buffer
-      if (dachiStreamService) {
+      // Direct mentions are answered right away, everything else waits for the next cycle
+      if (dachiStreamService && !dachiStreamService.respondToMention(chatMessage, settings)) {
         dachiStreamService.addMessage(chatMessage);
       }
 
       const enableAiAnalysis = settings ? settings.enableAiAnalysis : true;
 
-      let analysis = null;
+      const moderate = async (analysis: SentimentAnalysisResult) => {
+        if (!settings || !settings.autoModeration) return null;
+
+        const { decision, record } = await autoModerationService.handleMessage(
+          twitchClient,
+          analysis,
+          { isMod, isVip, isSubscriber },
+          {
+            channel,
+            userId,
+            username: tags.username || username,
+            messageId: tags.id,
+            message,
+            streamId: chatMessage.streamId,
+          },
+          settings
+        );
+
+        if (decision.action !== "none") {
+          broadcastToClients("auto_moderation_decision", decision);
+        }
+        if (record) {
+          broadcastToClients("moderation_action", record);
+        }
+        return decision;
+      };
+
+      // Every message gets a local first pass, so auto-moderation never
+      // depends on the analysis queue sampling it in. It isn't awaited here
+      // so a slow Helix call doesn't hold up the rest of the handler.
+      const firstPass = moderate(analyzeChatMessageLocally(message)).catch(error => {
+        console.error("Error in auto-moderation first pass:", error);
+        return null;
+      });
+
+      // Analysis runs in the background; messages the first pass let through
+      // get another look once the result lands
       if (enableAiAnalysis) {
-        const aiResult = await analyzeChatMessage(message);
-        analysis = await storage.createAiAnalysis({
-          messageId: chatMessage.id,
-          sentiment: aiResult.sentiment,
-          sentimentScore: aiResult.sentimentScore,
-          toxicity: aiResult.toxicity,
-          categories: aiResult.categories,
+        analysisQueueService.enqueue(chatMessage, async (aiResult) => {
+          const decision = await firstPass;
+          if (!decision || decision.action !== "none" || aiResult.engine === "local") return;
+          await moderate(aiResult);
         });
       }
 
       broadcastToClients("new_message", {
         ...chatMessage,
-        analysis,
+        analysis: null,
       });
 
       const commands = await storage.getAiCommands();
-      const matchedCommand = commands.find(
-        (cmd) => cmd.enabled && message.toLowerCase().startsWith(cmd.trigger.toLowerCase())
-      );
+      const match = matchCommand(commands, message);
+
+      if (match) {
+        const { command, args } = match;
+        const remaining = commandCooldowns.getRemainingSeconds(command, userId);
+
+        if (!isRoleAllowed(command.allowedRoles, { userId, username, isMod, isVip, isSubscriber })) {
+          console.log(`Command ${command.trigger} ignored: ${username} lacks a required role`);
+        } else if (remaining > 0) {
+          console.log(`Command ${command.trigger} on cooldown for ${username} (${remaining}s left)`);
+        } else {
+          // Claimed before the reply is generated so concurrent uses hit the cooldown
+          const releaseCooldown = commandCooldowns.reserve(command, userId);
+          let response = "";
+          try {
+            response = await executeCommand(
+              command,
+              { user: username, args, channel: channel.replace("#", ""), message },
+              storage
+            );
+          } finally {
+            // A failed or blocked reply sends nothing, so it shouldn't cost a cooldown either
+            if (!response) releaseCooldown();
+          }
 
-      if (matchedCommand) {
-        await storage.incrementCommandUsage(matchedCommand.id);
-        
-        const response = await generateAiResponse(matchedCommand.prompt, message);
-        
-        broadcastToClients("command_response", {
-          command: matchedCommand.trigger,
-          response,
-        });
+          if (response) {
+            await storage.incrementCommandUsage(command.id);
+            await deliverCommandResponse(command, channel, username, response);
+          } else {
+            console.log(`Command ${command.trigger} produced no reply for ${username}`);
+          }
+        }
       }
     } catch (error) {
       console.error("Error processing Twitch message:", error);
@@ -237,8 +593,8 @@ export async function connectToTwitch(channel: string, username: string = "justi
   });
 
   twitchClient.on("connected", (address, port) => {
-    console.log(`Connected to Twitch chat at ${address}:${port}`);
-    broadcastToClients("twitch_connected", { channel });
+    console.log(`Connected to Twitch chat at ${address}:${port} (${channels.join(", ")})`);
+    broadcastToClients("twitch_connected", { channel: primaryChannel, channels });
   });
 
   twitchClient.on("disconnected", (reason) => {
@@ -251,12 +607,15 @@ export async function connectToTwitch(channel: string, username: string = "justi
     console.log(`🎉 RAID! ${username} raided with ${viewers} viewers!`);
     
     try {
+      const streamId = streamSessionService.getCurrentStreamId(channel);
+
       // Store the raid in database
       const raid = await storage.createRaid({
         fromUserId: username, // Use username as fallback since tags aren't available
         fromUsername: username,
         fromDisplayName: username,
         viewers: viewers || 0,
+        streamId,
       });
 
       // Broadcast raid notification to connected clients
@@ -268,6 +627,7 @@ export async function connectToTwitch(channel: string, username: string = "justi
         username,
         message: `🎉 RAID from ${username} with ${viewers} viewers!`,
         channel,
+        streamId,
         eventType: "raid",
         userColor: "#9146FF",
         badges: {},
@@ -279,25 +639,220 @@ export async function connectToTwitch(channel: string, username: string = "justi
     }
   });
 
+  // Subscriptions, gifts and cheers
+  twitchClient.on("subscription", async (channel, username, methods, message, userstate) => {
+    const tier = tierFromMethods(methods);
+    await recordSupportEvent(channel, "sub", {
+      userId: userstate["user-id"],
+      username: userstate["display-name"] || username,
+      color: userstate.color,
+      message: `⭐ ${username} subscribed${tier.tier === "Prime" ? " with Prime" : ""}!${message ? ` ${message}` : ""}`,
+      metadata: { ...tier, cumulativeMonths: 1, userMessage: message || undefined },
+    });
+  });
+
+  twitchClient.on("resub", async (channel, username, _months, message, userstate, methods) => {
+    const cumulativeMonths = toNumber(userstate["msg-param-cumulative-months"]);
+    await recordSupportEvent(channel, "resub", {
+      userId: userstate["user-id"],
+      username: userstate["display-name"] || username,
+      color: userstate.color,
+      message: `⭐ ${username} resubscribed for ${cumulativeMonths || "several"} months!${message ? ` ${message}` : ""}`,
+      metadata: {
+        ...tierFromMethods(methods),
+        cumulativeMonths,
+        streakMonths: userstate["msg-param-should-share-streak"]
+          ? toNumber(userstate["msg-param-streak-months"])
+          : undefined,
+        userMessage: message || undefined,
+      },
+    });
+  });
+
+  twitchClient.on("subgift", async (channel, username, _streakMonths, recipient, methods, userstate) => {
+    await recordSupportEvent(channel, "subgift", {
+      userId: userstate["user-id"],
+      username: userstate["display-name"] || username,
+      color: userstate.color,
+      message: `🎁 ${username} gifted a sub to ${recipient}!`,
+      metadata: {
+        ...tierFromMethods(methods),
+        recipient,
+        giftCount: 1,
+        senderTotalGifts: toNumber(userstate["msg-param-sender-count"]),
+        fromMysteryGift: mysteryGiftOrigins.has(userstate["msg-param-origin-id"]),
+      },
+    });
+  });
+
+  twitchClient.on("submysterygift", async (channel, username, numbOfSubs, methods, userstate) => {
+    const originId = userstate["msg-param-origin-id"];
+    if (originId) {
+      mysteryGiftOrigins.add(originId);
+      // Individual subgift events arrive right after; forget the origin once they have
+      setTimeout(() => mysteryGiftOrigins.delete(originId), 60 * 1000);
+    }
+
+    await recordSupportEvent(channel, "submysterygift", {
+      userId: userstate["user-id"],
+      username: userstate["display-name"] || username,
+      color: userstate.color,
+      message: `🎁 ${username} is gifting ${numbOfSubs} subs to the community!`,
+      metadata: {
+        ...tierFromMethods(methods),
+        giftCount: numbOfSubs,
+        senderTotalGifts: toNumber(userstate["msg-param-sender-count"]),
+      },
+    });
+  });
+
+  twitchClient.on("cheer", async (channel, userstate, message) => {
+    const username = userstate["display-name"] || userstate.username || "Anonymous";
+    const bits = parseInt(userstate.bits || "0", 10);
+    await recordSupportEvent(channel, "cheer", {
+      userId: userstate["user-id"],
+      username,
+      color: userstate.color,
+      message: `💎 ${username} cheered ${bits} bits! ${message}`.trim(),
+      metadata: { bits, userMessage: message || undefined },
+    });
+  });
+
+  twitchClient.on("anongiftpaidupgrade", async (channel, username, userstate) => {
+    await recordSupportEvent(channel, "giftupgrade", {
+      userId: userstate["user-id"],
+      username: userstate["display-name"] || username,
+      color: userstate.color,
+      message: `⭐ ${username} is continuing the gift sub they got from an anonymous gifter!`,
+      metadata: {},
+    });
+  });
+
+  // Moderation events - performed by any mod in the channel
+  twitchClient.on("timeout", async (channel, username, reason, duration, userstate) => {
+    console.log(`⏱ ${username} timed out for ${duration}s in ${channel}`);
+    if (autoModerationService.consumeSelfAction("timeout", username)) return;
+    await recordModerationAction(channel, {
+      actionType: "timeout",
+      targetUserId: userstate["target-user-id"] || null,
+      targetUsername: username,
+      duration: duration || null,
+      reason: reason || null,
+    });
+  });
+
+  twitchClient.on("ban", async (channel, username, reason, userstate) => {
+    console.log(`🔨 ${username} banned in ${channel}`);
+    await recordModerationAction(channel, {
+      actionType: "ban",
+      targetUserId: userstate["target-user-id"] || null,
+      targetUsername: username,
+      reason: reason || null,
+    });
+  });
+
+  twitchClient.on("messagedeleted", async (channel, username, deletedMessage, userstate) => {
+    console.log(`🗑 Message from ${username} deleted in ${channel}`);
+    if (autoModerationService.consumeSelfAction("delete", username)) return;
+    const profile = await storage.getUserProfileByUsername(username).catch(() => undefined);
+    await recordModerationAction(channel, {
+      actionType: "delete",
+      targetUserId: profile?.userId || null,
+      targetUsername: username,
+      messageDeleted: deletedMessage || userstate.message || null,
+    });
+  });
+
+  twitchClient.on("clearchat", async (channel) => {
+    console.log(`🧹 Chat cleared in ${channel}`);
+    await recordModerationAction(channel, {
+      actionType: "clear",
+      targetUsername: "everyone",
+    });
+  });
+
   await twitchClient.connect();
+
+  streamSessionService.start(channels).catch(error => {
+    console.error("Failed to start stream session tracking:", error);
+  });
+
+  // Channel point redemptions and follows only exist on EventSub, and need the broadcaster's own token
+  if (identity && authenticatedUser && channels.includes(normalizeChannel(authenticatedUser.twitchUsername))) {
+    startEventSub(authenticatedUser.twitchUserId);
+  } else {
+    stopEventSub();
+  }
+
   return twitchClient;
 }
 
 export function disconnectFromTwitch() {
+  stopEventSub();
+  streamSessionService.stop();
   if (twitchClient) {
     twitchClient.disconnect();
     twitchClient = null;
   }
+  primaryChannel = null;
 }
 
 export function getTwitchClient() {
   return twitchClient;
 }
 
+export function getPrimaryChannel() {
+  return primaryChannel;
+}
+
+export function getJoinedChannels(): string[] {
+  return twitchClient ? twitchClient.getChannels().map(normalizeChannel) : [];
+}
+
+/**
+ * Join an extra channel on the existing connection. The caller is expected to
+ * have created a settings row for it so the channel is rejoined on reconnect.
+ */
+export async function joinChannel(channel: string): Promise<boolean> {
+  const name = normalizeChannel(channel);
+  if (!twitchClient || getJoinedChannels().includes(name)) {
+    return false;
+  }
+
+  try {
+    await twitchClient.join(name);
+    await streamSessionService.trackChannel(name);
+    console.log(`Joined Twitch channel: ${name}`);
+    broadcastToClients("twitch_channel_joined", { channel: name });
+    return true;
+  } catch (error) {
+    console.error(`Failed to join Twitch channel ${name}:`, error);
+    return false;
+  }
+}
+
+export async function partChannel(channel: string): Promise<boolean> {
+  const name = normalizeChannel(channel);
+  if (!twitchClient || !getJoinedChannels().includes(name)) {
+    return false;
+  }
+
+  try {
+    await twitchClient.part(name);
+    streamSessionService.untrackChannel(name);
+    console.log(`Left Twitch channel: ${name}`);
+    broadcastToClients("twitch_channel_left", { channel: name });
+    return true;
+  } catch (error) {
+    console.error(`Failed to leave Twitch channel ${name}:`, error);
+    return false;
+  }
+}
+
 /**
- * Send a message to the currently connected Twitch channel
+ * Send a message to a Twitch channel (defaults to the primary joined channel)
  */
-export async function sendChatMessage(message: string): Promise<boolean> {
+export async function sendChatMessage(message: string, targetChannel?: string): Promise<boolean> {
   if (!twitchClient) {
     console.error("Cannot send chat message: Twitch client not connected");
     return false;
@@ -309,7 +864,7 @@ export async function sendChatMessage(message: string): Promise<boolean> {
     return false;
   }
 
-  const channel = authenticatedUser.twitchUsername;
+  const channel = normalizeChannel(targetChannel || primaryChannel || authenticatedUser.twitchUsername);
   
   try {
     await twitchClient.say(channel, message);
@@ -37,6 +37,10 @@ const REDIRECT_URI = process.env.REPLIT_DEV_DOMAIN
   : 'http://localhost:5000/api/auth/twitch/callback';
 
 export class TwitchOAuthService {
+  getClientId(): string {
+    return TWITCH_CLIENT_ID;
+  }
+
   /**
    * Generates the Twitch OAuth authorization URL
    */
@@ -45,7 +49,7 @@ export class TwitchOAuthService {
       client_id: TWITCH_CLIENT_ID,
       redirect_uri: REDIRECT_URI,
       response_type: 'code',
-      scope: 'user:read:email chat:read chat:edit channel:manage:raids',
+      scope: 'user:read:email chat:read chat:edit channel:manage:raids channel:read:redemptions moderator:read:followers moderator:manage:banned_users moderator:manage:chat_messages',
     });
 
     return `https://id.twitch.tv/oauth2/authorize?${params.toString()}`;
@@ -266,6 +270,71 @@ export class TwitchOAuthService {
     return true;
   }
 
+  /**
+   * Times a user out in the broadcaster's chat
+   * Requires moderator:manage:banned_users scope
+   */
+  async timeoutUser(
+    broadcasterId: string,
+    moderatorId: string,
+    userId: string,
+    durationSeconds: number,
+    reason: string,
+    accessToken: string
+  ): Promise<boolean> {
+    const params = new URLSearchParams({
+      broadcaster_id: broadcasterId,
+      moderator_id: moderatorId,
+    });
+
+    const response = await fetch(`https://api.twitch.tv/helix/moderation/bans?${params.toString()}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Client-Id': TWITCH_CLIENT_ID,
+        'Content-Type': 'application/json',
+      },
+      // Twitch caps the reason at 500 characters
+      body: JSON.stringify({ data: { user_id: userId, duration: durationSeconds, reason: reason.slice(0, 500) } }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error(`Failed to time out user: ${error}`);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Deletes a single message from the broadcaster's chat
+   * Requires moderator:manage:chat_messages scope
+   */
+  async deleteChatMessage(broadcasterId: string, moderatorId: string, messageId: string, accessToken: string): Promise<boolean> {
+    const params = new URLSearchParams({
+      broadcaster_id: broadcasterId,
+      moderator_id: moderatorId,
+      message_id: messageId,
+    });
+
+    const response = await fetch(`https://api.twitch.tv/helix/moderation/chat?${params.toString()}`, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Client-Id': TWITCH_CLIENT_ID,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error(`Failed to delete chat message: ${error}`);
+      return false;
+    }
+
+    return true;
+  }
+
   /**
    * Gets user information by username
    */
@@ -451,7 +520,14 @@ export class TwitchOAuthService {
   /**
    * Checks if a user is currently live streaming
    */
-  async getStreamStatus(username: string): Promise<{ isLive: boolean; viewerCount?: number; game?: string }> {
+  async getStreamStatus(username: string): Promise<{
+    isLive: boolean;
+    viewerCount?: number;
+    game?: string;
+    title?: string;
+    streamId?: string;
+    startedAt?: string;
+  }> {
     try {
       const appToken = await this.getAppAccessToken();
 
@@ -497,6 +573,9 @@ export class TwitchOAuthService {
           isLive: true,
           viewerCount: stream.viewer_count,
           game: stream.game_name,
+          title: stream.title,
+          streamId: stream.id,
+          startedAt: stream.started_at,
         };
       }
 
@@ -0,0 +1,73 @@
+export interface VectorSearchResult<T> {
+  id: string;
+  score: number; // Cosine similarity, -1..1
+  meta: T;
+}
+
+export interface VectorSearchOptions<T> {
+  limit: number;
+  minScore?: number;
+  filter?: (meta: T, id: string) => boolean;
+}
+
+interface IndexedVector<T> {
+  vector: Float32Array;
+  norm: number;
+  meta: T;
+}
+
+/**
+ * Brute-force cosine similarity index. Chat histories per user are small
+ * (hundreds to a few thousand vectors), so a linear scan is fast enough and
+ * needs no native dependencies.
+ */
+export class VectorIndex<T> {
+  private entries: Map<string, IndexedVector<T>> = new Map();
+
+  get size() {
+    return this.entries.size;
+  }
+
+  has(id: string) {
+    return this.entries.has(id);
+  }
+
+  add(id: string, vector: number[], meta: T) {
+    const values = Float32Array.from(vector);
+    const norm = Math.sqrt(values.reduce((sum, v) => sum + v * v, 0));
+    if (norm === 0) return; // Nothing to compare against
+
+    this.entries.set(id, { vector: values, norm, meta });
+  }
+
+  remove(id: string) {
+    this.entries.delete(id);
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+
+  search(query: number[], options: VectorSearchOptions<T>): VectorSearchResult<T>[] {
+    const queryNorm = Math.sqrt(query.reduce((sum, v) => sum + v * v, 0));
+    if (queryNorm === 0) return [];
+
+    const results: VectorSearchResult<T>[] = [];
+    for (const [id, entry] of Array.from(this.entries.entries())) {
+      if (entry.vector.length !== query.length) continue;
+      if (options.filter && !options.filter(entry.meta, id)) continue;
+
+      let dot = 0;
+      for (let i = 0; i < query.length; i++) {
+        dot += query[i] * entry.vector[i];
+      }
+
+      const score = dot / (queryNorm * entry.norm);
+      if (options.minScore === undefined || score >= options.minScore) {
+        results.push({ id, score, meta: entry.meta });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, options.limit);
+  }
+}
@@ -0,0 +1,25 @@
+// Narrowing helpers for untyped JSON: LLM replies, API bodies, webhook payloads
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function toArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * The trimmed, non-empty strings in an array, de-duplicated and capped at
+ * `max`. Anything that isn't an array gives an empty list.
+ */
+export function toStringList(value: unknown, max: number = Infinity): string[] {
+  const items = toArray(value)
+    .filter((item): item is string => typeof item === "string")
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+  return Array.from(new Set(items)).slice(0, max);
+}
+
+export function toOptionalString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
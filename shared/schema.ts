@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
@@ -25,7 +25,12 @@ export const userInsights = pgTable("user_insights", {
   summary: text("summary"), // AI-generated personality summary
   lastUpdated: timestamp("last_updated").notNull().defaultNow(),
   totalMessages: integer("total_messages").notNull().default(0),
-  recentTags: jsonb("recent_tags").$type<string[]>().default(sql`'[]'::jsonb`),
+  recentTags: jsonb("recent_tags").$type<string[]>().default(sql`'[]'::jsonb`), // Short traits chosen by the LLM
+  interests: jsonb("interests").$type<string[]>().default(sql`'[]'::jsonb`),
+  games: jsonb("games").$type<string[]>().default(sql`'[]'::jsonb`), // Games they have mentioned
+  tone: text("tone"), // e.g. "sarcastic", "wholesome"
+  preferredLanguage: text("preferred_language"), // Language they usually chat in
+  insideJokes: jsonb("inside_jokes").$type<string[]>().default(sql`'[]'::jsonb`),
 });
 
 // Chat Messages Table - Enhanced with stream tracking
@@ -48,10 +53,12 @@ export const chatMessages = pgTable("chat_messages", {
 export const aiAnalysis = pgTable("ai_analysis", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   messageId: varchar("message_id").notNull().references(() => chatMessages.id, { onDelete: "cascade" }),
+  streamId: text("stream_id"), // Stream session of the analyzed message
   sentiment: text("sentiment").notNull(), // positive, neutral, negative
   sentimentScore: integer("sentiment_score").notNull(), // 1-5
   toxicity: boolean("toxicity").notNull().default(false),
   categories: jsonb("categories").$type<string[]>(),
+  engine: text("engine").notNull().default("llm"), // llm, local (lexicon fallback)
   timestamp: timestamp("timestamp").notNull().defaultNow(),
 });
 
@@ -61,6 +68,11 @@ export const aiCommands = pgTable("ai_commands", {
   trigger: text("trigger").notNull().unique(),
   prompt: text("prompt").notNull(),
   responseType: text("response_type").notNull(), // direct, analysis, generate
+  rewardTitle: text("reward_title"), // Channel point reward that triggers this command (case-insensitive)
+  outputTarget: text("output_target").notNull().default("chat"), // chat, overlay, dashboard
+  globalCooldownSeconds: integer("global_cooldown_seconds").notNull().default(0),
+  userCooldownSeconds: integer("user_cooldown_seconds").notNull().default(0),
+  allowedRoles: jsonb("allowed_roles").$type<string[]>().default(sql`'[]'::jsonb`), // subscriber, vip, mod - empty means everyone
   enabled: boolean("enabled").notNull().default(true),
   usageCount: integer("usage_count").notNull().default(0),
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -97,9 +109,124 @@ export const raids = pgTable("raids", {
   fromUsername: text("from_username").notNull(), // Raider's username
   fromDisplayName: text("from_display_name").notNull(), // Raider's display name
   viewers: integer("viewers").notNull().default(0), // Number of viewers in raid
+  streamId: text("stream_id"), // Stream session the raid landed in
   timestamp: timestamp("timestamp").notNull().defaultNow(),
 });
 
+// Stream Sessions Table - One row per broadcast, opened/closed by Helix polling
+export const streamSessions = pgTable("stream_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`), // Stamped as streamId on messages, analyses and raids
+  channel: text("channel").notNull(), // Bare channel name, no "#"
+  twitchStreamId: text("twitch_stream_id"), // Helix stream id (null for manually started sessions)
+  title: text("title"),
+  gameName: text("game_name"),
+  peakViewers: integer("peak_viewers").notNull().default(0),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  endedAt: timestamp("ended_at"), // null while live
+});
+
+// Conversation Memory Table - DachiStream's own replies and rolling summaries of older chat
+export const conversationMemory = pgTable("conversation_memory", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  channel: text("channel").notNull(), // Bare channel name, no "#"
+  kind: text("kind").notNull(), // reply, summary
+  content: text("content").notNull(), // What the bot said, or the chat summary
+  addressedToUserId: text("addressed_to_user_id"), // reply: who the bot answered
+  addressedToUsername: text("addressed_to_username"),
+  inReplyTo: text("in_reply_to"), // reply: the message being answered
+  messageId: varchar("message_id"), // reply: chat message being answered
+  coveredUntil: timestamp("covered_until"), // summary: timestamp of the newest message folded in
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Message Embeddings Table - Vectors for retrieving a user's relevant past messages
+export const messageEmbeddings = pgTable("message_embeddings", {
+  messageId: varchar("message_id").primaryKey().references(() => chatMessages.id, { onDelete: "cascade" }),
+  userId: text("user_id").notNull(),
+  channel: text("channel").notNull(),
+  model: text("model").notNull(), // Vectors from different models can't be compared
+  vector: jsonb("vector").$type<number[]>().notNull(),
+  messageTimestamp: timestamp("message_timestamp").notNull(), // When the message was sent (not embedded)
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Reply Reviews Table - DachiStream replies held for streamer approval, and what was decided
+export const replyReviews = pgTable("reply_reviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  channel: text("channel").notNull(), // Bare channel name, no "#"
+  messageId: varchar("message_id"), // Chat message being answered
+  addressedToUserId: text("addressed_to_user_id"),
+  addressedToUsername: text("addressed_to_username"),
+  inReplyTo: text("in_reply_to").notNull(), // The chat message text
+  context: text("context"), // AI context, kept so the reply can be regenerated
+  reply: text("reply").notNull(), // Current text (after edits or regeneration)
+  originalReply: text("original_reply").notNull(), // First generated text
+  status: text("status").notNull().default("pending"), // pending, approved, edited, rejected, expired, auto_approved
+  reason: text("reason"), // Why it was rejected, if given
+  regenerations: integer("regenerations").notNull().default(0),
+  sent: boolean("sent").notNull().default(false), // Whether it reached Twitch chat
+  aiReplyId: varchar("ai_reply_id"), // Generation in ai_replies behind the current text
+  expiresAt: timestamp("expires_at").notNull(),
+  decidedAt: timestamp("decided_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// DachiStream Cycles Table - One row per channel each time a cycle works through its buffer
+export const dachistreamCycles = pgTable("dachistream_cycles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  channel: text("channel").notNull(), // Bare channel name, no "#"
+  trigger: text("trigger").notNull().default("timer"), // timer, manual
+  strategy: text("strategy").notNull(), // Selection strategy in effect
+  bufferSize: integer("buffer_size").notNull().default(0),
+  uniqueChatters: integer("unique_chatters").notNull().default(0),
+  pendingSupportEvents: integer("pending_support_events").notNull().default(0),
+  selectedMessageId: varchar("selected_message_id"), // First message picked
+  replyCount: integer("reply_count").notNull().default(0), // Messages answered (adaptive cycles can answer several)
+  status: text("status").notNull().default("running"), // running, completed, no_selection, disabled, error
+  error: text("error"),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+});
+
+// AI Replies Table - Every DachiStream generation, sent or not
+export const aiReplies = pgTable("ai_replies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  cycleId: varchar("cycle_id"), // Null for direct mentions and regenerations
+  channel: text("channel").notNull(), // Bare channel name, no "#"
+  messageId: varchar("message_id"), // Chat message being answered
+  source: text("source").notNull().default("cycle"), // cycle, mention, regenerate
+  inReplyTo: text("in_reply_to").notNull(), // The chat message text
+  context: text("context"), // Full AI context sent with the prompt
+  model: text("model"),
+  temperature: real("temperature"),
+  latencyMs: integer("latency_ms"), // All attempts, including safety regenerations
+  promptTokens: integer("prompt_tokens"),
+  completionTokens: integer("completion_tokens"),
+  totalTokens: integer("total_tokens"),
+  reply: text("reply").notNull(), // Last generated text, even if the safety filter blocked it
+  sentToChat: boolean("sent_to_chat").notNull().default(false),
+  error: text("error"), // Generation failure or safety block reason
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Personas Table - Streamer-authored bot personalities for DachiStream replies
+export const personas = pgTable("personas", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  description: text("description"), // One-liner shown on AI Controls
+  systemPrompt: text("system_prompt").notNull(), // Who the bot is and how it talks
+  energyModifiers: jsonb("energy_modifiers").$type<PersonaEnergyModifiers>().default(sql`'{}'::jsonb`), // Extra instruction per energy level
+  exampleExchanges: jsonb("example_exchanges").$type<PersonaExampleExchange[]>().default(sql`'[]'::jsonb`), // Few-shot chat/reply pairs
+  catchphrases: jsonb("catchphrases").$type<string[]>().default(sql`'[]'::jsonb`), // Used now and then, never every reply
+  bannedPhrases: jsonb("banned_phrases").$type<string[]>().default(sql`'[]'::jsonb`), // Never said; also blocked by the safety filter
+  scheduleCategories: jsonb("schedule_categories").$type<string[]>().default(sql`'[]'::jsonb`), // Stream categories (Twitch game names) that switch to this persona
+  scheduleWindows: jsonb("schedule_windows").$type<PersonaScheduleWindow[]>().default(sql`'[]'::jsonb`), // Weekly times, in scheduleTimezone, that switch to this persona
+  scheduleTimezone: text("schedule_timezone"), // IANA zone for scheduleWindows, e.g. "America/New_York" (null = server time)
+  scheduleChannels: jsonb("schedule_channels").$type<string[]>().default(sql`'[]'::jsonb`), // Bare channel names the schedule applies in (empty = every channel)
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
 // Moderation Actions Table - Track Twitch mod events
 export const moderationActions = pgTable("moderation_actions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -111,6 +238,8 @@ export const moderationActions = pgTable("moderation_actions", {
   duration: integer("duration"), // Timeout duration in seconds (null for ban/delete)
   reason: text("reason"), // Reason for action
   messageDeleted: text("message_deleted"), // Message text if deleted
+  channel: text("channel"), // Bare channel name, no "#" (null for actions recorded before multi-channel)
+  streamId: text("stream_id"), // Stream session the action happened in
   timestamp: timestamp("timestamp").notNull().defaultNow(),
 });
 
@@ -121,7 +250,12 @@ export const settings = pgTable("settings", {
   twitchUsername: text("twitch_username"),
   autoModeration: boolean("auto_moderation").notNull().default(false),
   sentimentThreshold: integer("sentiment_threshold").notNull().default(2), // 1-5
+  autoModerationDryRun: boolean("auto_moderation_dry_run").notNull().default(true), // Log decisions without acting
+  autoModerationExemptSubscribers: boolean("auto_moderation_exempt_subscribers").notNull().default(true), // Mods and VIPs are always exempt
   enableAiAnalysis: boolean("enable_ai_analysis").notNull().default(true),
+  analysisBatchSize: integer("analysis_batch_size").notNull().default(10), // Messages per analysis request
+  analysisTokensPerMinute: integer("analysis_tokens_per_minute").notNull().default(6000), // LLM budget for background analysis
+  analysisEngine: text("analysis_engine").notNull().default("auto"), // auto (LLM, local fallback), local
   
   // Browser Source Settings
   browserSourceEnabled: boolean("browser_source_enabled").notNull().default(false),
@@ -135,9 +269,18 @@ export const settings = pgTable("settings", {
   dachipoolShoutoutCooldownHours: integer("dachipool_shoutout_cooldown_hours").notNull().default(24),
   dachipoolAiModel: text("dachipool_ai_model").notNull().default("llama-3.3-70b-versatile"),
   dachipoolAiTemp: integer("dachipool_ai_temp").notNull().default(7), // Stored as 0-10, divide by 10
-  aiPersonality: text("ai_personality").notNull().default("Casual"), // Casual, Comedy, Quirky, Serious, Gaming, Professional
+  aiPersonality: text("ai_personality").notNull().default("Casual"), // Legacy preset name, used to pick a persona until activePersonaId is set
+  activePersonaId: varchar("active_persona_id"), // Persona used when no scheduled persona applies
   autoShoutoutsEnabled: boolean("auto_shoutouts_enabled").notNull().default(true),
   
+  // LLM Provider Settings
+  llmProvider: text("llm_provider").notNull().default("groq"), // groq, openai_compatible, fake
+  llmBaseUrl: text("llm_base_url"), // e.g. http://localhost:11434/v1 for Ollama
+  llmModelOverride: text("llm_model_override"), // Replaces every requested model when set
+  embeddingProvider: text("embedding_provider").notNull().default("local"), // local (hashing, no model), openai_compatible, off
+  embeddingBaseUrl: text("embedding_base_url"), // Falls back to llmBaseUrl
+  embeddingModel: text("embedding_model"), // e.g. nomic-embed-text for Ollama
+  
   // Audio Settings
   audioMicMode: text("audio_mic_mode").notNull().default("muted"), // muted, passthrough
   audioVoiceSelection: text("audio_voice_selection").default("Default"),
@@ -155,16 +298,30 @@ export const settings = pgTable("settings", {
   ttsVolume: integer("tts_volume").notNull().default(10), // 0-10 (0.0-1.0), divide by 10
   
   // Topic Filters
-  topicAllowlist: jsonb("topic_allowlist").$type<string[]>().default(sql`'["gaming", "anime", "chatting"]'::jsonb`),
-  topicBlocklist: jsonb("topic_blocklist").$type<string[]>().default(sql`'["politics", "religion"]'::jsonb`),
+  topicAllowlist: jsonb("topic_allowlist").$type<string[]>().default(sql`'["gaming", "anime", "chatting"]'::jsonb`), // DEFAULT_TOPIC_ALLOWLIST
+  topicBlocklist: jsonb("topic_blocklist").$type<string[]>().default(sql`'["politics", "religion"]'::jsonb`), // DEFAULT_TOPIC_BLOCKLIST
   useDatabasePersonalization: boolean("use_database_personalization").notNull().default(true),
   streamerVoiceOnlyMode: boolean("streamer_voice_only_mode").notNull().default(false),
   
   // DachiStream Settings
-  dachiastreamSelectionStrategy: text("dachiastream_selection_strategy").notNull().default("most_active"), // most_active, random, new_chatter
+  dachiastreamSelectionStrategy: text("dachiastream_selection_strategy").notNull().default("most_active"), // most_active, random, new_chatter, smart
+  dachiastreamSmartWeights: jsonb("dachiastream_smart_weights").$type<SelectionWeights>().default(sql`'{"question":8,"mention":10,"sentiment":4,"role":5,"lastAnswered":6,"novelty":5}'::jsonb`), // 0-10 per factor for the smart strategy
   dachiastreamPaused: boolean("dachiastream_paused").notNull().default(false),
   dachiastreamAutoSendToChat: boolean("dachiastream_auto_send_to_chat").notNull().default(false),
+  dachiastreamRequireApproval: boolean("dachiastream_require_approval").notNull().default(false), // Hold replies on the Monitor page until approved
+  dachiastreamReviewTimeoutSeconds: integer("dachiastream_review_timeout_seconds").notNull().default(120), // Pending replies expire after this
+  dachiastreamAutoApproveSeconds: integer("dachiastream_auto_approve_seconds").notNull().default(0), // Send if nobody acts in time (0 = never)
   dachiastreamCycleInterval: integer("dachiastream_cycle_interval").notNull().default(15), // seconds between cycles (5-60)
+  dachiastreamAdaptiveInterval: boolean("dachiastream_adaptive_interval").notNull().default(false), // Scale interval and replies with chat velocity
+  dachiastreamMinCycleInterval: integer("dachiastream_min_cycle_interval").notNull().default(5), // Adaptive floor, seconds (busy chat)
+  dachiastreamMaxCycleInterval: integer("dachiastream_max_cycle_interval").notNull().default(60), // Adaptive ceiling, seconds (quiet chat)
+  dachiastreamMaxRepliesPerCycle: integer("dachiastream_max_replies_per_cycle").notNull().default(3), // Adaptive replies per cycle at full load
+  dachiastreamPrioritizeSupporters: boolean("dachiastream_prioritize_supporters").notNull().default(false), // Thank subs/cheers before regular chat
+  dachiastreamMentionFastPath: boolean("dachiastream_mention_fast_path").notNull().default(true), // Answer @bot mentions and wake-words right away
+  dachiastreamWakeWords: jsonb("dachiastream_wake_words").$type<string[]>().default(sql`'[]'::jsonb`), // Extra names/phrases that count as addressing the bot
+  dachiastreamMentionRepliesPerMinute: integer("dachiastream_mention_replies_per_minute").notNull().default(4), // Fast-path rate limit per channel
+  dachiastreamBannedWords: jsonb("dachiastream_banned_words").$type<string[]>().default(sql`'[]'::jsonb`), // Replies containing these never reach chat
+  dachiastreamUnsafeReplyAction: text("dachiastream_unsafe_reply_action").notNull().default("regenerate"), // regenerate (once), block
   
   // Dashboard Settings
   streamSessionStarted: timestamp("stream_session_started"), // Track when current stream started
@@ -173,6 +330,7 @@ export const settings = pgTable("settings", {
   dashboardShowActiveUsers: boolean("dashboard_show_active_users").notNull().default(true),
   dashboardShowModActions: boolean("dashboard_show_mod_actions").notNull().default(true),
   
+  createdAt: timestamp("created_at").notNull().defaultNow(), // Oldest row is the primary channel
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
@@ -220,6 +378,7 @@ export const insertAiCommandSchema = createInsertSchema(aiCommands).omit({
 
 export const insertSettingsSchema = createInsertSchema(settings).omit({
   id: true,
+  createdAt: true,
   updatedAt: true,
 });
 
@@ -244,6 +403,40 @@ export const insertModerationActionSchema = createInsertSchema(moderationActions
   timestamp: true,
 });
 
+export const insertStreamSessionSchema = createInsertSchema(streamSessions).omit({
+  id: true,
+});
+
+export const insertMessageEmbeddingSchema = createInsertSchema(messageEmbeddings).omit({
+  createdAt: true,
+});
+
+export const insertConversationMemorySchema = createInsertSchema(conversationMemory).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertReplyReviewSchema = createInsertSchema(replyReviews).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertDachiStreamCycleSchema = createInsertSchema(dachistreamCycles).omit({
+  id: true,
+  startedAt: true,
+});
+
+export const insertAiReplySchema = createInsertSchema(aiReplies).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPersonaSchema = createInsertSchema(personas).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 // Types
 export type UserProfile = typeof userProfiles.$inferSelect;
 export type InsertUserProfile = z.infer<typeof insertUserProfileSchema>;
@@ -275,6 +468,31 @@ export type InsertRaid = z.infer<typeof insertRaidSchema>;
 export type ModerationAction = typeof moderationActions.$inferSelect;
 export type InsertModerationAction = z.infer<typeof insertModerationActionSchema>;
 
+export type StreamSession = typeof streamSessions.$inferSelect;
+export type InsertStreamSession = z.infer<typeof insertStreamSessionSchema>;
+
+export type MessageEmbedding = typeof messageEmbeddings.$inferSelect;
+export type InsertMessageEmbedding = z.infer<typeof insertMessageEmbeddingSchema>;
+
+export type ConversationMemory = typeof conversationMemory.$inferSelect;
+export type InsertConversationMemory = z.infer<typeof insertConversationMemorySchema>;
+export type ConversationMemoryKind = "reply" | "summary";
+
+export type ReplyReview = typeof replyReviews.$inferSelect;
+export type InsertReplyReview = z.infer<typeof insertReplyReviewSchema>;
+export type ReplyReviewStatus = "pending" | "approved" | "edited" | "rejected" | "expired" | "auto_approved";
+
+export type DachiStreamCycle = typeof dachistreamCycles.$inferSelect;
+export type InsertDachiStreamCycle = z.infer<typeof insertDachiStreamCycleSchema>;
+export type DachiStreamCycleStatus = "running" | "completed" | "no_selection" | "disabled" | "error";
+
+export type AiReply = typeof aiReplies.$inferSelect;
+export type InsertAiReply = z.infer<typeof insertAiReplySchema>;
+export type AiReplySource = "cycle" | "mention" | "regenerate";
+
+export type Persona = typeof personas.$inferSelect;
+export type InsertPersona = z.infer<typeof insertPersonaSchema>;
+
 // Extended types for frontend
 export type ChatMessageWithAnalysis = ChatMessage & {
   analysis?: AiAnalysis;
@@ -283,3 +501,87 @@ export type ChatMessageWithAnalysis = ChatMessage & {
 export type UserProfileWithInsight = UserProfile & {
   insight?: UserInsight;
 };
+
+export interface StreamSessionStats {
+  messageCount: number;
+  uniqueChatters: number;
+  analyzedCount: number;
+  averageSentiment: number | null; // 1-5, null when nothing was analyzed
+  toxicCount: number;
+  raidCount: number;
+}
+
+// Factor weights (0-10) for the smart DachiStream selection strategy
+export interface SelectionWeights {
+  question: number;
+  mention: number; // Mentions the bot or the streamer
+  sentiment: number;
+  role: number; // Broadcaster, mod, VIP, subscriber
+  lastAnswered: number; // Time since the bot last replied to this user
+  novelty: number; // Not a repeat of other buffered messages
+}
+
+export const DEFAULT_SELECTION_WEIGHTS: SelectionWeights = {
+  question: 8,
+  mention: 10,
+  sentiment: 4,
+  role: 5,
+  lastAnswered: 6,
+  novelty: 5,
+};
+
+// Persona instructions appended for each DachiPool energy level
+export interface PersonaEnergyModifiers {
+  High?: string;
+  Balanced?: string;
+  Low?: string;
+}
+
+export interface PersonaExampleExchange {
+  user: string; // What a chatter said
+  reply: string; // How the persona answers
+}
+
+// A weekly time slot; end before start wraps past midnight
+export interface PersonaScheduleWindow {
+  days: number[]; // 0 = Sunday ... 6 = Saturday, empty means every day
+  start: string; // "HH:MM" in the persona's schedule time zone
+  end: string; // "HH:MM", exclusive
+}
+
+// Same as the topic_allowlist / topic_blocklist column defaults
+export const DEFAULT_TOPIC_ALLOWLIST = ["gaming", "anime", "chatting"];
+export const DEFAULT_TOPIC_BLOCKLIST = ["politics", "religion"];
+
+// Lifetime chat activity per user, for the learning scheduler
+export interface UserMessageStats {
+  userId: string;
+  username: string;
+  messageCount: number;
+  lastMessageAt: Date;
+}
+
+export type StreamSessionWithStats = StreamSession & {
+  stats: StreamSessionStats;
+};
+
+// Support events stored as chat_messages rows (eventType + metadata)
+export type SupportEventType = "sub" | "resub" | "subgift" | "submysterygift" | "cheer" | "giftupgrade" | "follow";
+
+export interface SupportEventMetadata {
+  tier?: string; // "Prime", "1000", "2000", "3000"
+  tierName?: string;
+  cumulativeMonths?: number;
+  streakMonths?: number;
+  recipient?: string;
+  giftCount?: number;
+  senderTotalGifts?: number;
+  fromMysteryGift?: boolean;
+  bits?: number;
+  userMessage?: string; // Message the viewer attached, if any
+}
+
+// tmi.js reports channels as "#name"; settings rows and URLs use the bare name
+export function normalizeChannel(channel: string): string {
+  return channel.trim().replace(/^#/, "").toLowerCase();
+}